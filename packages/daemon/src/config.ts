@@ -1,7 +1,7 @@
 import * as fs from "node:fs"
 import * as path from "node:path"
 import * as readline from "node:readline"
-import type { DaemonConfig } from "@ccchat/shared"
+import type { DaemonConfig, WorkspaceConfig } from "@ccchat/shared"
 
 // 配置文件路径
 const CONFIG_DIR = path.join(
@@ -28,6 +28,26 @@ export function loadConfig(): DaemonConfig | null {
   }
 }
 
+/** 检查互相冲突的配置项，返回错误信息 */
+export function validateConfig(config: DaemonConfig): string | undefined {
+  // 共用工作目录时 git patch 的快照、diff 和回滚覆盖整个工作树，并发任务的改动会互相混入
+  if (config.gitPatchMode && (config.maxConcurrentTasks ?? DEFAULT_MAX_CONCURRENT_TASKS) > 1 && config.workspaceMode !== "worktree") {
+    return "gitPatchMode 与 maxConcurrentTasks > 1 同时使用时需要设置 workspaceMode: \"worktree\""
+  }
+  return undefined
+}
+
+/** 解析任务使用的工作区：未指定名称时为 workDir，名称不存在时返回 undefined */
+export function resolveWorkspace(config: DaemonConfig, name?: string): WorkspaceConfig | undefined {
+  if (!name) return { path: config.workDir }
+  return config.workspaces?.[name]
+}
+
+/** 配置的命名工作区名称列表 */
+export function listWorkspaceNames(config: DaemonConfig): ReadonlyArray<string> {
+  return Object.keys(config.workspaces ?? {})
+}
+
 /** 保存配置到文件 */
 export function saveConfig(config: DaemonConfig): void {
   if (!fs.existsSync(CONFIG_DIR)) {
@@ -1,16 +1,35 @@
 import { spawn, type ChildProcess } from "node:child_process"
 import { createInterface } from "node:readline"
-import type { DaemonConfig } from "@ccchat/shared"
+import { classifyTaskError, type DaemonConfig, type TaskErrorKind } from "@ccchat/shared"
+
+// 只读（safe）任务禁用的工具：修改文件和执行命令
+const SAFE_DISALLOWED_TOOLS = ["Bash", "Edit", "MultiEdit", "Write", "NotebookEdit"]
 
 interface ExecutionResult {
   readonly output: string
   readonly status: "success" | "error"
+  /** 失败类型（Hub 据此决定是否自动重试） */
+  readonly errorKind?: TaskErrorKind
 }
 
 export interface ExecuteOptions {
+  /** 执行目录（默认 config.workDir） */
+  readonly cwd?: string
+  /** 覆盖 config.systemPrompt（命名工作区） */
+  readonly systemPrompt?: string
+  /** 覆盖 config.taskTimeout（命名工作区） */
+  readonly timeout?: number
   readonly conversationId?: string
   readonly parentTaskId?: string
+  /** 只读任务：禁用 SAFE_DISALLOWED_TOOLS */
+  readonly safe?: boolean
   readonly onProgress?: (status: string, detail?: string) => void
+  /** 每段 assistant 文本输出时回调（用于流式转发） */
+  readonly onOutput?: (text: string) => void
+  /** 进入本地队列或排队位置变化时回调（position 从 1 开始） */
+  readonly onQueued?: (position: number) => void
+  /** 获得执行槽位、启动 Claude 之前调用（如记录工作目录快照） */
+  readonly beforeStart?: () => Promise<void>
 }
 
 export interface Executor {
@@ -19,15 +38,15 @@ export interface Executor {
   readonly getRunningCount: () => number
   readonly getCurrentTaskId: () => string | undefined
   readonly getRunningTaskIds: () => ReadonlyArray<string>
+  readonly getQueuedCount: () => number
+  readonly isQueueFull: () => boolean
   /** 优雅关闭：向所有运行中的子进程发送 SIGTERM，等待完成或超时后强制 kill */
   readonly shutdown: (timeoutMs?: number) => Promise<void>
 }
 
-/** 截取输出结果（限制长度避免 Telegram 消息过长） */
+/** 整理输出结果（保留完整内容，长度由 Hub 分页/存档处理） */
 function extractResult(rawOutput: string): string {
-  const trimmed = rawOutput.trim()
-  if (trimmed.length <= 4000) return trimmed
-  return trimmed.slice(-4000)
+  return rawOutput.trim()
 }
 
 /** 从 assistant message content blocks 提取可读状态 */
@@ -57,11 +76,15 @@ function runClaude(
   config: DaemonConfig,
   options?: ExecuteOptions,
 ): { readonly child: ChildProcess; readonly result: Promise<ExecutionResult> } {
-  const timeout = config.taskTimeout ?? 300_000
-  const prompt = config.systemPrompt
-    ? `[系统角色] ${config.systemPrompt}\n\n[任务] ${taskContent}`
+  const timeout = options?.timeout ?? config.taskTimeout ?? 300_000
+  const systemPrompt = options?.systemPrompt ?? config.systemPrompt
+  const prompt = systemPrompt
+    ? `[系统角色] ${systemPrompt}\n\n[任务] ${taskContent}`
     : taskContent
   const args = ["-p", prompt, "--output-format", "stream-json", "--verbose"]
+  if (options?.safe) {
+    args.push("--disallowedTools", ...SAFE_DISALLOWED_TOOLS)
+  }
 
   // 多轮对话：使用 Claude 原生会话恢复
   if (options?.conversationId) {
@@ -73,7 +96,7 @@ function runClaude(
   }
 
   const child = spawn("claude", args, {
-    cwd: config.workDir,
+    cwd: options?.cwd ?? config.workDir,
     env: { ...process.env },
     stdio: ["ignore", "pipe", "pipe"],
   })
@@ -109,6 +132,7 @@ function runClaude(
               for (const block of content) {
                 if (block.type === "text" && typeof block.text === "string") {
                   fallbackText = block.text
+                  options?.onOutput?.(block.text)
                 }
               }
             }
@@ -131,7 +155,7 @@ function runClaude(
     // 超时控制（使用 settled 标志防止与 close 事件竞态）
     const timer = setTimeout(() => {
       child.kill("SIGTERM")
-      settle({ output: `任务超时 (${timeout}ms)`, status: "error" })
+      settle({ output: `任务超时 (${timeout}ms)`, status: "error", errorKind: "terminal" })
     }, timeout)
 
     child.on("close", (code, signal) => {
@@ -141,6 +165,7 @@ function runClaude(
         settle({
           output: existing ? `${extractResult(existing)}\n\n(任务被取消)` : "任务已取消",
           status: "error",
+          errorKind: "terminal",
         })
       } else if (code === 0) {
         const output = resultText || fallbackText
@@ -149,56 +174,132 @@ function runClaude(
           status: "success",
         })
       } else {
-        settle({
-          output: extractResult(stderr || resultText || fallbackText) || `进程退出码: ${code}`,
-          status: "error",
-        })
+        const output = extractResult(stderr || resultText || fallbackText) || `进程退出码: ${code}`
+        // 限流、网络抖动等由 CLI 报错退出，按错误文本判断
+        settle({ output, status: "error", errorKind: classifyTaskError(output) })
       }
     })
 
     child.on("error", (err) => {
       clearTimeout(timer)
-      settle({ output: `执行失败: ${err.message}`, status: "error" })
+      settle({ output: `执行失败: ${err.message}`, status: "error", errorKind: "terminal" })
     })
   })
 
   return { child, result }
 }
 
-/** 创建执行器（含并发控制、取消支持和优雅关闭） */
+/** 本地队列中等待执行槽位的任务 */
+interface QueuedTask {
+  readonly taskId: string
+  readonly onQueued?: (position: number) => void
+  /** true: 获得槽位；false: 排队期间被取消 */
+  readonly resolve: (admitted: boolean) => void
+}
+
+/** 创建执行器（含并发控制、FIFO 排队、取消支持和优雅关闭） */
 export function createExecutor(config: DaemonConfig): Executor {
   const maxConcurrent = config.maxConcurrentTasks ?? 1
+  const maxQueued = config.maxQueuedTasks ?? 10
   const runningTasks = new Map<string, ChildProcess>()
   const executionPromises = new Map<string, Promise<ExecutionResult>>()
+  // 已获得槽位、正在执行 beforeStart 的任务（同样占用并发槽位）
+  const startingTasks = new Set<string>()
+  let queue: ReadonlyArray<QueuedTask> = []
+  // 关闭期间被终止的任务可在 daemon 重启后重试
+  let shuttingDown = false
+
+  function markShutdown(result: ExecutionResult): ExecutionResult {
+    return shuttingDown && result.status === "error" ? { ...result, errorKind: "retryable" } : result
+  }
+
+  function activeCount(): number {
+    return runningTasks.size + startingTasks.size
+  }
+
+  // 通知排队任务的最新位置（fromIndex 之前的任务位置未变）
+  function notifyPositions(fromIndex = 0): void {
+    queue.slice(fromIndex).forEach((entry, index) => entry.onQueued?.(fromIndex + index + 1))
+  }
+
+  // 有空闲槽位时按 FIFO 放行排队任务
+  function drainQueue(): void {
+    if (queue.length === 0 || activeCount() >= maxConcurrent) return
+    const admitted = queue.slice(0, maxConcurrent - activeCount())
+    queue = queue.slice(admitted.length)
+    for (const entry of admitted) {
+      startingTasks.add(entry.taskId)
+      entry.resolve(true)
+    }
+    notifyPositions()
+  }
+
+  // 进入队列等待槽位
+  function waitForSlot(taskId: string, onQueued?: (position: number) => void): Promise<boolean> {
+    return new Promise((resolve) => {
+      queue = [...queue, { taskId, onQueued, resolve }]
+      onQueued?.(queue.length)
+    })
+  }
 
   return {
     async execute(taskId: string, taskContent: string, options?: ExecuteOptions): Promise<ExecutionResult> {
-      if (runningTasks.size >= maxConcurrent) {
-        return {
-          output: `并发上限 (${maxConcurrent})，请稍后重试`,
-          status: "error",
+      if (activeCount() < maxConcurrent) {
+        startingTasks.add(taskId)
+      } else {
+        if (queue.length >= maxQueued) {
+          return {
+            output: `并发上限 (${maxConcurrent}) 且队列已满 (${maxQueued})，请稍后重试`,
+            status: "error",
+            errorKind: "retryable",
+          }
+        }
+        process.stdout.write(`任务 [${taskId}] 进入队列，前方 ${queue.length} 个任务\n`)
+        const admitted = await waitForSlot(taskId, options?.onQueued)
+        if (!admitted) {
+          return markShutdown({ output: "任务在排队期间被取消", status: "error", errorKind: "terminal" })
         }
       }
 
-      if (options?.conversationId) {
-        const mode = options.parentTaskId ? "--resume" : "--session-id"
-        process.stdout.write(`会话模式: ${mode} ${options.conversationId}\n`)
-      }
+      let result: Promise<ExecutionResult>
+      try {
+        await options?.beforeStart?.()
+
+        if (options?.conversationId) {
+          const mode = options.parentTaskId ? "--resume" : "--session-id"
+          process.stdout.write(`会话模式: ${mode} ${options.conversationId}\n`)
+        }
 
-      const { child, result } = runClaude(taskContent, config, options)
-      runningTasks.set(taskId, child)
-      executionPromises.set(taskId, result)
+        const spawned = runClaude(taskContent, config, options)
+        result = spawned.result
+        runningTasks.set(taskId, spawned.child)
+        executionPromises.set(taskId, result)
+      } finally {
+        startingTasks.delete(taskId)
+        // 启动失败时释放槽位给排队任务
+        if (!runningTasks.has(taskId)) drainQueue()
+      }
 
       try {
         const execResult = await result
-        return execResult
+        return markShutdown(execResult)
       } finally {
         runningTasks.delete(taskId)
         executionPromises.delete(taskId)
+        drainQueue()
       }
     },
 
     cancel(taskId: string): boolean {
+      const queuedIndex = queue.findIndex((entry) => entry.taskId === taskId)
+      if (queuedIndex >= 0) {
+        const queued = queue[queuedIndex]
+        queue = queue.filter((entry) => entry !== queued)
+        queued.resolve(false)
+        notifyPositions(queuedIndex)
+        return true
+      }
+
       const child = runningTasks.get(taskId)
       if (!child) return false
 
@@ -225,7 +326,21 @@ export function createExecutor(config: DaemonConfig): Executor {
       return Array.from(runningTasks.keys())
     },
 
+    getQueuedCount(): number {
+      return queue.length
+    },
+
+    isQueueFull(): boolean {
+      return activeCount() >= maxConcurrent && queue.length >= maxQueued
+    },
+
     async shutdown(timeoutMs = 10_000): Promise<void> {
+      shuttingDown = true
+      // 排队中的任务不再启动
+      const queued = queue
+      queue = []
+      for (const entry of queued) entry.resolve(false)
+
       if (runningTasks.size === 0) return
       process.stdout.write(`等待 ${runningTasks.size} 个运行中的任务完成...\n`)
 
@@ -0,0 +1,213 @@
+import { execFile } from "node:child_process"
+import { promisify } from "node:util"
+import { randomUUID } from "node:crypto"
+import { copyFile, mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { dirname, join } from "node:path"
+import { getConfigPath } from "./config.js"
+
+const execFileAsync = promisify(execFile)
+
+// daemon 自己写入工作目录的内容，不计入任务改动
+const EXCLUDED_PATHS = [".ccchat-attachments", ".ccchat-outputs"]
+// 随结果发送的 diff 最大字符数（完整补丁保存在本地，回滚不受影响）
+const MAX_DIFF_CHARS = 512_000
+// 本地补丁保留时间（超时后无法再回滚）
+const PATCH_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface TaskDiff {
+  readonly diff: string
+  readonly truncated: boolean
+}
+
+/** 本地补丁目录：~/.ccchat/patches */
+function getPatchDir(): string {
+  return join(dirname(getConfigPath()), "patches")
+}
+
+function getPatchPath(taskId: string): string {
+  return join(getPatchDir(), `${taskId}.patch`)
+}
+
+// 记录补丁对应的仓库根目录（worktree / 命名工作区下各任务目录不同）
+function getPatchRootPath(taskId: string): string {
+  return join(getPatchDir(), `${taskId}.root`)
+}
+
+// worktree 模式下记录改动所在的分支提交（改动已提交，回滚需在分支上撤销该提交）
+function getCommitRecordPath(taskId: string): string {
+  return join(getPatchDir(), `${taskId}.commit`)
+}
+
+interface TaskCommitRecord {
+  /** 主仓库目录（worktree 被清理后仍可在此找到分支） */
+  readonly repoDir: string
+  readonly branch: string
+  readonly commit: string
+}
+
+/** 执行 git 命令，返回 stdout */
+async function git(
+  cwd: string,
+  args: ReadonlyArray<string>,
+  env?: Record<string, string>,
+): Promise<string> {
+  const { stdout } = await execFileAsync("git", [...args], {
+    cwd,
+    env: { ...process.env, ...env },
+    maxBuffer: 64 * 1024 * 1024,
+  })
+  return stdout
+}
+
+function excludeSpecs(): ReadonlyArray<string> {
+  return EXCLUDED_PATHS.map((p) => `:(exclude)${p}`)
+}
+
+/** 把工作目录当前状态（含未跟踪文件，遵守 .gitignore）写成 tree 对象，不影响真实 index */
+async function writeWorkTree(workDir: string): Promise<string> {
+  const indexFile = join(tmpdir(), `ccchat-index-${randomUUID()}`)
+  // 复制真实 index 以复用其中的文件状态缓存
+  const realIndex = (await git(workDir, ["rev-parse", "--path-format=absolute", "--git-path", "index"])).trim()
+  await copyFile(realIndex, indexFile).catch(() => {})
+  const env = { GIT_INDEX_FILE: indexFile }
+  try {
+    await git(workDir, ["add", "-A", "--", ".", ...excludeSpecs()], env)
+    return (await git(workDir, ["write-tree"], env)).trim()
+  } finally {
+    await rm(indexFile, { force: true })
+  }
+}
+
+/** 任务开始前记录工作目录快照，workDir 不是 git 仓库时返回 undefined */
+export async function snapshotWorkTree(workDir: string): Promise<string | undefined> {
+  try {
+    await git(workDir, ["rev-parse", "--is-inside-work-tree"])
+  } catch {
+    return undefined
+  }
+  return writeWorkTree(workDir)
+}
+
+/** 计算快照之后的改动，并保存完整补丁供回滚使用；无改动时返回 undefined */
+export async function captureTaskDiff(
+  workDir: string,
+  taskId: string,
+  baseTree: string,
+): Promise<TaskDiff | undefined> {
+  const afterTree = await writeWorkTree(workDir)
+  if (afterTree === baseTree) return undefined
+  const diff = await git(workDir, ["diff", "--binary", baseTree, afterTree, "--", ".", ...excludeSpecs()])
+  if (!diff.trim()) return undefined
+
+  const topLevel = (await git(workDir, ["rev-parse", "--show-toplevel"])).trim()
+  await mkdir(getPatchDir(), { recursive: true, mode: 0o700 })
+  await writeFile(getPatchPath(taskId), diff, { encoding: "utf-8", mode: 0o600 })
+  await writeFile(getPatchRootPath(taskId), topLevel, { encoding: "utf-8", mode: 0o600 })
+
+  return diff.length > MAX_DIFF_CHARS
+    ? { diff: `${diff.slice(0, MAX_DIFF_CHARS)}\n...(diff 已截断)`, truncated: true }
+    : { diff, truncated: false }
+}
+
+/** 记录任务改动在任务分支上的提交（worktree 模式） */
+export async function recordTaskCommit(
+  workDir: string,
+  taskId: string,
+  branch: string,
+  commit: string,
+): Promise<void> {
+  const commonDir = (await git(workDir, ["rev-parse", "--path-format=absolute", "--git-common-dir"])).trim()
+  const record: TaskCommitRecord = { repoDir: dirname(commonDir), branch, commit }
+  await mkdir(getPatchDir(), { recursive: true, mode: 0o700 })
+  await writeFile(getCommitRecordPath(taskId), JSON.stringify(record), { encoding: "utf-8", mode: 0o600 })
+}
+
+async function readCommitRecord(taskId: string): Promise<TaskCommitRecord | undefined> {
+  try {
+    return JSON.parse(await readFile(getCommitRecordPath(taskId), "utf-8")) as TaskCommitRecord
+  } catch {
+    return undefined
+  }
+}
+
+/** 查找检出了指定分支的 worktree 目录 */
+async function findBranchWorktree(repoDir: string, branch: string): Promise<string | undefined> {
+  const output = await git(repoDir, ["worktree", "list", "--porcelain"])
+  for (const block of output.split("\n\n")) {
+    const lines = block.split("\n")
+    if (!lines.includes(`branch refs/heads/${branch}`)) continue
+    return lines.find((line) => line.startsWith("worktree "))?.slice("worktree ".length)
+  }
+  return undefined
+}
+
+/** 在任务分支上撤销任务提交（原 worktree 已清理时临时检出分支） */
+async function revertTaskCommit(record: TaskCommitRecord): Promise<void> {
+  const existing = await findBranchWorktree(record.repoDir, record.branch)
+  const dir = existing ?? join(tmpdir(), `ccchat-revert-${randomUUID()}`)
+  if (!existing) await git(record.repoDir, ["worktree", "add", dir, record.branch])
+  try {
+    if ((await git(dir, ["status", "--porcelain"])).trim()) {
+      throw new Error(`分支 ${record.branch} 的 worktree 有未提交的改动，请稍后再回滚`)
+    }
+    try {
+      await git(dir, ["-c", "user.name=ccchat", "-c", "user.email=ccchat@localhost", "revert", "--no-edit", record.commit])
+    } catch (err) {
+      await git(dir, ["revert", "--abort"]).catch(() => {})
+      const stderr = (err as { stderr?: string }).stderr?.trim()
+      throw new Error(`任务提交无法撤销（分支上的后续提交可能修改了同一文件）${stderr ? `: ${stderr}` : ""}`)
+    }
+  } finally {
+    if (!existing) {
+      await git(record.repoDir, ["worktree", "remove", "--force", dir]).catch(() => {})
+    }
+  }
+}
+
+/** 回滚任务改动：worktree 模式在任务分支上撤销提交，否则反向应用补丁 */
+export async function revertTaskDiff(taskId: string): Promise<void> {
+  const record = await readCommitRecord(taskId)
+  if (record) {
+    await revertTaskCommit(record)
+    await rm(getCommitRecordPath(taskId), { force: true })
+    await rm(getPatchPath(taskId), { force: true })
+    await rm(getPatchRootPath(taskId), { force: true })
+    return
+  }
+  const patchPath = getPatchPath(taskId)
+  let topLevel: string
+  try {
+    // diff 中的路径相对于仓库根目录
+    topLevel = (await readFile(getPatchRootPath(taskId), "utf-8")).trim()
+  } catch {
+    throw new Error("未找到该任务的补丁（可能已回滚或已过期）")
+  }
+  try {
+    await git(topLevel, ["apply", "-R", "--check", "--binary", patchPath])
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim()
+    throw new Error(`补丁无法反向应用（文件可能已被再次修改）${stderr ? `: ${stderr}` : ""}`)
+  }
+  await git(topLevel, ["apply", "-R", "--binary", patchPath])
+  await rm(patchPath, { force: true })
+  await rm(getPatchRootPath(taskId), { force: true })
+}
+
+/** 清理过期的本地补丁 */
+export async function cleanupPatches(): Promise<void> {
+  let entries: ReadonlyArray<string>
+  try {
+    entries = await readdir(getPatchDir())
+  } catch {
+    return
+  }
+  const now = Date.now()
+  for (const name of entries) {
+    const filePath = join(getPatchDir(), name)
+    const { mtimeMs } = await stat(filePath)
+    if (now - mtimeMs >= PATCH_RETENTION_MS) {
+      await rm(filePath, { force: true })
+    }
+  }
+}
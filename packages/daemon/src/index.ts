@@ -2,10 +2,77 @@
 
 import { mkdir, writeFile } from "node:fs/promises"
 import { join, basename } from "node:path"
-import type { HubToAgentMessage, TaskMessage, DaemonConfig, AgentToHubMessage } from "@ccchat/shared"
-import { loadConfig, initConfig, getConfigPath } from "./config.js"
+import type { HubToAgentMessage, TaskMessage, ChatMessage, DaemonConfig, AgentToHubMessage, TaskAttachment, TaskErrorKind, WorkspaceConfig } from "@ccchat/shared"
+import { loadConfig, initConfig, getConfigPath, resolveWorkspace, listWorkspaceNames, validateConfig } from "./config.js"
 import { createWsClient } from "./ws-client.js"
+import { createJournal, getJournalPath } from "./journal.js"
 import { createExecutor, type Executor } from "./executor.js"
+import { createOutputStream } from "./output-stream.js"
+import { prepareOutputDir, collectOutputFiles, removeOutputDir } from "./output-files.js"
+import { snapshotWorkTree, captureTaskDiff, recordTaskCommit, revertTaskDiff, cleanupPatches, type TaskDiff } from "./git-patch.js"
+import { createWorkspaceManager, type WorkspaceManager, type TaskWorkspace } from "./workspace.js"
+
+// 单条 WS 消息承载的最大结果字符数（Hub maxPayload 为 8MB，按 UTF-8 最坏情况留足余量）
+const RESULT_CHUNK_CHARS = 512_000
+// 单条 WS 消息的字节预算（Hub maxPayload 为 8MB，超出会被断开，重连后重放同一条消息仍会失败）
+const MAX_MESSAGE_BYTES = 7_500_000
+
+// prompt 模式下最多保留的未读 Agent 消息数，超出时丢弃最早的
+const MAX_UNREAD_MESSAGES = 50
+
+function messageBytes(value: unknown): number {
+  return Buffer.byteLength(JSON.stringify(value))
+}
+
+/**
+ * 发送任务结果：输出文件和 diff 随最终 task_result 发送，按序列化后的字节数核算，
+ * 放不下的输出文件不返回并在结果中说明；结果文本放不进最终消息时先分片发送 task_result_chunk
+ */
+function sendTaskResult(
+  taskId: string,
+  output: string,
+  status: "success" | "error",
+  errorKind: TaskErrorKind | undefined,
+  attachments: ReadonlyArray<TaskAttachment>,
+  diff: TaskDiff | undefined,
+  branch: string | undefined,
+  sendCritical: (msg: AgentToHubMessage) => void,
+): void {
+  const baseFields = {
+    ...(status === "error" && errorKind ? { errorKind } : {}),
+    ...(branch ? { branch } : {}),
+    ...(diff ? { diff: diff.diff, ...(diff.truncated ? { diffTruncated: true } : {}) } : {}),
+  }
+  let budget = MAX_MESSAGE_BYTES - messageBytes({ type: "task_result", taskId, result: "", status, totalChunks: 0, ...baseFields })
+  const kept: TaskAttachment[] = []
+  const dropped: string[] = []
+  for (const attachment of attachments) {
+    // 数组元素之间的逗号按 1 字节计
+    const size = messageBytes(attachment) + 1
+    if (size > budget) {
+      dropped.push(attachment.filename)
+      continue
+    }
+    kept.push(attachment)
+    budget -= size
+  }
+  const text = dropped.length > 0
+    ? `${output}\n\n(以下文件超出单条消息大小限制，未返回: ${dropped.join(", ")})`
+    : output
+  const extraFields = { ...baseFields, ...(kept.length > 0 ? { attachments: kept } : {}) }
+
+  const inline: AgentToHubMessage = { type: "task_result", taskId, result: text, status, ...extraFields }
+  if (text.length <= RESULT_CHUNK_CHARS && messageBytes(inline) <= MAX_MESSAGE_BYTES) {
+    sendCritical(inline)
+    return
+  }
+  const total = Math.ceil(text.length / RESULT_CHUNK_CHARS)
+  for (let index = 0; index < total; index++) {
+    const chunk = text.slice(index * RESULT_CHUNK_CHARS, (index + 1) * RESULT_CHUNK_CHARS)
+    sendCritical({ type: "task_result_chunk", taskId, index, total, text: chunk })
+  }
+  sendCritical({ type: "task_result", taskId, result: "", status, totalChunks: total, ...extraFields })
+}
 
 /** 处理任务消息 */
 async function handleTask(
@@ -14,30 +81,115 @@ async function handleTask(
   send: (msg: AgentToHubMessage) => void,
   sendCritical: (msg: AgentToHubMessage) => void,
   executor: Executor,
+  workspaces: WorkspaceManager,
+  takeMessages: () => ReadonlyArray<ChatMessage>,
+  reportStatus: () => void,
 ): Promise<void> {
   process.stdout.write(`收到任务 [${task.taskId}] 来自 ${task.from}: ${task.content.slice(0, 80)}\n`)
 
-  const startTime = Date.now()
+  // 队列已满：直接失败，避免先准备工作目录
+  if (executor.isQueueFull()) {
+    sendCritical({
+      type: "task_result",
+      taskId: task.taskId,
+      result: `${config.agentName} 任务队列已满（上限 ${config.maxQueuedTasks ?? 10}），请稍后重试`,
+      status: "error",
+      errorKind: "retryable",
+    })
+    return
+  }
 
-  // 保存附件到本地
+  const workspaceConfig = resolveWorkspace(config, task.workspace)
+  if (!workspaceConfig) {
+    const available = listWorkspaceNames(config)
+    sendCritical({
+      type: "task_result",
+      taskId: task.taskId,
+      result: `未知工作区: ${task.workspace}${available.length > 0 ? `（可用: ${available.join(", ")}）` : ""}`,
+      status: "error",
+      errorKind: "terminal",
+    })
+    return
+  }
+  if (task.workspace) {
+    process.stdout.write(`任务 [${task.taskId}] 工作区: ${task.workspace} (${workspaceConfig.path})\n`)
+  }
+
+  let workspace: TaskWorkspace
+  try {
+    workspace = await workspaces.acquire(task.taskId, workspaceConfig.path, task.conversationId)
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err)
+    sendCritical({ type: "task_result", taskId: task.taskId, result: `准备工作目录失败: ${errMsg}`, status: "error", errorKind: "terminal" })
+    return
+  }
+  try {
+    await runTask(task, config, send, sendCritical, executor, workspaces, workspaceConfig, workspace, takeMessages, reportStatus)
+  } finally {
+    workspaces.release(task.taskId)
+  }
+}
+
+/** 在指定工作目录中执行任务并发送结果 */
+async function runTask(
+  task: TaskMessage,
+  config: DaemonConfig,
+  send: (msg: AgentToHubMessage) => void,
+  sendCritical: (msg: AgentToHubMessage) => void,
+  executor: Executor,
+  workspaces: WorkspaceManager,
+  workspaceConfig: WorkspaceConfig,
+  workspace: TaskWorkspace,
+  takeMessages: () => ReadonlyArray<ChatMessage>,
+  reportStatus: () => void,
+): Promise<void> {
+  // 排队结束后重置，进度耗时不含排队时间
+  let startTime = Date.now()
+
+  // 保存附件、准备输出目录；失败时必须回报结果，否则 Hub 上的任务会一直停在 running
   let content = task.content
-  if (task.attachments && task.attachments.length > 0) {
-    const attachDir = join(config.workDir, ".ccchat-attachments", task.taskId.slice(0, 8))
-    await mkdir(attachDir, { recursive: true })
-    const paths: string[] = []
-    for (const att of task.attachments) {
-      const safeName = basename(att.filename).replace(/[^\w.\-]/g, "_") || "attachment"
-      const filePath = join(attachDir, safeName)
-      await writeFile(filePath, Buffer.from(att.data, "base64"))
-      paths.push(filePath)
-      process.stdout.write(`附件已保存: ${filePath} (${att.size} bytes)\n`)
+  let outputDir: string
+  try {
+    if (task.attachments && task.attachments.length > 0) {
+      const attachDir = join(workspaceConfig.path, ".ccchat-attachments", task.taskId.slice(0, 8))
+      await mkdir(attachDir, { recursive: true })
+      const paths: string[] = []
+      for (const att of task.attachments) {
+        const safeName = basename(att.filename).replace(/[^\w.\-]/g, "_") || "attachment"
+        const filePath = join(attachDir, safeName)
+        await writeFile(filePath, Buffer.from(att.data, "base64"))
+        paths.push(filePath)
+        process.stdout.write(`附件已保存: ${filePath} (${att.size} bytes)\n`)
+      }
+      content = `${content}\n\n[附件文件]\n${paths.map((p) => `- ${p}`).join("\n")}`
     }
-    content = `${content}\n\n[附件文件]\n${paths.map((p) => `- ${p}`).join("\n")}`
+
+    // 任务输出目录：Claude 写入的文件会随结果返回给请求方
+    outputDir = await prepareOutputDir(workspaceConfig.path, task.taskId)
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err)
+    sendCritical({ type: "task_result", taskId: task.taskId, result: `准备任务失败: ${errMsg}`, status: "error", errorKind: "terminal" })
+    process.stderr.write(`任务 [${task.taskId}] 准备失败: ${errMsg}\n`)
+    return
   }
+  content = `${content}\n\n[输出文件]\n如需把文件（补丁、图表、CSV 等）返回给请求方，请保存到: ${outputDir}`
 
+  // 附加未读的 Agent 消息（messageMode = "prompt"）
+  const messages = takeMessages()
+  if (messages.length > 0) {
+    const lines = messages.map((m) => `- ${m.from} (${m.sentAt}): ${m.content}`)
+    content = `${content}\n\n[来自其他 Agent 的消息]\n${lines.join("\n")}`
+  }
+
+  let baseTree: string | undefined
+  const output = createOutputStream(task.taskId, send)
   const result = await executor.execute(task.taskId, content, {
+    cwd: workspace.dir,
+    systemPrompt: workspaceConfig.systemPrompt,
+    timeout: workspaceConfig.taskTimeout,
     conversationId: task.conversationId,
     parentTaskId: task.parentTaskId,
+    safe: task.safe,
     onProgress: (status, detail) => {
       send({
         type: "task_progress",
@@ -47,34 +199,105 @@ async function handleTask(
         elapsedMs: Date.now() - startTime,
       })
     },
+    onOutput: output.write,
+    onQueued: (position) => {
+      send({ type: "task_queued", taskId: task.taskId, position })
+      reportStatus()
+    },
+    beforeStart: async () => {
+      startTime = Date.now()
+      reportStatus()
+      // git patch 模式：执行前记录工作目录快照（排队结束后再记录，避免混入前一个任务的改动）
+      if (!config.gitPatchMode) return
+      baseTree = await snapshotWorkTree(workspace.dir).catch((err: unknown) => {
+        process.stderr.write(`Git snapshot failed: ${err instanceof Error ? err.message : err}\n`)
+        return undefined
+      })
+    },
   })
+  // 结果发送前先推送剩余输出，保证流式消费者收到完整文本
+  output.close()
 
-  sendCritical({
-    type: "task_result",
-    taskId: task.taskId,
-    result: result.output,
-    status: result.status,
+  const outputs = await collectOutputFiles(outputDir)
+  // 输出文件已读入内存随结果发送，目录不再保留
+  await removeOutputDir(outputDir).catch((err: unknown) => {
+    process.stderr.write(`Output dir cleanup failed: ${err instanceof Error ? err.message : err}\n`)
   })
+  const resultText = outputs.skipped.length > 0
+    ? `${result.output}\n\n(以下文件超出数量/大小限制或无法读取，未返回: ${outputs.skipped.join(", ")})`
+    : result.output
+  if (outputs.files.length > 0) {
+    process.stdout.write(`任务 [${task.taskId}] 返回 ${outputs.files.length} 个输出文件\n`)
+  }
+
+  const diff = baseTree
+    ? await captureTaskDiff(workspace.dir, task.taskId, baseTree).catch((err: unknown) => {
+        process.stderr.write(`Git diff failed: ${err instanceof Error ? err.message : err}\n`)
+        return undefined
+      })
+    : undefined
+  if (diff) {
+    process.stdout.write(`任务 [${task.taskId}] 产生改动 (${diff.diff.length} 字符)\n`)
+  }
+
+  if (workspace.branch) {
+    const commit = await workspaces.commit(task.taskId).catch((err: unknown) => {
+      process.stderr.write(`Worktree commit failed: ${err instanceof Error ? err.message : err}\n`)
+      return undefined
+    })
+    // 改动已提交到任务分支，回滚时需要撤销该提交
+    if (diff && commit) {
+      await recordTaskCommit(workspace.dir, task.taskId, workspace.branch, commit).catch((err: unknown) => {
+        process.stderr.write(`Task commit record failed: ${err instanceof Error ? err.message : err}\n`)
+      })
+    }
+  }
+
+  sendTaskResult(task.taskId, resultText, result.status, result.errorKind, outputs.files, diff, workspace.branch, sendCritical)
 
   process.stdout.write(`任务 [${task.taskId}] 完成: ${result.status}\n`)
 }
 
-/** 处理取消任务消息 */
+/** 处理取消任务消息（运行中或排队中的任务均可取消） */
 function handleCancelTask(
   taskId: string,
   sendCritical: (msg: AgentToHubMessage) => void,
   executor: Executor,
+  reportStatus: () => void,
 ): void {
   process.stdout.write(`收到取消请求: ${taskId}\n`)
   const cancelled = executor.cancel(taskId)
   if (cancelled) {
     sendCritical({ type: "task_cancelled", taskId })
+    reportStatus()
     process.stdout.write(`任务 [${taskId}] 已取消\n`)
   } else {
     process.stdout.write(`任务 [${taskId}] 未在运行，无法取消\n`)
   }
 }
 
+/** 处理回滚改动请求（git patch 模式） */
+async function handleRevertChanges(
+  taskId: string,
+  sendCritical: (msg: AgentToHubMessage) => void,
+): Promise<void> {
+  process.stdout.write(`收到回滚请求: ${taskId}\n`)
+  try {
+    await revertTaskDiff(taskId)
+    sendCritical({ type: "changes_reverted", taskId, success: true })
+    process.stdout.write(`任务 [${taskId}] 改动已回滚\n`)
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err)
+    sendCritical({ type: "changes_reverted", taskId, success: false, error: errMsg })
+    process.stderr.write(`任务 [${taskId}] 回滚失败: ${errMsg}\n`)
+  }
+}
+
+/** 打印其他 Agent 发来的消息 */
+function logChatMessage(msg: ChatMessage): void {
+  process.stdout.write(`收到消息 [${msg.messageId.slice(0, 8)}] 来自 ${msg.from}: ${msg.content}\n`)
+}
+
 /** 启动 daemon */
 async function startDaemon(): Promise<void> {
   const config = loadConfig()
@@ -82,43 +305,93 @@ async function startDaemon(): Promise<void> {
     process.stderr.write("未找到配置文件，请先运行: ccchat init\n")
     process.exit(1)
   }
+  const invalid = validateConfig(config)
+  if (invalid) {
+    process.stderr.write(`配置错误: ${invalid}\n`)
+    process.exit(1)
+  }
 
   process.stdout.write(`启动 CCChat Daemon...\n`)
   process.stdout.write(`Agent: ${config.agentName}\n`)
   process.stdout.write(`Hub: ${config.hubUrl}\n`)
   process.stdout.write(`工作目录: ${config.workDir}\n`)
+  for (const [name, ws] of Object.entries(config.workspaces ?? {})) {
+    process.stdout.write(`工作区 ${name}: ${ws.path}\n`)
+  }
 
   const executor = createExecutor(config)
+  const workspaces = createWorkspaceManager(config)
+  if (config.workspaceMode === "worktree") {
+    process.stdout.write("工作区模式: worktree（每个任务独立 git worktree）\n")
+  }
+  if (config.gitPatchMode) {
+    process.stdout.write("Git patch 模式: 已启用\n")
+    cleanupPatches().catch(() => {})
+  }
   let idleSince: string | undefined = new Date().toISOString()
+  // 已收到、尚未发出结果的任务（重连注册时上报，Hub 据此判断哪些任务已丢失）
+  const activeTaskIds = new Set<string>()
+  // 待附加到下一个任务的 Agent 消息
+  let unreadMessages: ReadonlyArray<ChatMessage> = []
+  const takeMessages = (): ReadonlyArray<ChatMessage> => {
+    const taken = unreadMessages
+    unreadMessages = []
+    return taken
+  }
+
+  // 状态报告：ping 时附带发送，排队状态变化时立即发送以便 Hub 及时暂停/恢复分发
+  const reportStatus = (): void => {
+    client.send({
+      type: "status_report",
+      runningTasks: executor.getRunningCount(),
+      currentTaskId: executor.getCurrentTaskId(),
+      idleSince,
+      queuedTasks: executor.getQueuedCount(),
+      queueFull: executor.isQueueFull(),
+    })
+  }
 
   const client = createWsClient(config, {
     onMessage(msg: HubToAgentMessage): void {
       if (msg.type === "task") {
         idleSince = undefined
-        handleTask(msg, config, client.send, client.sendCritical, executor)
+        activeTaskIds.add(msg.taskId)
+        handleTask(msg, config, client.send, client.sendCritical, executor, workspaces, takeMessages, reportStatus)
+          .finally(() => activeTaskIds.delete(msg.taskId))
           .then(() => {
-            if (executor.getRunningCount() === 0) {
+            if (executor.getRunningCount() === 0 && executor.getQueuedCount() === 0) {
               idleSince = new Date().toISOString()
             }
+            reportStatus()
           })
           .catch((err: unknown) => {
             const errMsg = err instanceof Error ? err.message : String(err)
             process.stderr.write(`Task execution failed: ${errMsg}\n`)
           })
       } else if (msg.type === "cancel_task") {
-        handleCancelTask(msg.taskId, client.sendCritical, executor)
+        handleCancelTask(msg.taskId, client.sendCritical, executor, reportStatus)
+      } else if (msg.type === "revert_task_changes") {
+        handleRevertChanges(msg.taskId, client.sendCritical).catch(() => {})
+      } else if (msg.type === "chat_message") {
+        client.send({ type: "message_ack", messageId: msg.messageId, status: "received" })
+        // 确认未到达时 Hub 会在重连后补发，已收到的消息不重复处理
+        if (unreadMessages.some((m) => m.messageId === msg.messageId)) return
+        logChatMessage(msg)
+        if (config.messageMode === "prompt") {
+          const queued = [...unreadMessages, msg]
+          unreadMessages = queued.slice(-MAX_UNREAD_MESSAGES)
+          // 超出上限被丢弃的消息告知 Hub，由 Hub 通知发送方
+          for (const dropped of queued.slice(0, -MAX_UNREAD_MESSAGES)) {
+            client.send({ type: "message_ack", messageId: dropped.messageId, status: "dropped" })
+          }
+        }
       }
     },
     onPing(): void {
-      // 每次收到 ping 时附带发送状态报告
-      client.send({
-        type: "status_report",
-        runningTasks: executor.getRunningCount(),
-        currentTaskId: executor.getCurrentTaskId(),
-        idleSince,
-      })
+      reportStatus()
     },
-  })
+    getActiveTaskIds: () => [...activeTaskIds],
+  }, createJournal(getJournalPath(config.agentName)))
 
   // 优雅退出：等待运行中的任务完成后再退出
   let shuttingDown = false
@@ -127,6 +400,7 @@ async function startDaemon(): Promise<void> {
     shuttingDown = true
     process.stdout.write("\n正在退出...\n")
     await executor.shutdown(10_000)
+    workspaces.stop()
     client.close()
     process.exit(0)
   }
@@ -158,6 +432,11 @@ function showStatus(): void {
   process.stdout.write(`Hub: ${config.hubUrl}\n`)
   process.stdout.write(`工作目录: ${config.workDir}\n`)
   process.stdout.write(`最大并发: ${config.maxConcurrentTasks ?? 1}\n`)
+  process.stdout.write(`队列上限: ${config.maxQueuedTasks ?? 10}\n`)
+  process.stdout.write(`工作区模式: ${config.workspaceMode ?? "shared"}\n`)
+  for (const [name, ws] of Object.entries(config.workspaces ?? {})) {
+    process.stdout.write(`工作区 ${name}: ${ws.path}\n`)
+  }
   process.stdout.write(`任务超时: ${(config.taskTimeout ?? 300_000) / 1000}s\n`)
 }
 
@@ -0,0 +1,106 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import type { AgentToHubMessage } from "@ccchat/shared"
+import { getConfigPath } from "./config.js"
+
+/** 需要持久化的消息：任务结果（含分片）和取消通知 */
+export type JournaledMessage = Extract<AgentToHubMessage, { readonly type: "task_result" | "task_result_chunk" | "task_cancelled" }>
+
+/** 日志行：写入一条消息，或 Hub 确认某任务后的删除标记 */
+type JournalLine =
+  | { readonly msg: JournaledMessage }
+  | { readonly ack: string }
+
+export interface Journal {
+  /** 发送前追加写入（同步落盘，进程随后崩溃也不会丢失） */
+  readonly append: (msg: JournaledMessage) => void
+  /** Hub 确认后移除该任务的全部消息 */
+  readonly ack: (taskId: string) => void
+  /** 未确认的消息（按写入顺序，重连后重放） */
+  readonly pending: () => ReadonlyArray<JournaledMessage>
+  readonly pendingTaskIds: () => ReadonlyArray<string>
+}
+
+export function isJournaled(msg: AgentToHubMessage): msg is JournaledMessage {
+  return msg.type === "task_result" || msg.type === "task_result_chunk" || msg.type === "task_cancelled"
+}
+
+/** 本地日志路径：~/.ccchat/outbox-<agent>.jsonl（同一台机器可运行多个 Agent） */
+export function getJournalPath(agentName: string): string {
+  return path.join(path.dirname(getConfigPath()), `outbox-${agentName}.jsonl`)
+}
+
+/** 读取日志，得到未确认的消息（崩溃时写了一半的行忽略） */
+function readPending(filePath: string): ReadonlyArray<JournaledMessage> {
+  let raw: string
+  try {
+    raw = fs.readFileSync(filePath, "utf-8")
+  } catch {
+    return []
+  }
+  let pending: ReadonlyArray<JournaledMessage> = []
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue
+    let entry: JournalLine
+    try {
+      entry = JSON.parse(line) as JournalLine
+    } catch {
+      continue
+    }
+    if ("ack" in entry) {
+      const ackedTaskId = entry.ack
+      pending = pending.filter((m) => m.taskId !== ackedTaskId)
+    } else if (entry.msg && isJournaled(entry.msg)) {
+      pending = [...pending, entry.msg]
+    }
+  }
+  return pending
+}
+
+/** 创建追加写入的发送日志：启动时加载未确认的消息并压缩文件 */
+export function createJournal(filePath: string): Journal {
+  let pending = readPending(filePath)
+
+  function write(lines: ReadonlyArray<JournalLine>, mode: "append" | "rewrite"): void {
+    const data = lines.map((l) => `${JSON.stringify(l)}\n`).join("")
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 })
+      if (mode === "append") {
+        fs.appendFileSync(filePath, data, { encoding: "utf-8", mode: 0o600 })
+      } else {
+        fs.writeFileSync(filePath, data, { encoding: "utf-8", mode: 0o600 })
+      }
+    } catch (err) {
+      // 写入失败时仍保留内存副本，本次运行内可重发
+      process.stderr.write(`Journal write failed: ${err instanceof Error ? err.message : err}\n`)
+    }
+  }
+
+  // 只保留未确认的消息，避免文件无限增长
+  write(pending.map((msg) => ({ msg })), "rewrite")
+  if (pending.length > 0) {
+    process.stdout.write(`发送日志中有 ${pending.length} 条未确认消息，连接后重发\n`)
+  }
+
+  return {
+    append(msg: JournaledMessage): void {
+      pending = [...pending, msg]
+      write([{ msg }], "append")
+    },
+
+    ack(taskId: string): void {
+      if (!pending.some((m) => m.taskId === taskId)) return
+      pending = pending.filter((m) => m.taskId !== taskId)
+      // 全部确认后清空文件，否则追加删除标记
+      if (pending.length === 0) {
+        write([], "rewrite")
+      } else {
+        write([{ ack: taskId }], "append")
+      }
+    },
+
+    pending: () => pending,
+
+    pendingTaskIds: () => [...new Set(pending.map((m) => m.taskId))],
+  }
+}
@@ -0,0 +1,102 @@
+import { mkdir, readdir, readFile, rm, stat } from "node:fs/promises"
+import { join, relative, extname } from "node:path"
+import type { TaskAttachment } from "@ccchat/shared"
+
+// 单个输出文件上限（与入站附件一致）
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+// 所有输出文件合计上限（发送时还会按整条消息的大小再次核算）
+const MAX_TOTAL_SIZE = 5 * 1024 * 1024
+const MAX_FILES = 10
+
+// 常见扩展名 → MIME 类型（其余按二进制处理）
+const MIME_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".patch": "text/x-diff",
+  ".diff": "text/x-diff",
+  ".html": "text/html",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+}
+
+export interface CollectedOutputs {
+  readonly files: ReadonlyArray<TaskAttachment>
+  /** 因数量/大小限制或读取失败未能返回的文件 */
+  readonly skipped: ReadonlyArray<string>
+}
+
+/** 获取任务输出目录路径 */
+export function getOutputDir(workDir: string, taskId: string): string {
+  return join(workDir, ".ccchat-outputs", taskId)
+}
+
+/** 创建任务输出目录 */
+export async function prepareOutputDir(workDir: string, taskId: string): Promise<string> {
+  const dir = getOutputDir(workDir, taskId)
+  await mkdir(dir, { recursive: true })
+  return dir
+}
+
+/** 递归列出目录下所有文件 */
+async function listFiles(dir: string): Promise<ReadonlyArray<string>> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const nested = await Promise.all(entries.map(async (entry) => {
+    const full = join(dir, entry.name)
+    if (entry.isDirectory()) return listFiles(full)
+    return entry.isFile() ? [full] : []
+  }))
+  return nested.flat()
+}
+
+/** 收集输出目录中的文件，转为 TaskAttachment */
+export async function collectOutputFiles(dir: string): Promise<CollectedOutputs> {
+  let paths: ReadonlyArray<string>
+  try {
+    paths = await listFiles(dir)
+  } catch {
+    return { files: [], skipped: [] }
+  }
+
+  const files: TaskAttachment[] = []
+  const skipped: string[] = []
+  let totalSize = 0
+
+  for (const filePath of [...paths].sort()) {
+    const filename = relative(dir, filePath)
+    // 列出后被删除或无权限读取的文件跳过，不影响其余文件和结果回报
+    let data: Buffer
+    let size: number
+    try {
+      size = (await stat(filePath)).size
+      if (files.length >= MAX_FILES || size > MAX_FILE_SIZE || totalSize + size > MAX_TOTAL_SIZE) {
+        skipped.push(filename)
+        continue
+      }
+      data = await readFile(filePath)
+    } catch {
+      skipped.push(filename)
+      continue
+    }
+    files.push({
+      filename,
+      mimeType: MIME_TYPES[extname(filePath).toLowerCase()] ?? "application/octet-stream",
+      data: data.toString("base64"),
+      size,
+    })
+    totalSize += size
+  }
+
+  return { files, skipped }
+}
+
+/** 删除任务输出目录（文件已随结果返回） */
+export async function removeOutputDir(dir: string): Promise<void> {
+  await rm(dir, { recursive: true, force: true })
+}
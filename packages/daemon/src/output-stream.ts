@@ -0,0 +1,50 @@
+import type { AgentToHubMessage } from "@ccchat/shared"
+
+// 合并发送间隔，避免逐段发送触发 Hub 消息速率限制
+const FLUSH_INTERVAL_MS = 1_000
+// 单个分片最大字符数
+const MAX_CHUNK_CHARS = 16_000
+
+export interface OutputStream {
+  readonly write: (text: string) => void
+  /** 发送剩余缓冲并停止定时器 */
+  readonly close: () => void
+}
+
+/** 创建任务输出流：缓冲 assistant 文本，定时以 task_output_chunk 发送给 Hub */
+export function createOutputStream(
+  taskId: string,
+  send: (msg: AgentToHubMessage) => void,
+): OutputStream {
+  let buffer = ""
+  let seq = 0
+  let hasOutput = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  function flush(): void {
+    timer = undefined
+    while (buffer.length > 0) {
+      const text = buffer.slice(0, MAX_CHUNK_CHARS)
+      buffer = buffer.slice(MAX_CHUNK_CHARS)
+      send({ type: "task_output_chunk", taskId, seq, text })
+      seq++
+    }
+  }
+
+  return {
+    write(text: string): void {
+      if (!text) return
+      // 多段文本之间用空行分隔
+      buffer += hasOutput ? `\n\n${text}` : text
+      hasOutput = true
+      if (!timer) {
+        timer = setTimeout(flush, FLUSH_INTERVAL_MS)
+      }
+    },
+
+    close(): void {
+      if (timer) clearTimeout(timer)
+      flush()
+    },
+  }
+}
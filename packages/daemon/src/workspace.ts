@@ -0,0 +1,164 @@
+import { execFile } from "node:child_process"
+import { promisify } from "node:util"
+import { mkdir, readdir, rm, stat, utimes } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import type { DaemonConfig } from "@ccchat/shared"
+import { getConfigPath } from "./config.js"
+
+const execFileAsync = promisify(execFile)
+
+// 闲置超过该时间的 worktree 会被清理（分支保留，改动不会丢失）
+const WORKTREE_TTL_MS = 24 * 60 * 60 * 1000
+// 清理扫描间隔
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+export interface TaskWorkspace {
+  /** Claude 执行时的 cwd */
+  readonly dir: string
+  /** worktree 模式下任务所在分支 */
+  readonly branch?: string
+}
+
+export interface WorkspaceManager {
+  /** 为任务准备工作目录（worktree 模式下同一对话复用同一个 worktree） */
+  readonly acquire: (taskId: string, baseDir: string, conversationId?: string) => Promise<TaskWorkspace>
+  /** 把任务在 worktree 中的改动提交到任务分支，返回新提交（shared 模式或无改动时为 undefined） */
+  readonly commit: (taskId: string) => Promise<string | undefined>
+  /** 任务结束，释放 worktree 占用 */
+  readonly release: (taskId: string) => void
+  readonly stop: () => void
+}
+
+/** 执行 git 命令，返回去掉首尾空白的 stdout */
+async function git(cwd: string, args: ReadonlyArray<string>): Promise<string> {
+  const { stdout } = await execFileAsync("git", [...args], { cwd })
+  return stdout.trim()
+}
+
+/** worktree 根目录：~/.ccchat/worktrees/<agentName> */
+function getWorktreeRoot(agentName: string): string {
+  return join(dirname(getConfigPath()), "worktrees", agentName)
+}
+
+/** 找到 worktree 所属的主仓库目录（用于 git worktree remove/prune） */
+async function getMainRepoDir(worktreeDir: string): Promise<string> {
+  const commonDir = await git(worktreeDir, ["rev-parse", "--path-format=absolute", "--git-common-dir"])
+  return dirname(commonDir)
+}
+
+/** 创建工作目录管理器（shared 模式直接使用任务目录，worktree 模式每个任务独立 git worktree） */
+export function createWorkspaceManager(config: DaemonConfig): WorkspaceManager {
+  const worktreeMode = config.workspaceMode === "worktree"
+  const root = getWorktreeRoot(config.agentName)
+  // 正在使用中的 worktree（key: worktree 名）→ 占用的任务数
+  const inUse = new Map<string, number>()
+  // taskId → worktree 名
+  const taskWorktrees = new Map<string, string>()
+
+  async function createWorktree(name: string, taskId: string, baseDir: string): Promise<TaskWorkspace> {
+    const worktreeDir = join(root, name)
+    // baseDir 可能是仓库的子目录，worktree 中保持相同的相对位置
+    const prefix = await git(baseDir, ["rev-parse", "--show-prefix"])
+    const existing = await stat(worktreeDir).then(() => true, () => false)
+    if (existing) {
+      // 对话后续轮次：复用已有 worktree
+      await utimes(worktreeDir, new Date(), new Date())
+      const branch = await git(worktreeDir, ["rev-parse", "--abbrev-ref", "HEAD"])
+      return { dir: join(worktreeDir, prefix), branch }
+    }
+    const branch = `ccchat/${taskId}`
+    await mkdir(root, { recursive: true })
+    await git(baseDir, ["worktree", "add", "-b", branch, worktreeDir, "HEAD"])
+    process.stdout.write(`已创建 worktree: ${worktreeDir} (${branch})\n`)
+    return { dir: join(worktreeDir, prefix), branch }
+  }
+
+  async function acquire(taskId: string, baseDir: string, conversationId?: string): Promise<TaskWorkspace> {
+    if (!worktreeMode) return { dir: baseDir }
+    const name = conversationId ?? taskId
+    inUse.set(name, (inUse.get(name) ?? 0) + 1)
+    taskWorktrees.set(taskId, name)
+    try {
+      return await createWorktree(name, taskId, baseDir)
+    } catch (err) {
+      release(taskId)
+      throw err
+    }
+  }
+
+  async function commit(taskId: string): Promise<string | undefined> {
+    const name = taskWorktrees.get(taskId)
+    if (!name) return undefined
+    const worktreeDir = join(root, name)
+    if (!(await git(worktreeDir, ["status", "--porcelain"]))) return undefined
+    await git(worktreeDir, ["add", "-A"])
+    // 以 Agent 身份提交，清理 worktree 后改动仍保留在分支上
+    await git(worktreeDir, [
+      "-c", `user.name=${config.agentName}`,
+      "-c", "user.email=ccchat@localhost",
+      "commit", "--no-verify", "-m", `ccchat: task ${taskId}`,
+    ])
+    return git(worktreeDir, ["rev-parse", "HEAD"])
+  }
+
+  function release(taskId: string): void {
+    const name = taskWorktrees.get(taskId)
+    if (!name) return
+    taskWorktrees.delete(taskId)
+    const count = (inUse.get(name) ?? 1) - 1
+    if (count > 0) {
+      inUse.set(name, count)
+      return
+    }
+    inUse.delete(name)
+    // 记录最后使用时间，供过期清理判断
+    utimes(join(root, name), new Date(), new Date()).catch(() => {})
+  }
+
+  // 清理闲置过期的 worktree
+  async function cleanupStale(): Promise<void> {
+    let names: ReadonlyArray<string>
+    try {
+      names = await readdir(root)
+    } catch {
+      return
+    }
+    const now = Date.now()
+    for (const name of names) {
+      if (inUse.has(name)) continue
+      const worktreeDir = join(root, name)
+      const { mtimeMs } = await stat(worktreeDir)
+      if (now - mtimeMs < WORKTREE_TTL_MS) continue
+      try {
+        const repoDir = await getMainRepoDir(worktreeDir)
+        await git(repoDir, ["worktree", "remove", "--force", worktreeDir])
+        await git(repoDir, ["worktree", "prune"]).catch(() => {})
+      } catch {
+        // 已不是有效 worktree（如仓库被移动），直接删除目录
+        await rm(worktreeDir, { recursive: true, force: true })
+      }
+      process.stdout.write(`已清理过期 worktree: ${worktreeDir}\n`)
+    }
+  }
+
+  const cleanupTimer = worktreeMode
+    ? setInterval(() => {
+        cleanupStale().catch((err: unknown) => {
+          process.stderr.write(`Worktree cleanup failed: ${err instanceof Error ? err.message : err}\n`)
+        })
+      }, CLEANUP_INTERVAL_MS)
+    : undefined
+  cleanupTimer?.unref()
+  if (worktreeMode) {
+    cleanupStale().catch(() => {})
+  }
+
+  return {
+    acquire,
+    commit,
+    release,
+    stop: () => {
+      if (cleanupTimer) clearInterval(cleanupTimer)
+    },
+  }
+}
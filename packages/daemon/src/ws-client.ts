@@ -1,15 +1,42 @@
+import { readFileSync } from "node:fs"
 import WebSocket from "ws"
 import type {
+  AgentCapability,
   AgentToHubMessage,
   HubToAgentMessage,
   DaemonConfig,
 } from "@ccchat/shared"
-import { serialize, parseHubMessage } from "@ccchat/shared"
+import { serialize, parseHubMessage, PROTOCOL_VERSION } from "@ccchat/shared"
+import { listWorkspaceNames } from "./config.js"
+import { isJournaled, type Journal } from "./journal.js"
 
 // 重连参数
 const BASE_RETRY_MS = 1_000
 const MAX_RETRY_MS = 30_000
 
+// 重连后分批重放：每批不超过 Hub 消息速率上限（100 条/10 秒）的一半，给心跳和进度消息留出余量
+const REPLAY_BATCH_SIZE = 50
+const REPLAY_INTERVAL_MS = 10_000
+
+/** daemon 版本号（读取 package.json，src/ 和 dist/ 下相对路径相同） */
+function readDaemonVersion(): string | undefined {
+  try {
+    const pkg = JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf-8")) as { version?: string }
+    return pkg.version
+  } catch {
+    return undefined
+  }
+}
+
+/** 注册时声明的功能（worktree 和 git patch 取决于配置） */
+function listCapabilities(config: DaemonConfig): ReadonlyArray<AgentCapability> {
+  return [
+    "attachments", "streaming", "workspaces", "messaging", "journal", "task_ack", "safe_mode", "message_ack",
+    ...(config.workspaceMode === "worktree" ? ["worktrees" as const] : []),
+    ...(config.gitPatchMode ? ["git_patch" as const] : []),
+  ]
+}
+
 export type MessageHandler = (msg: HubToAgentMessage) => void
 export type ConnectionHandler = () => void
 
@@ -18,6 +45,8 @@ interface WsClientCallbacks {
   readonly onConnected?: ConnectionHandler
   readonly onDisconnected?: ConnectionHandler
   readonly onPing?: () => void
+  /** 正在处理的任务 ID（注册时上报给 Hub） */
+  readonly getActiveTaskIds?: () => ReadonlyArray<string>
 }
 
 interface WsClientState {
@@ -50,9 +79,16 @@ export interface WsClient {
 export function createWsClient(
   config: DaemonConfig,
   callbacks: WsClientCallbacks,
+  journal?: Journal,
 ): WsClient {
   let state = createInitialState()
   let pendingResults: AgentToHubMessage[] = []
+  // 重连后尚未重放完的消息（分批发送，断线时留待下次注册成功后继续）
+  let replayQueue: AgentToHubMessage[] = []
+  let replayTimer: ReturnType<typeof setTimeout> | undefined
+  // Hub 在 register_ack 中确认的功能（旧版 Hub 不发送，不会回复 ack）
+  let hubCapabilities: ReadonlyArray<string> = []
+  const daemonVersion = readDaemonVersion()
 
   /** 建立连接 */
   function connect(): void {
@@ -64,11 +100,26 @@ export function createWsClient(
       state = { ...state, ws, retryCount: 0, registered: false }
       process.stdout.write(`已连接到 Hub: ${config.hubUrl}\n`)
 
-      // 发送注册消息
+      // 发送注册消息（附带命名工作区列表、并发上限和仍在处理的任务）
+      const workspaces = listWorkspaceNames(config)
+      // 结果已缓冲待重发的任务同样上报，避免 Hub 在收到结果前判定为丢失
+      const bufferedTaskIds = [
+        ...[...replayQueue, ...pendingResults].flatMap((m) => (m.type === "task_result" ? [m.taskId] : [])),
+        ...(journal?.pendingTaskIds() ?? []),
+      ]
+      const runningTaskIds = [...new Set([...(callbacks.getActiveTaskIds?.() ?? []), ...bufferedTaskIds])]
       const registerMsg: AgentToHubMessage = {
         type: "register",
         agentName: config.agentName,
         token: config.token,
+        ...(workspaces.length > 0 ? { workspaces } : {}),
+        ...(config.maxConcurrentTasks ? { maxConcurrentTasks: config.maxConcurrentTasks } : {}),
+        // 仅在显式配置时上报：Hub 会把超出并发的任务提前交给 daemon 排队
+        ...(config.maxQueuedTasks !== undefined ? { maxQueuedTasks: config.maxQueuedTasks } : {}),
+        runningTaskIds,
+        protocolVersion: PROTOCOL_VERSION,
+        ...(daemonVersion ? { daemonVersion } : {}),
+        capabilities: listCapabilities(config),
       }
       ws.send(serialize(registerMsg))
       callbacks.onConnected?.()
@@ -117,7 +168,11 @@ export function createWsClient(
     if (msg.type === "register_ack") {
       if (msg.success) {
         state = { ...state, registered: true }
+        hubCapabilities = msg.capabilities ?? []
         process.stdout.write(`注册成功, Agent: ${config.agentName}\n`)
+        if ((msg.protocolVersion ?? 1) < PROTOCOL_VERSION) {
+          process.stdout.write(`Hub 协议版本较旧 (v${msg.protocolVersion ?? 1})，部分功能不可用\n`)
+        }
         flushPendingResults()
       } else {
         process.stderr.write(`注册失败: ${msg.error ?? "未知错误"}\n`)
@@ -125,10 +180,32 @@ export function createWsClient(
       return
     }
 
+    // Hub 已处理该任务的结果/取消通知
+    if (msg.type === "ack") {
+      journal?.ack(msg.taskId)
+      return
+    }
+
+    // 确认收到任务；Hub 断线或超时后会重新投递，已在处理或结果待确认的任务不重复执行
+    if (msg.type === "task") {
+      if (msg.seq !== undefined) sendRaw({ type: "task_ack", taskId: msg.taskId, seq: msg.seq })
+      if (isKnownTask(msg.taskId)) {
+        process.stdout.write(`任务 [${msg.taskId}] 重复投递，已忽略\n`)
+        return
+      }
+    }
+
     // 其余消息交给外部处理
     callbacks.onMessage(msg)
   }
 
+  /** 任务已在处理中，或结果已发出但 Hub 尚未确认 */
+  function isKnownTask(taskId: string): boolean {
+    return (callbacks.getActiveTaskIds?.() ?? []).includes(taskId)
+      || (journal?.pendingTaskIds() ?? []).includes(taskId)
+      || [...replayQueue, ...pendingResults].some((m) => m.type === "task_result" && m.taskId === taskId)
+  }
+
   /** 安排重连 */
   function scheduleReconnect(): void {
     if (state.stopped) return
@@ -145,8 +222,18 @@ export function createWsClient(
     }
   }
 
-  /** 发送关键消息（断线时缓冲，重连后重发） */
+  /** 发送关键消息（断线时缓冲，重连后重发；结果和取消通知先写入本地日志，Hub 确认前重启也会重发） */
   function sendCritical(msg: AgentToHubMessage): void {
+    if (journal && isJournaled(msg)) {
+      journal.append(msg)
+      // 未连接时由注册成功后的 flushPendingResults 从日志重放
+      if (state.ws?.readyState === WebSocket.OPEN && state.registered) {
+        state.ws.send(serialize(msg))
+        // 旧版 Hub 不回复 ack，发送即视为送达
+        if (!hubCapabilities.includes("journal")) journal.ack(msg.taskId)
+      }
+      return
+    }
     if (state.ws?.readyState === WebSocket.OPEN && state.registered) {
       state.ws.send(serialize(msg))
     } else {
@@ -155,15 +242,37 @@ export function createWsClient(
     }
   }
 
-  /** 重连注册成功后，重发缓冲的关键消息 */
+  /** 消息不经过本地日志（断线后只能靠内存缓冲重发） */
+  function isUnjournaled(msg: AgentToHubMessage): boolean {
+    return !(journal && isJournaled(msg))
+  }
+
+  /** 重连注册成功后，重发日志中未确认的消息和缓冲的关键消息（Hub 按 taskId 去重） */
   function flushPendingResults(): void {
-    if (pendingResults.length === 0) return
-    const toSend = pendingResults
+    if (replayTimer) clearTimeout(replayTimer)
+    replayTimer = undefined
+    // 上次未重放完的日志消息仍在日志中，从日志重新读取，其余的沿用内存中的剩余部分
+    replayQueue = [...(journal?.pending() ?? []), ...replayQueue.filter(isUnjournaled), ...pendingResults]
     pendingResults = []
-    process.stdout.write(`重发 ${toSend.length} 条缓冲消息...\n`)
-    for (const msg of toSend) {
+    if (replayQueue.length === 0) return
+    process.stdout.write(`重发 ${replayQueue.length} 条缓冲消息...\n`)
+    replayNextBatch()
+  }
+
+  /** 发送下一批重放消息，超出的部分等下一个速率窗口再发（一次性发出会被 Hub 限流静默丢弃） */
+  function replayNextBatch(): void {
+    replayTimer = undefined
+    if (state.ws?.readyState !== WebSocket.OPEN || !state.registered) return
+    const batch = replayQueue.slice(0, REPLAY_BATCH_SIZE)
+    replayQueue = replayQueue.slice(REPLAY_BATCH_SIZE)
+    for (const msg of batch) {
       sendRaw(msg)
+      if (journal && isJournaled(msg) && !hubCapabilities.includes("journal")) journal.ack(msg.taskId)
     }
+    if (replayQueue.length === 0) return
+    process.stdout.write(`剩余 ${replayQueue.length} 条消息 ${REPLAY_INTERVAL_MS / 1000} 秒后继续重发\n`)
+    replayTimer = setTimeout(replayNextBatch, REPLAY_INTERVAL_MS)
+    replayTimer.unref()
   }
 
   return {
@@ -172,6 +281,7 @@ export function createWsClient(
     sendCritical,
     close(): void {
       state = { ...state, stopped: true }
+      if (replayTimer) clearTimeout(replayTimer)
       state.ws?.close()
     },
     isConnected(): boolean {
@@ -0,0 +1,156 @@
+import type { AclKind, AclRepo, AgentAclRow } from "./db/index.js"
+
+export const ACL_KINDS: ReadonlyArray<AclKind> = ["allow", "deny", "readonly"]
+
+// 同一用户匹配多条规则时的优先级（数字越大越优先）
+const KIND_PRECEDENCE: Readonly<Record<AclKind, number>> = { allow: 1, readonly: 2, deny: 3 }
+
+export function isAclKind(value: unknown): value is AclKind {
+  return typeof value === "string" && (ACL_KINDS as ReadonlyArray<string>).includes(value)
+}
+
+/** 任务请求方：Telegram 用户或 MCP / API 调用方 Agent */
+export interface AclRequester {
+  readonly telegramId?: number
+  readonly username?: string
+  readonly agentName?: string
+}
+
+/**
+ * ACL 判定结果
+ * - approve: 免审批直接分发
+ * - reject: 直接拒绝，reason 为拒绝原因
+ * - review: 走正常审批流程
+ */
+export interface AclDecision {
+  readonly decision: "approve" | "reject" | "review"
+  readonly reason?: string
+  /** 命中的规则 */
+  readonly rule?: AgentAclRow
+}
+
+interface AclStoreState {
+  /** agentName -> subject -> 规则 */
+  readonly acls: ReadonlyMap<string, ReadonlyMap<string, AgentAclRow>>
+}
+
+export interface AclStore {
+  /** 设置规则（同一主体覆盖旧规则），主体格式无效时返回错误信息 */
+  readonly set: (agentName: string, subject: string, kind: AclKind, createdBy: number) => AgentAclRow | string
+  readonly remove: (agentName: string, subject: string) => boolean
+  readonly list: (agentName: string) => ReadonlyArray<AgentAclRow>
+  readonly evaluate: (agentName: string, requester: AclRequester, safe: boolean) => AclDecision
+  readonly loadFromRepo: () => Promise<void>
+}
+
+export interface AclStoreOptions {
+  readonly aclRepo?: AclRepo
+}
+
+/**
+ * 规范化规则主体：Telegram 数字 ID、@username（不区分大小写）、agent:<name>
+ * 无效时返回 undefined
+ */
+export function normalizeAclSubject(raw: string): string | undefined {
+  const subject = raw.trim()
+  if (/^\d+$/.test(subject)) return subject
+  const username = subject.match(/^@(\w{1,64})$/)
+  if (username) return `@${username[1].toLowerCase()}`
+  const agent = subject.match(/^agent:([\w-]+)$/i)
+  if (agent) return `agent:${agent[1]}`
+  return undefined
+}
+
+/** 请求方对应的全部规则主体 */
+export function requesterSubjects(requester: AclRequester): ReadonlyArray<string> {
+  return [
+    ...(requester.telegramId !== undefined ? [String(requester.telegramId)] : []),
+    ...(requester.username ? [`@${requester.username.toLowerCase()}`] : []),
+    ...(requester.agentName ? [`agent:${requester.agentName}`] : []),
+  ]
+}
+
+/** 创建 Agent 访问控制存储：按请求方决定任务免审批、拒绝或走审批 */
+export function createAclStore(options: AclStoreOptions = {}): AclStore {
+  const { aclRepo: repo } = options
+  let state: AclStoreState = { acls: new Map() }
+
+  function put(row: AgentAclRow): void {
+    const agentAcls = new Map(state.acls.get(row.agentName) ?? [])
+    agentAcls.set(row.subject, row)
+    const next = new Map(state.acls)
+    next.set(row.agentName, agentAcls)
+    state = { acls: next }
+  }
+
+  function set(agentName: string, subject: string, kind: AclKind, createdBy: number): AgentAclRow | string {
+    const normalized = normalizeAclSubject(subject)
+    if (!normalized) return `无效的主体: ${subject}（应为 Telegram ID、@username 或 agent:<name>）`
+    const row: AgentAclRow = {
+      agentName,
+      subject: normalized,
+      kind,
+      createdBy,
+      createdAt: new Date().toISOString(),
+    }
+    put(row)
+    repo?.save(row).catch((err) => {
+      process.stderr.write(`DB acl save failed: ${err}\n`)
+    })
+    return row
+  }
+
+  function remove(agentName: string, subject: string): boolean {
+    const normalized = normalizeAclSubject(subject)
+    const agentAcls = state.acls.get(agentName)
+    if (!normalized || !agentAcls?.has(normalized)) return false
+    const nextAgentAcls = new Map(agentAcls)
+    nextAgentAcls.delete(normalized)
+    const next = new Map(state.acls)
+    if (nextAgentAcls.size > 0) next.set(agentName, nextAgentAcls)
+    else next.delete(agentName)
+    state = { acls: next }
+    repo?.delete(agentName, normalized).catch((err) => {
+      process.stderr.write(`DB acl delete failed: ${err}\n`)
+    })
+    return true
+  }
+
+  function evaluate(agentName: string, requester: AclRequester, safe: boolean): AclDecision {
+    const agentAcls = state.acls.get(agentName)
+    if (!agentAcls) return { decision: "review" }
+    const rule = requesterSubjects(requester)
+      .map((s) => agentAcls.get(s))
+      .filter((r): r is AgentAclRow => r !== undefined)
+      .sort((a, b) => KIND_PRECEDENCE[b.kind] - KIND_PRECEDENCE[a.kind])[0]
+    if (!rule) return { decision: "review" }
+    switch (rule.kind) {
+      case "deny":
+        return { decision: "reject", reason: `无权向 ${agentName} 提交任务`, rule }
+      case "readonly":
+        // 只读用户只能提交标记为 !safe 的任务，且仍需审批
+        return safe
+          ? { decision: "review", rule }
+          : { decision: "reject", reason: `对 ${agentName} 只有只读权限，请使用 !safe 提交只读任务`, rule }
+      case "allow":
+        return { decision: "approve", rule }
+    }
+  }
+
+  async function loadFromRepo(): Promise<void> {
+    if (!repo) return
+    const rows = await repo.loadAll()
+    for (const row of rows) put(row)
+    if (rows.length > 0) {
+      process.stdout.write(`Loaded ${rows.length} agent ACL rules from DB\n`)
+    }
+  }
+
+  return {
+    set,
+    remove,
+    list: (agentName: string) => [...(state.acls.get(agentName)?.values() ?? [])],
+    evaluate,
+    loadFromRepo,
+  }
+}
@@ -4,6 +4,10 @@ interface AgentStatus {
   readonly totalCompleted: number
   readonly currentTaskId?: string
   readonly idleSince?: string
+  /** daemon 本地队列中等待的任务数 */
+  readonly queuedTasks: number
+  /** daemon 本地队列已满，暂停分发 */
+  readonly queueFull: boolean
 }
 
 interface StoreState {
@@ -15,6 +19,8 @@ export interface AgentStatusStore {
     readonly runningTasks: number
     readonly currentTaskId?: string
     readonly idleSince?: string
+    readonly queuedTasks?: number
+    readonly queueFull?: boolean
   }) => void
   readonly incrementCompleted: (agentName: string) => void
   readonly get: (agentName: string) => AgentStatus | undefined
@@ -32,6 +38,8 @@ export function createAgentStatusStore(): AgentStatusStore {
         totalCompleted: existing?.totalCompleted ?? 0,
         currentTaskId: report.currentTaskId,
         idleSince: report.idleSince,
+        queuedTasks: report.queuedTasks ?? 0,
+        queueFull: report.queueFull ?? false,
       }
       const newStatuses = new Map(state.statuses)
       newStatuses.set(agentName, updated)
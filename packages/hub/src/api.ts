@@ -1,11 +1,27 @@
 import type { IncomingMessage, ServerResponse } from "node:http"
+import { basename } from "node:path"
 import type { Registry } from "./registry.js"
-import type { TaskQueue } from "./task-queue.js"
+import { isTaskPriority, MAX_TASK_RETRIES, TASK_PRIORITIES, type TaskQueue } from "./task-queue.js"
+import type { OutputBuffer } from "./output-buffer.js"
 import { createRateLimiter } from "./rate-limiter.js"
+import type { Scheduler } from "./scheduler.js"
+import { DEFAULT_TIMEZONE, isValidTimeZone, parseCron, type ScheduleSpec } from "./cron.js"
+import { createPipeline, validatePipelineSteps, type PipelineStep } from "./pipeline.js"
+import type { GroupStore } from "./group-store.js"
+import type { AclStore } from "./acl-store.js"
+import { policyRejectionReason, shortRuleId, toTaskPolicyRule, type RuleStore } from "./rule-store.js"
+import { protocolJsonSchema, type TaskInfo } from "@ccchat/shared"
 
 interface ApiDeps {
   readonly registry: Registry
   readonly taskQueue: TaskQueue
+  readonly outputBuffer?: OutputBuffer
+  readonly scheduler?: Scheduler
+  readonly groupStore?: GroupStore
+  readonly aclStore?: AclStore
+  readonly ruleStore?: RuleStore
+  /** ACL 免审批的任务批准后立即尝试分发 */
+  readonly dispatchPending?: (agentName: string) => void
 }
 
 interface JsonBody {
@@ -39,6 +55,161 @@ function sendJson(res: ServerResponse, status: number, data: unknown): void {
   res.end(JSON.stringify(data))
 }
 
+/** 发送一条 SSE 事件 */
+function writeSse(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+// SSE 心跳间隔（同时兜底检查任务是否已结束）
+const SSE_KEEPALIVE_MS = 15_000
+
+const TERMINAL_STATUSES: ReadonlySet<string> = new Set(["completed", "failed", "cancelled", "rejected", "expired"])
+
+/** API 任务的 from 标签（同时用作 API 定时任务的 createdBy） */
+export function apiTaskFrom(agentName: string): string {
+  return `[${agentName} mcp]`
+}
+
+/** 从 API 任务的 from 标签解析调用方 Agent */
+export function apiCallerOf(from: string): string | undefined {
+  return from.match(/^\[(.+) mcp\]$/)?.[1]
+}
+
+/** requestApproval 所需的依赖（bot 为 API 流水线的后续步骤和 API 定时任务发起审批时也会用到） */
+export type ApprovalDeps = Pick<ApiDeps, "registry" | "taskQueue" | "aclStore" | "ruleStore" | "dispatchPending">
+
+/** 查找调用方可读取的任务（只有提交任务的调用方和执行任务的 Agent 可以），不存在或无权访问时直接回复 404 / 403 */
+function findReadableTask(res: ServerResponse, taskId: string, fromAgent: string, deps: ApiDeps): TaskInfo | undefined {
+  const task = deps.taskQueue.getTask(taskId)
+  if (!task) {
+    sendJson(res, 404, { error: "任务不存在" })
+    return undefined
+  }
+  if (apiCallerOf(task.from) !== fromAgent && task.to !== fromAgent) {
+    sendJson(res, 403, { error: "无权访问该任务" })
+    return undefined
+  }
+  return task
+}
+
+/** 按 ACL 检查调用方能否向这些 Agent 提交任务，返回第一个拒绝原因 */
+function aclRejection(agentNames: ReadonlyArray<string>, fromAgent: string, safe: boolean, deps: ApiDeps): string | undefined {
+  for (const agentName of agentNames) {
+    const acl = deps.aclStore?.evaluate(agentName, { agentName: fromAgent }, safe)
+    if (acl?.decision === "reject") return acl.reason
+  }
+  return undefined
+}
+
+/**
+ * API 任务进入审批：ACL 或规则拒绝时直接拒绝（返回 rejected），ACL 允许或命中批准规则时直接批准并分发（返回 approved），
+ * 否则通知 bot 向目标 Agent 的主人发送审批请求（主人未绑定 Telegram 时返回 unbound）
+ */
+export function requestApproval(
+  task: TaskInfo,
+  fromAgent: string,
+  deps: ApprovalDeps,
+): "approved" | "rejected" | "awaiting" | "unbound" {
+  const acl = deps.aclStore?.evaluate(task.to, { agentName: fromAgent }, task.safe === true)
+  // 创建后才进入审批的任务（流水线后续步骤、定时任务）创建时未经 ACL 检查
+  if (acl?.decision === "reject") {
+    deps.taskQueue.updateStatus(task.taskId, "rejected", acl.reason)
+    return "rejected"
+  }
+  const rule = deps.ruleStore?.evaluate(task.to, {
+    requester: { agentName: fromAgent },
+    content: task.content,
+    hasAttachments: (deps.taskQueue.getAttachments(task.taskId)?.length ?? 0) > 0,
+  })
+  if (rule) {
+    deps.taskQueue.setPolicyRule(task.taskId, toTaskPolicyRule(rule))
+    process.stdout.write(`Policy rule ${shortRuleId(rule.ruleId)} ${rule.action === "reject" ? "rejected" : "approved"} task ${task.taskId}\n`)
+  }
+  if (rule?.action === "reject") {
+    deps.taskQueue.updateStatus(task.taskId, "rejected", policyRejectionReason(rule))
+    return "rejected"
+  }
+  if (acl?.decision === "approve" || rule?.action === "approve") {
+    deps.taskQueue.updateStatus(task.taskId, "approved")
+    deps.dispatchPending?.(task.to)
+    return "approved"
+  }
+  deps.taskQueue.updateStatus(task.taskId, "awaiting_approval")
+  const ownerTelegramId = deps.registry.getTelegramUserId(task.to)
+  if (!ownerTelegramId) return "unbound"
+  apiTaskCallback?.({
+    taskId: task.taskId,
+    from: fromAgent,
+    to: task.to,
+    content: task.content,
+    ownerTelegramId,
+  })
+  return "awaiting"
+}
+
+/** SSE 推送任务输出：先补发已缓冲内容，再实时推送新分片，任务结束时发送 done */
+function streamTaskOutput(
+  req: IncomingMessage,
+  res: ServerResponse,
+  taskId: string,
+  deps: ApiDeps,
+): void {
+  const { taskQueue, outputBuffer } = deps
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  })
+
+  let closed = false
+  let unsubscribe: (() => void) | undefined
+  let keepalive: ReturnType<typeof setInterval> | undefined
+
+  function end(): void {
+    if (closed) return
+    closed = true
+    unsubscribe?.()
+    if (keepalive) clearInterval(keepalive)
+    const task = taskQueue.getTask(taskId)
+    writeSse(res, "done", { status: task?.status, result: task?.result })
+    res.end()
+  }
+
+  const buffered = outputBuffer?.getText(taskId) ?? ""
+  if (buffered) {
+    writeSse(res, "chunk", { text: buffered, truncated: outputBuffer?.isTruncated(taskId) ?? false })
+  }
+
+  const task = taskQueue.getTask(taskId)
+  if (!task || TERMINAL_STATUSES.has(task.status) || !outputBuffer) {
+    end()
+    return
+  }
+
+  unsubscribe = outputBuffer.subscribe(taskId, (event) => {
+    if (event.type === "chunk") {
+      writeSse(res, "chunk", { text: event.text })
+    } else {
+      end()
+    }
+  })
+
+  keepalive = setInterval(() => {
+    const current = taskQueue.getTask(taskId)
+    if (!current || TERMINAL_STATUSES.has(current.status)) {
+      end()
+      return
+    }
+    res.write(": keepalive\n\n")
+  }, SSE_KEEPALIVE_MS)
+
+  req.on("close", () => {
+    closed = true
+    unsubscribe?.()
+    if (keepalive) clearInterval(keepalive)
+  })
+}
+
 /** 从 Authorization header 验证 token，返回 agent 名称 */
 function authenticate(req: IncomingMessage, registry: Registry): string | undefined {
   const auth = req.headers.authorization
@@ -104,6 +275,12 @@ export function createApiHandler(deps: ApiDeps): (req: IncomingMessage, res: Ser
       return
     }
 
+    // 协议 JSON Schema（公开，供其他语言实现 daemon）
+    if (path === "/protocol/schema.json") {
+      sendJson(res, 200, protocolJsonSchema())
+      return
+    }
+
     // 未匹配的路由返回 404
     sendJson(res, 404, { error: "Not Found" })
   }
@@ -133,49 +310,287 @@ async function routeApi(
 
     const to = body.to as string | undefined
     const content = body.content as string | undefined
+    const workspace = body.workspace as string | undefined
+    const priority = body.priority
+    const maxRetries = body.maxRetries
+    const safe = body.safe
 
     if (!to || !content) {
       sendJson(res, 400, { error: "缺少 to 或 content 字段" })
       return
     }
+    if (workspace !== undefined && (typeof workspace !== "string" || !/^[\w.-]+$/.test(workspace))) {
+      sendJson(res, 400, { error: "无效的 workspace 字段" })
+      return
+    }
+    if (priority !== undefined && !isTaskPriority(priority)) {
+      sendJson(res, 400, { error: `无效的 priority 字段（可选: ${TASK_PRIORITIES.join(", ")}）` })
+      return
+    }
+    if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || (maxRetries as number) < 0 || (maxRetries as number) > MAX_TASK_RETRIES)) {
+      sendJson(res, 400, { error: `无效的 maxRetries 字段（0-${MAX_TASK_RETRIES} 的整数）` })
+      return
+    }
+    if (safe !== undefined && typeof safe !== "boolean") {
+      sendJson(res, 400, { error: "无效的 safe 字段" })
+      return
+    }
 
-    // 检查目标 agent 是否已注册
-    const targetCredential = registry.getCredential(to)
-    if (!targetCredential) {
-      sendJson(res, 404, { error: `Agent "${to}" 未注册` })
+    // 检查目标 agent 是否已注册，未注册时按分组路由
+    const group = registry.getCredential(to) ? undefined : deps.groupStore?.get(to)
+    if (!group && !registry.getCredential(to)) {
+      sendJson(res, 404, { error: `Agent 或分组 "${to}" 不存在` })
+      return
+    }
+    const members = group ? deps.groupStore!.route(to) : [to]
+    if (members.length === 0) {
+      sendJson(res, 400, { error: `分组 "${to}" 没有成员` })
+      return
+    }
+    const rejection = aclRejection(members, fromAgent, safe === true, deps)
+    if (rejection) {
+      sendJson(res, 403, { error: rejection })
+      return
+    }
+
+    // broadcast 分组：扇出到全部成员，返回父任务 ID（所有子任务结束后汇总结果）
+    if (group?.mode === "broadcast" && members.length > 1) {
+      const { parent, children } = taskQueue.createFanout(
+        { from: apiTaskFrom(fromAgent), content, chatId: 0, messageId: 0, priority, maxRetries: maxRetries as number | undefined, safe },
+        `@${to}`,
+        members.map((agentName) => ({ agentName, ...(workspace ? { workspace } : {}) })),
+      )
+      for (const child of children) requestApproval(child, fromAgent, deps)
+      apiFanoutCallback?.(parent.taskId)
+      sendJson(res, 201, {
+        taskId: parent.taskId,
+        status: parent.status,
+        to: `@${to}`,
+        children: children.map((child) => ({ taskId: child.taskId, to: child.to })),
+        message: `已广播给分组 ${to} 的 ${children.length} 个成员，等待各自的 TG 审批`,
+      })
       return
     }
 
     // 创建任务（chatId 由 bot 回调填充）
     const task = taskQueue.createTask({
-      from: `[${fromAgent} mcp]`,
-      to,
+      from: apiTaskFrom(fromAgent),
+      to: members[0],
       content,
       chatId: 0,
       messageId: 0,
+      workspace,
+      priority,
+      maxRetries: maxRetries as number | undefined,
+      safe,
     })
-    taskQueue.updateStatus(task.taskId, "awaiting_approval")
 
-    // 向目标 Agent 的主人发送 TG 审批请求
-    const ownerTelegramId = registry.getTelegramUserId(to)
-    if (ownerTelegramId) {
-      // 通过事件通知 bot 发送审批（通过 onApiTaskCreated 回调）
-      apiTaskCallback?.({
-        taskId: task.taskId,
-        from: fromAgent,
-        to,
+    // 通过 onApiTaskCreated 回调通知 bot 向目标 Agent 的主人发送 TG 审批请求
+    const approval = requestApproval(task, fromAgent, deps)
+    const assigned = group ? `（分组 ${to} 分配给 ${task.to}）` : ""
+    if (approval === "rejected") {
+      sendJson(res, 403, { error: taskQueue.getTask(task.taskId)?.result, taskId: task.taskId })
+      return
+    }
+    if (group) deps.groupStore!.markAssigned(to, task.to)
+
+    sendJson(res, 201, {
+      taskId: task.taskId,
+      status: taskQueue.getTask(task.taskId)?.status ?? task.status,
+      ...(group ? { to: task.to } : {}),
+      message: approval === "approved"
+        ? `任务已创建${assigned}，${taskQueue.getTask(task.taskId)?.policyRule ? "命中自动批准规则" : "ACL 免审批"}，已批准`
+        : approval === "awaiting"
+          ? `任务已创建${assigned}，等待 TG 审批`
+          : "任务已创建，但目标 Agent 未绑定 Telegram，无法审批",
+    })
+    return
+  }
+
+  // POST /api/pipelines — 提交多步骤流水线（steps 中 dependsOn 引用前序步骤的 id，省略时依赖上一步）
+  if (method === "POST" && path === "/api/pipelines") {
+    const raw = await readBody(req)
+    let body: JsonBody
+    try {
+      body = JSON.parse(raw) as JsonBody
+    } catch {
+      sendJson(res, 400, { error: "无效的 JSON" })
+      return
+    }
+    if (!Array.isArray(body.steps)) {
+      sendJson(res, 400, { error: "缺少 steps 数组" })
+      return
+    }
+
+    const rawSteps = body.steps as ReadonlyArray<JsonBody>
+    const stepIds: string[] = []
+    const steps: PipelineStep[] = []
+    for (const [index, step] of rawSteps.entries()) {
+      const label = `steps[${index}]`
+      if (typeof step !== "object" || step === null) {
+        sendJson(res, 400, { error: `${label} 不是对象` })
+        return
+      }
+      const { to, content, workspace, priority, safe, dependsOn } = step
+      const id = step.id === undefined ? String(index + 1) : step.id
+      if (typeof id !== "string" || !id || stepIds.includes(id)) {
+        sendJson(res, 400, { error: `${label}.id 无效或重复` })
+        return
+      }
+      if (typeof to !== "string" || typeof content !== "string" || !to || !content) {
+        sendJson(res, 400, { error: `${label} 缺少 to 或 content 字段` })
+        return
+      }
+      if (workspace !== undefined && (typeof workspace !== "string" || !/^[\w.-]+$/.test(workspace))) {
+        sendJson(res, 400, { error: `${label}.workspace 无效` })
+        return
+      }
+      if (priority !== undefined && !isTaskPriority(priority)) {
+        sendJson(res, 400, { error: `${label}.priority 无效（可选: ${TASK_PRIORITIES.join(", ")}）` })
+        return
+      }
+      if (safe !== undefined && typeof safe !== "boolean") {
+        sendJson(res, 400, { error: `${label}.safe 无效` })
+        return
+      }
+      if (dependsOn !== undefined && (!Array.isArray(dependsOn) || dependsOn.some((d) => !stepIds.includes(d as string)))) {
+        sendJson(res, 400, { error: `${label}.dependsOn 只能引用前面步骤的 id` })
+        return
+      }
+      if (!registry.getCredential(to)) {
+        sendJson(res, 404, { error: `Agent "${to}" 未注册` })
+        return
+      }
+      // 任一步骤被 ACL 拒绝时不创建流水线
+      const rejection = aclRejection([to], fromAgent, safe === true, deps)
+      if (rejection) {
+        sendJson(res, 403, { error: `${label}: ${rejection}` })
+        return
+      }
+      stepIds.push(id)
+      steps.push({
+        agentName: to,
         content,
-        ownerTelegramId,
+        workspace,
+        priority,
+        safe,
+        dependsOn: dependsOn === undefined
+          ? (index > 0 ? [index - 1] : [])
+          : (dependsOn as ReadonlyArray<string>).map((d) => stepIds.indexOf(d)),
       })
     }
+    const invalid = validatePipelineSteps(steps)
+    if (invalid) {
+      sendJson(res, 400, { error: invalid })
+      return
+    }
+
+    const pipeline = createPipeline(taskQueue, {
+      steps,
+      from: apiTaskFrom(fromAgent),
+      chatId: 0,
+      messageId: 0,
+    })
+    // 无依赖的步骤立即进入审批，其余步骤在上游完成后由 bot 发起审批
+    for (const task of pipeline.tasks) {
+      if (task.status === "pending") requestApproval(task, fromAgent, deps)
+    }
+    apiPipelineCallback?.(pipeline.pipelineId)
 
     sendJson(res, 201, {
-      taskId: task.taskId,
-      status: task.status,
-      message: ownerTelegramId
-        ? "任务已创建，等待 TG 审批"
-        : "任务已创建，但目标 Agent 未绑定 Telegram，无法审批",
+      pipelineId: pipeline.pipelineId,
+      steps: pipeline.tasks.map((task, i) => ({
+        id: stepIds[i],
+        taskId: task.taskId,
+        to: task.to,
+        dependsOn: task.dependsOn ?? [],
+        status: taskQueue.getTask(task.taskId)?.status ?? task.status,
+      })),
+    })
+    return
+  }
+
+  // POST /api/schedules — 创建定时任务（到期后走与 /api/tasks 相同的审批流程）
+  if (method === "POST" && path === "/api/schedules" && deps.scheduler) {
+    const raw = await readBody(req)
+    let body: JsonBody
+    try {
+      body = JSON.parse(raw) as JsonBody
+    } catch {
+      sendJson(res, 400, { error: "无效的 JSON" })
+      return
+    }
+
+    const { to, content, cron, runAt, workspace, priority } = body
+    const timezone = body.timezone ?? DEFAULT_TIMEZONE
+    if (typeof to !== "string" || typeof content !== "string" || !to || !content) {
+      sendJson(res, 400, { error: "缺少 to 或 content 字段" })
+      return
+    }
+    if ((cron === undefined) === (runAt === undefined)) {
+      sendJson(res, 400, { error: "cron 与 runAt 需且只能提供一个" })
+      return
+    }
+    if (cron !== undefined && (typeof cron !== "string" || !parseCron(cron))) {
+      sendJson(res, 400, { error: "无效的 cron 表达式（5 段：分 时 日 月 周）" })
+      return
+    }
+    if (runAt !== undefined && (typeof runAt !== "string" || isNaN(Date.parse(runAt)))) {
+      sendJson(res, 400, { error: "无效的 runAt 字段（ISO 8601 时间）" })
+      return
+    }
+    if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+      sendJson(res, 400, { error: "无效的 timezone 字段（IANA 时区，如 Asia/Shanghai）" })
+      return
+    }
+    if (workspace !== undefined && (typeof workspace !== "string" || !/^[\w.-]+$/.test(workspace))) {
+      sendJson(res, 400, { error: "无效的 workspace 字段" })
+      return
+    }
+    if (priority !== undefined && !isTaskPriority(priority)) {
+      sendJson(res, 400, { error: `无效的 priority 字段（可选: ${TASK_PRIORITIES.join(", ")}）` })
+      return
+    }
+    if (!registry.getCredential(to)) {
+      sendJson(res, 404, { error: `Agent "${to}" 未注册` })
+      return
+    }
+    const rejection = aclRejection([to], fromAgent, false, deps)
+    if (rejection) {
+      sendJson(res, 403, { error: rejection })
+      return
+    }
+
+    const spec: ScheduleSpec = typeof cron === "string"
+      ? { cron }
+      : { runAt: new Date(runAt as string).toISOString() }
+    const schedule = deps.scheduler.create({
+      agentName: to,
+      content,
+      workspace,
+      priority,
+      spec,
+      timezone,
+      chatId: 0,
+      createdBy: apiTaskFrom(fromAgent),
     })
+    if (typeof schedule === "string") {
+      sendJson(res, 400, { error: schedule })
+      return
+    }
+    sendJson(res, 201, schedule)
+    return
+  }
+
+  // GET /api/pipelines/:id — 查询流水线各步骤的任务
+  const pipelineMatch = path.match(/^\/api\/pipelines\/([a-f0-9-]+)$/)
+  if (method === "GET" && pipelineMatch) {
+    const tasks = taskQueue.getTasksByPipeline(pipelineMatch[1])
+    if (tasks.length === 0) {
+      sendJson(res, 404, { error: "流水线不存在" })
+      return
+    }
+    sendJson(res, 200, { pipelineId: pipelineMatch[1], tasks })
     return
   }
 
@@ -192,6 +607,71 @@ async function routeApi(
     return
   }
 
+  // GET /api/tasks/:id/result — 完整（未截断）结果
+  const resultMatch = path.match(/^\/api\/tasks\/([a-f0-9-]+)\/result$/)
+  if (method === "GET" && resultMatch) {
+    const taskId = resultMatch[1]
+    const task = findReadableTask(res, taskId, fromAgent, deps)
+    if (!task) return
+    const result = await taskQueue.getArtifact(taskId)
+    if (result === undefined) {
+      sendJson(res, 404, { error: "结果不存在（任务未完成或已过期）" })
+      return
+    }
+    sendJson(res, 200, { taskId, status: task.status, result })
+    return
+  }
+
+  // GET /api/tasks/:id/files — 输出文件列表
+  const filesMatch = path.match(/^\/api\/tasks\/([a-f0-9-]+)\/files$/)
+  if (method === "GET" && filesMatch) {
+    const taskId = filesMatch[1]
+    if (!findReadableTask(res, taskId, fromAgent, deps)) return
+    const files = await taskQueue.getOutputFiles(taskId)
+    sendJson(res, 200, {
+      taskId,
+      files: files.map((f) => ({ filename: f.filename, mimeType: f.mimeType, size: f.size })),
+    })
+    return
+  }
+
+  // GET /api/tasks/:id/files/:filename — 下载单个输出文件（filename 需 URL 编码）
+  const fileMatch = path.match(/^\/api\/tasks\/([a-f0-9-]+)\/files\/(.+)$/)
+  if (method === "GET" && fileMatch) {
+    const taskId = fileMatch[1]
+    if (!findReadableTask(res, taskId, fromAgent, deps)) return
+    let filename: string
+    try {
+      filename = decodeURIComponent(fileMatch[2])
+    } catch {
+      sendJson(res, 400, { error: "无效的文件名" })
+      return
+    }
+    const files = await taskQueue.getOutputFiles(taskId)
+    const file = files.find((f) => f.filename === filename)
+    if (!file) {
+      sendJson(res, 404, { error: "文件不存在" })
+      return
+    }
+    const data = Buffer.from(file.data, "base64")
+    res.writeHead(200, {
+      "Content-Type": file.mimeType,
+      "Content-Length": data.length,
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(basename(file.filename))}`,
+    })
+    res.end(data)
+    return
+  }
+
+  // GET /api/tasks/:id/stream — SSE 实时输出
+  const streamMatch = path.match(/^\/api\/tasks\/([a-f0-9-]+)\/stream$/)
+  if (method === "GET" && streamMatch) {
+    const taskId = streamMatch[1]
+    if (!findReadableTask(res, taskId, fromAgent, deps)) return
+    streamTaskOutput(req, res, taskId, deps)
+    return
+  }
+
   // GET /api/agents — 列出在线 Agent
   if (method === "GET" && path === "/api/agents") {
     const agents = registry.listAgents()
@@ -218,3 +698,21 @@ let apiTaskCallback: ApiTaskCallback | undefined
 export function onApiTaskCreated(callback: ApiTaskCallback): void {
   apiTaskCallback = callback
 }
+
+// API 流水线创建回调（由 bot 注册，用于发送 DAG 状态消息）
+export type ApiPipelineCallback = (pipelineId: string) => void
+
+let apiPipelineCallback: ApiPipelineCallback | undefined
+
+export function onApiPipelineCreated(callback: ApiPipelineCallback): void {
+  apiPipelineCallback = callback
+}
+
+// API 广播任务创建回调（由 bot 注册，用于发送汇总消息）
+export type ApiFanoutCallback = (parentTaskId: string) => void
+
+let apiFanoutCallback: ApiFanoutCallback | undefined
+
+export function onApiFanoutCreated(callback: ApiFanoutCallback): void {
+  apiFanoutCallback = callback
+}
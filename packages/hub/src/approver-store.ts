@@ -0,0 +1,164 @@
+import type { AgentApproversRow, ApproverRepo } from "./db/index.js"
+import { normalizeAclSubject } from "./acl-store.js"
+
+// 每个 Agent 的代理审批人数上限
+const MAX_APPROVERS = 20
+
+// 审批有效期上限（30 天）
+const MAX_APPROVAL_TTL_MINUTES = 30 * 24 * 60
+
+/** 解析审批有效期：`30m`、`12h`、`3d`，返回分钟数（`off` 为 0，表示不过期），无效时返回 undefined */
+export function parseApprovalTtl(text: string): number | undefined {
+  if (text.trim() === "off") return 0
+  const match = text.trim().match(/^(\d+)([mhd])$/)
+  if (!match) return undefined
+  const minutes = Number(match[1]) * { m: 1, h: 60, d: 24 * 60 }[match[2] as "m" | "h" | "d"]
+  return minutes > 0 && minutes <= MAX_APPROVAL_TTL_MINUTES ? minutes : undefined
+}
+
+/** 格式化审批有效期（分钟） */
+export function formatApprovalTtl(minutes: number): string {
+  if (minutes === 0) return "不过期"
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} 天`
+  if (minutes % 60 === 0) return `${minutes / 60} 小时`
+  return `${minutes} 分钟`
+}
+
+/** 点击审批按钮的 Telegram 用户 */
+export interface ApproverIdentity {
+  readonly id: number
+  readonly username?: string
+}
+
+interface ApproverStoreState {
+  readonly approvers: ReadonlyMap<string, AgentApproversRow>
+}
+
+export interface ApproverStore {
+  readonly get: (agentName: string) => AgentApproversRow | undefined
+  /** 添加代理审批人，主体格式无效或超出上限时返回错误信息 */
+  readonly addApprovers: (agentName: string, subjects: ReadonlyArray<string>, updatedBy: number) => AgentApproversRow | string
+  /** 移除代理审批人，所需人数超过剩余审批人总数时随之下调 */
+  readonly removeApprovers: (agentName: string, subjects: ReadonlyArray<string>, updatedBy: number) => AgentApproversRow | undefined
+  /** 设置所需批准人数（1 到 主人 + 代理审批人总数），无效时返回错误信息 */
+  readonly setQuorum: (agentName: string, quorum: number, updatedBy: number) => AgentApproversRow | string
+  /** 是否为代理审批人（不含主人） */
+  readonly isDelegate: (agentName: string, user: ApproverIdentity) => boolean
+  /** 批准所需人数，未设置时为 1 */
+  readonly quorumOf: (agentName: string) => number
+  /** 设置审批有效期（分钟），undefined 恢复 Hub 默认值 */
+  readonly setApprovalTtl: (agentName: string, minutes: number | undefined, updatedBy: number) => AgentApproversRow
+  /** 审批有效期（毫秒），Agent 未设置时为 Hub 默认值，undefined 表示不过期 */
+  readonly approvalTtlMs: (agentName: string) => number | undefined
+  readonly loadFromRepo: () => Promise<void>
+}
+
+export interface ApproverStoreOptions {
+  readonly approverRepo?: ApproverRepo
+  /** Hub 默认的审批有效期（毫秒），未设置时审批不会过期 */
+  readonly defaultApprovalTtlMs?: number
+}
+
+// 审批人只能是 Telegram 用户（数字 ID 或 @username）
+function normalizeApprover(raw: string): string | undefined {
+  const subject = normalizeAclSubject(raw)
+  return subject && !subject.startsWith("agent:") ? subject : undefined
+}
+
+/** 创建审批人存储：Agent 主人可指定代理审批人，并要求 N 人批准后才分发 */
+export function createApproverStore(options: ApproverStoreOptions = {}): ApproverStore {
+  const { approverRepo: repo, defaultApprovalTtlMs } = options
+  let state: ApproverStoreState = { approvers: new Map() }
+
+  function put(row: AgentApproversRow): void {
+    const next = new Map(state.approvers)
+    // 没有代理审批人、只需 1 人批准且使用默认有效期时等同于默认设置
+    const isDefault = row.approvers.length === 0 && row.quorum <= 1 && row.approvalTtlMinutes === undefined
+    if (isDefault) next.delete(row.agentName)
+    else next.set(row.agentName, row)
+    state = { approvers: next }
+    const persist = isDefault ? repo?.delete(row.agentName) : repo?.save(row)
+    persist?.catch((err) => {
+      process.stderr.write(`DB approvers save failed: ${err}\n`)
+    })
+  }
+
+  function update(
+    agentName: string,
+    updatedBy: number,
+    changes: Partial<Pick<AgentApproversRow, "approvers" | "quorum" | "approvalTtlMinutes">>,
+  ): AgentApproversRow {
+    const existing = state.approvers.get(agentName)
+    const row: AgentApproversRow = {
+      agentName,
+      approvers: existing?.approvers ?? [],
+      quorum: existing?.quorum ?? 1,
+      ...(existing?.approvalTtlMinutes !== undefined ? { approvalTtlMinutes: existing.approvalTtlMinutes } : {}),
+      ...changes,
+      updatedBy,
+      updatedAt: new Date().toISOString(),
+    }
+    put(row)
+    return row
+  }
+
+  function addApprovers(agentName: string, subjects: ReadonlyArray<string>, updatedBy: number): AgentApproversRow | string {
+    const normalized = subjects.map((s) => ({ raw: s, subject: normalizeApprover(s) }))
+    const invalid = normalized.find((s) => !s.subject)
+    if (invalid) return `无效的审批人: ${invalid.raw}（应为 Telegram ID 或 @username）`
+    const existing = state.approvers.get(agentName)?.approvers ?? []
+    const approvers = [...new Set([...existing, ...normalized.map((s) => s.subject as string)])]
+    if (approvers.length > MAX_APPROVERS) return `最多 ${MAX_APPROVERS} 个代理审批人`
+    return update(agentName, updatedBy, { approvers })
+  }
+
+  function removeApprovers(agentName: string, subjects: ReadonlyArray<string>, updatedBy: number): AgentApproversRow | undefined {
+    const existing = state.approvers.get(agentName)
+    if (!existing) return undefined
+    const removed = new Set(subjects.map(normalizeApprover))
+    const approvers = existing.approvers.filter((a) => !removed.has(a))
+    return update(agentName, updatedBy, { approvers, quorum: Math.min(existing.quorum, approvers.length + 1) })
+  }
+
+  function setQuorum(agentName: string, quorum: number, updatedBy: number): AgentApproversRow | string {
+    const total = (state.approvers.get(agentName)?.approvers.length ?? 0) + 1
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > total) {
+      return `所需人数应为 1-${total}（主人 + ${total - 1} 个代理审批人）`
+    }
+    return update(agentName, updatedBy, { quorum })
+  }
+
+  function isDelegate(agentName: string, user: ApproverIdentity): boolean {
+    const approvers = state.approvers.get(agentName)?.approvers ?? []
+    return approvers.includes(String(user.id))
+      || (user.username !== undefined && approvers.includes(`@${user.username.toLowerCase()}`))
+  }
+
+  async function loadFromRepo(): Promise<void> {
+    if (!repo) return
+    const rows = await repo.loadAll()
+    const next = new Map(state.approvers)
+    for (const row of rows) next.set(row.agentName, row)
+    state = { approvers: next }
+    if (rows.length > 0) {
+      process.stdout.write(`Loaded approvers for ${rows.length} agents from DB\n`)
+    }
+  }
+
+  return {
+    get: (agentName: string) => state.approvers.get(agentName),
+    addApprovers,
+    removeApprovers,
+    setQuorum,
+    isDelegate,
+    quorumOf: (agentName: string) => state.approvers.get(agentName)?.quorum ?? 1,
+    setApprovalTtl: (agentName: string, minutes: number | undefined, updatedBy: number) =>
+      update(agentName, updatedBy, { approvalTtlMinutes: minutes }),
+    approvalTtlMs: (agentName: string) => {
+      const minutes = state.approvers.get(agentName)?.approvalTtlMinutes
+      if (minutes === undefined) return defaultApprovalTtlMs
+      return minutes > 0 ? minutes * 60_000 : undefined
+    },
+    loadFromRepo,
+  }
+}
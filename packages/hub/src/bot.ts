@@ -1,21 +1,108 @@
-import { Bot, InlineKeyboard, webhookCallback } from "grammy"
+import { Bot, InlineKeyboard, InputFile, webhookCallback } from "grammy"
 import type { IncomingMessage, ServerResponse } from "node:http"
-import type { TaskMessage, TaskAttachment } from "@ccchat/shared"
+import { basename } from "node:path"
+import { PROTOCOL_VERSION, LEGACY_PROTOCOL_VERSION, type TaskApproval, type TaskAttachment, type TaskErrorKind, type TaskInfo, type TaskPriority } from "@ccchat/shared"
 import type { Registry } from "./registry.js"
-import type { TaskQueue } from "./task-queue.js"
+import { isTaskPriority, type FanoutTarget, type TaskQueue } from "./task-queue.js"
 import type { WsServer } from "./ws-server.js"
 import type { AgentStatusStore } from "./agent-status-store.js"
 // conversation.ts 不再使用 — 多轮对话改用 Claude 原生会话恢复
 import { formatResult, formatResultPlain } from "./formatter.js"
 import { createPaginator } from "./paginator.js"
-import { onApiTaskCreated } from "./api.js"
+import {
+  apiCallerOf,
+  onApiFanoutCreated,
+  onApiPipelineCreated,
+  onApiTaskCreated,
+  requestApproval,
+  type ApiTaskEvent,
+} from "./api.js"
 import { createStatusPanel } from "./status-panel.js"
 import type { DbPool } from "./db/connection.js"
+import type { OutputBuffer } from "./output-buffer.js"
+import type { ScheduleRow, TaskDiffRow } from "./db/index.js"
+import type { Scheduler } from "./scheduler.js"
+import { DEFAULT_TIMEZONE, formatInTimeZone, isValidTimeZone, parseScheduleSpec } from "./cron.js"
+import {
+  createPipeline,
+  isPipelineFinished,
+  renderPipeline,
+  validatePipelineSteps,
+  type PipelineStep,
+} from "./pipeline.js"
+import { renderFanoutSummary } from "./fanout.js"
+import { isGroupMode, type GroupStore } from "./group-store.js"
+import type { AclKind, AgentAclRow, AgentApproversRow, GroupMode, PolicyAction } from "./db/index.js"
+import { isAclKind, type AclStore } from "./acl-store.js"
+import { formatApprovalTtl, parseApprovalTtl, type ApproverIdentity, type ApproverStore } from "./approver-store.js"
+import {
+  describeRule,
+  isPolicyAction,
+  parseRuleSpec,
+  policyRejectionReason,
+  shortRuleId,
+  toTaskPolicyRule,
+  type RuleStore,
+} from "./rule-store.js"
+
+// 进度消息中显示的最新输出字符数
+const PROGRESS_TAIL_CHARS = 800
 
 // 解析 @mention 结果
 interface MentionParseResult {
   readonly agentName: string
   readonly content: string
+  /** @agent#workspace 指定的命名工作区 */
+  readonly workspace?: string
+  /** 内容开头的 !urgent / !high / !low 前缀 */
+  readonly priority?: TaskPriority
+  /** 内容开头的 !safe 前缀：只读任务，只读用户也可提交 */
+  readonly safe?: boolean
+}
+
+// 多目标 @mention 解析结果（name 可能是 all 或 group:<name>，由调用方解析）
+interface FanoutMentionParseResult {
+  readonly mentions: ReadonlyArray<{ readonly name: string; readonly workspace?: string }>
+  readonly content: string
+  readonly priority?: TaskPriority
+  readonly safe?: boolean
+}
+
+// 多目标 @mention 展开后的目标（groups 为途经的分组，用于推进 round_robin 轮转）
+interface FanoutTargets {
+  readonly label: string
+  readonly targets: ReadonlyArray<FanoutTarget>
+  readonly groups: ReadonlyArray<string>
+}
+
+// 带审批按钮的消息（text 用于原地更新审批进度）
+interface ApprovalMessage {
+  readonly chatId: number
+  readonly messageId: number
+  readonly text: string
+}
+
+// 「修改后批准」等待审批人回复的提示
+interface AmendPrompt {
+  readonly taskId: string
+  /** 点击按钮的审批人，只接受其本人的回复 */
+  readonly userId: number
+  readonly approvalMessage: ApprovalMessage
+}
+
+// 分组路由模式显示
+const GROUP_MODE_LABELS: Record<GroupMode, string> = {
+  broadcast: "广播",
+  any: "任一空闲",
+  round_robin: "轮流",
+}
+
+// 优先级显示
+const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  low: "🔽 低",
+  normal: "▫️ 普通",
+  high: "🔼 高",
+  urgent: "🔥 紧急",
 }
 
 // Bot 对外 API
@@ -46,55 +133,108 @@ function formatElapsed(ms: number): string {
   return `${min}m${sec % 60}s`
 }
 
-// 解析 @agentname 消息（跳过 bot 自身用户名）
+const ERROR_KIND_LABELS: Record<TaskErrorKind, string> = {
+  retryable: "可重试",
+  terminal: "不可重试",
+}
+
+// 执行记录：执行过多次时列出每次失败的原因（成功的最后一次不在 attempts 中）
+function formatAttempts(task: TaskInfo | undefined, status: "success" | "error"): string {
+  const attempts = task?.attempts ?? []
+  const runs = attempts.length + (status === "success" ? 1 : 0)
+  if (runs <= 1) return ""
+  const lines = attempts.map((a) =>
+    `#${a.attempt} ❌ ${ERROR_KIND_LABELS[a.errorKind]}: ${a.error.split("\n")[0].slice(0, 80)}`)
+  if (status === "success") lines.push(`#${runs} ✅ 成功`)
+  return `\n\n🔁 执行记录 (${runs} 次):\n${lines.join("\n")}`
+}
+
+// 格式化文件大小
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`
+}
+
+// 组装解析结果：剥离内容开头的 !priority 和 !safe 前缀（顺序不限）
+function buildMention(agentName: string, workspace: string | undefined, rest: string): MentionParseResult {
+  let content = rest.trim()
+  let priority: TaskPriority | undefined
+  let safe = false
+  for (let prefix = content.match(/^!(\w+)\s+(.+)$/s); prefix; prefix = content.match(/^!(\w+)\s+(.+)$/s)) {
+    if (prefix[1] === "safe" && !safe) safe = true
+    else if (isTaskPriority(prefix[1]) && !priority) priority = prefix[1]
+    else break
+    content = prefix[2].trim()
+  }
+  return {
+    agentName,
+    content,
+    ...(workspace ? { workspace } : {}),
+    ...(priority ? { priority } : {}),
+    ...(safe ? { safe } : {}),
+  }
+}
+
+// 解析 @agentname[#workspace] [!priority] 消息（跳过 bot 自身用户名）
 function parseMention(text: string, botUsername?: string): MentionParseResult | undefined {
-  const match = text.match(/^@(\w+)\s+(.+)$/s)
+  const match = text.match(/^@(\w+)(?:#([\w.-]+))?\s+(.+)$/s)
   if (!match) return undefined
   // 如果第一个 @mention 是 bot 自身，跳过并解析下一个
   if (botUsername && match[1].toLowerCase() === botUsername.toLowerCase()) {
-    const rest = match[2].trim()
-    // rest 可能是 "agent_name content" 或 "@agent_name content"
-    const innerMatch = rest.match(/^@?(\w+)\s+(.+)$/s)
+    const rest = match[3].trim()
+    // rest 可能是 "agent_name content" 或 "@agent_name#workspace content"
+    const innerMatch = rest.match(/^@?(\w+)(?:#([\w.-]+))?\s+(.+)$/s)
     if (!innerMatch) return undefined
-    return { agentName: innerMatch[1], content: innerMatch[2].trim() }
+    return buildMention(innerMatch[1], innerMatch[2], innerMatch[3])
+  }
+  return buildMention(match[1], match[2], match[3])
+}
+
+// 解析开头连续的多个 @mention：@a @b#ws、@all、@group:<name>（跳过 bot 自身用户名）
+function parseFanoutMention(text: string, botUsername?: string): FanoutMentionParseResult | undefined {
+  const match = text.match(/^((?:@\w+(?::\w+)?(?:#[\w.-]+)?\s+)+)(.+)$/s)
+  if (!match) return undefined
+  const mentions = [...match[1].matchAll(/@(\w+(?::\w+)?)(?:#([\w.-]+))?/g)]
+    .filter((m) => !botUsername || m[1].toLowerCase() !== botUsername.toLowerCase())
+    .map((m) => ({ name: m[1], ...(m[2] ? { workspace: m[2] } : {}) }))
+  const { content, priority, safe } = buildMention("", undefined, match[2])
+  return { mentions, content, ...(priority ? { priority } : {}), ...(safe ? { safe } : {}) }
+}
+
+// 解析 /pipeline 步骤：每行 [依赖] @agent[#workspace] [!priority] 内容
+// 依赖写作 [1,3]（步骤序号从 1 开始），[] 表示无依赖，省略时依赖上一步
+function parsePipelineSteps(text: string, botUsername?: string): ReadonlyArray<PipelineStep> | string {
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean)
+  if (lines.length < 2) return "流水线至少需要 2 个步骤"
+  const steps: PipelineStep[] = []
+  for (const [index, line] of lines.entries()) {
+    const match = line.match(/^(?:\[([\d,\s]*)\]\s*)?(.+)$/s)
+    const mention = match ? parseMention(match[2], botUsername) : undefined
+    if (!match || !mention) return `第 ${index + 1} 行格式错误: ${line.slice(0, 40)}`
+    const dependsOn = match[1] === undefined
+      ? (index > 0 ? [index - 1] : [])
+      : match[1].split(",").map((n) => n.trim()).filter(Boolean).map((n) => Number(n) - 1)
+    steps.push({
+      agentName: mention.agentName,
+      content: mention.content,
+      workspace: mention.workspace,
+      priority: mention.priority,
+      safe: mention.safe,
+      dependsOn,
+    })
   }
-  return { agentName: match[1], content: match[2].trim() }
+  return validatePipelineSteps(steps) ?? steps
 }
 
-// 将任务分发给 Agent（含附件传递）
+// 将任务交给调度器分发：Agent 有空闲槽位时按顺序发送，否则留在待处理队列
 function dispatchTaskToAgent(
-  task: {
-    readonly taskId: string
-    readonly from: string
-    readonly content: string
-    readonly chatId: number
-    readonly messageId: number
-    readonly conversationId?: string
-    readonly parentTaskId?: string
-  },
+  task: { readonly taskId: string },
   agentName: string,
   wsServer: WsServer,
-  taskQueue: TaskQueue,
 ): boolean {
-  const taskAttachments = taskQueue.getAttachments(task.taskId)
-  const taskMsg: TaskMessage = {
-    type: "task",
-    taskId: task.taskId,
-    from: task.from,
-    content: task.content,
-    chatId: task.chatId,
-    messageId: task.messageId,
-    ...(task.conversationId ? { conversationId: task.conversationId } : {}),
-    ...(task.parentTaskId ? { parentTaskId: task.parentTaskId } : {}),
-    ...(taskAttachments ? { attachments: taskAttachments } : {}),
-  }
-  const sent = wsServer.sendToAgent(agentName, taskMsg)
-  if (sent) {
-    taskQueue.removePending(agentName, task.taskId)
-    taskQueue.updateStatus(task.taskId, "running")
-    taskQueue.clearAttachments(task.taskId)
-  }
-  return sent
+  wsServer.dispatchPending(agentName)
+  return wsServer.isDispatched(task.taskId)
 }
 
 // 给消息添加 reaction
@@ -139,6 +279,12 @@ export function createBot(
   defaultChatId?: number,
   pool?: DbPool,
   webhookSecret?: string,
+  outputBuffer?: OutputBuffer,
+  scheduler?: Scheduler,
+  groupStore?: GroupStore,
+  aclStore?: AclStore,
+  approverStore?: ApproverStore,
+  ruleStore?: RuleStore,
 ): TelegramBot {
   const bot = new Bot(token)
   bot.catch((err) => {
@@ -146,7 +292,9 @@ export function createBot(
   })
   const activeChatIds = new Set<number>(defaultChatId ? [defaultChatId] : [])
   const paginator = createPaginator()
-  const statusPanel = createStatusPanel(bot, registry, agentStatusStore, pool)
+  // 已发出回滚指令、等待 Agent 回复的任务
+  const revertingTasks = new Set<string>()
+  const statusPanel = createStatusPanel(bot, registry, agentStatusStore, pool, wsServer.getAgentLoad)
 
   // 进度消息状态（mutable cache）
   const progressState = new Map<string, {
@@ -155,6 +303,10 @@ export function createBot(
     progressMsgId?: number
     lastUpdateAt: number
     createdAt: number
+    status?: string
+    detail?: string
+    /** Agent 端开始执行的时间（由 elapsedMs 反推） */
+    startedAt?: number
   }>()
   /** 进度状态最大存活时间（10分钟，兜底清理） */
   const progressMaxAge = 10 * 60 * 1000
@@ -171,11 +323,87 @@ export function createBot(
   }, 60_000)
   progressSweep.unref()
 
-  // 初始化进度追踪
+  // 流水线 DAG 状态消息（内存保存，Hub 重启后不再更新）
+  const pipelineMessages = new Map<string, {
+    chatId: number
+    messageId: number
+    timer?: ReturnType<typeof setTimeout>
+  }>()
+  // 带审批按钮的消息（内存保存，审批过期时移除按钮；Hub 重启后的旧按钮在点击时提示已过期）
+  const approvalMessages = new Map<string, ReadonlyArray<{ readonly chatId: number; readonly messageId: number }>>()
+  // 「修改后批准」的回复提示（key: chatId:messageId），任务离开待审批状态时清理
+  const amendPrompts = new Map<string, AmendPrompt>()
+  /** 流水线/扇出汇总消息刷新防抖间隔 */
+  const liveRenderDelay = 1500
+
+  function schedulePipelineRender(pipelineId: string): void {
+    const entry = pipelineMessages.get(pipelineId)
+    if (!entry || entry.timer) return
+    entry.timer = setTimeout(() => {
+      entry.timer = undefined
+      const tasks = taskQueue.getTasksByPipeline(pipelineId)
+      if (isPipelineFinished(tasks)) pipelineMessages.delete(pipelineId)
+      bot.api.editMessageText(entry.chatId, entry.messageId, renderPipeline(pipelineId, tasks)).catch(() => {
+        // 内容未变化或消息已删除，忽略
+      })
+    }, liveRenderDelay)
+  }
+
+  // 扇出汇总消息（父任务 ID → 消息位置，内存保存）；查看单个 Agent 结果时暂停自动刷新
+  const fanoutMessages = new Map<string, {
+    chatId: number
+    messageId: number
+    viewingChild: boolean
+    timer?: ReturnType<typeof setTimeout>
+  }>()
+
+  // 汇总消息的按钮：每个 Agent 一个结果入口
+  function buildFanoutKeyboard(parentTaskId: string, children: ReadonlyArray<TaskInfo>): InlineKeyboard {
+    const keyboard = new InlineKeyboard()
+    children.forEach((child, i) => {
+      keyboard.text(`📄 ${child.to}`, `fview:${parentTaskId}:${i}:0`)
+      if (i % 3 === 2) keyboard.row()
+    })
+    return keyboard
+  }
+
+  function scheduleFanoutRender(parentTaskId: string): void {
+    const entry = fanoutMessages.get(parentTaskId)
+    if (!entry || entry.timer) return
+    entry.timer = setTimeout(() => {
+      entry.timer = undefined
+      const parent = taskQueue.getTask(parentTaskId)
+      if (!parent) return
+      if (parent.completedAt) {
+        fanoutMessages.delete(parentTaskId)
+        addReaction(bot, parent.chatId, parent.messageId, parent.status === "completed" ? "✅" : "❌").catch(() => {})
+      }
+      if (entry.viewingChild) return
+      const children = taskQueue.getFanoutChildren(parentTaskId)
+      bot.api.editMessageText(entry.chatId, entry.messageId, renderFanoutSummary(parent, children), {
+        reply_markup: buildFanoutKeyboard(parentTaskId, children),
+      }).catch(() => {
+        // 内容未变化或消息已删除，忽略
+      })
+    }, liveRenderDelay)
+  }
+
+  // 初始化进度追踪（扇出子任务的进度在汇总消息中展示，不单独发进度消息）
   function initProgress(taskId: string, chatId: number, replyToMsgId: number): void {
+    if (taskQueue.getTask(taskId)?.fanoutParentId) return
     progressState.set(taskId, { chatId, replyToMsgId, lastUpdateAt: 0, createdAt: Date.now() })
   }
 
+  // 任务未能立即分发的原因（离线或 Agent 槽位已满）
+  function undispatchedReason(agentName: string): string {
+    if (!registry.isOnline(agentName)) return `${agentName} 离线`
+    const load = wsServer.getAgentLoad(agentName)
+    const dispatched = load.queueDepth > 0
+      ? `已分发 ${load.inFlight}/${load.capacity + load.queueDepth}，含 daemon 排队`
+      : `${load.inFlight}/${load.capacity} 运行中`
+    return `${agentName} 正忙（${dispatched}），排在第 ${load.queued} 位`
+  }
+
   // 清理进度消息
   async function cleanupProgress(taskId: string): Promise<void> {
     const pState = progressState.get(taskId)
@@ -190,6 +418,210 @@ export function createBot(
     progressState.delete(taskId)
   }
 
+  // 审批进度行（放在审批消息末尾，批准后原地更新）：Agent 需要多人批准时显示已批准人数和批准人
+  function approvalProgress(taskId: string, agentName: string): string[] {
+    const quorum = approverStore?.quorumOf(agentName) ?? 1
+    if (quorum <= 1) return []
+    const approvals = taskQueue.getTask(taskId)?.approvals ?? []
+    const names = approvals.map((a) => a.name).join(", ")
+    return [`审批进度: ${approvals.length}/${quorum}${names ? `（${names}）` : ""}`]
+  }
+
+  // 审批按钮：需要多人批准时批准按钮上显示进度
+  function approvalKeyboard(taskId: string, agentName: string): InlineKeyboard {
+    const quorum = approverStore?.quorumOf(agentName) ?? 1
+    const approved = taskQueue.getTask(taskId)?.approvals?.length ?? 0
+    return new InlineKeyboard()
+      .text(quorum > 1 ? `✅ 批准 (${approved}/${quorum})` : "✅ 批准", `approve:${taskId}`)
+      .text("❌ 拒绝", `reject:${taskId}`)
+      .row()
+      .text("✏️ 修改后批准", `amend:${taskId}`)
+  }
+
+  // 审批截止时间行（Agent 设置了审批有效期时）
+  function approvalDeadline(taskId: string): string[] {
+    const expiresAt = taskQueue.getTask(taskId)?.approvalExpiresAt
+    return expiresAt ? [`审批截止: ${formatInTimeZone(expiresAt, DEFAULT_TIMEZONE)}`] : []
+  }
+
+  // 只读任务标记行（!safe）：在线 daemon 不支持 safe_mode 时提醒审批人任务不会被分发
+  function safeMarker(taskId: string, agentName: string): string[] {
+    if (!taskQueue.getTask(taskId)?.safe) return []
+    const capabilities = registry.getConnection(agentName)?.info.capabilities
+    return capabilities && !capabilities.includes("safe_mode")
+      ? ["🛡 只读任务（!safe）：daemon 版本过旧，无法限制工具，批准后任务将直接失败"]
+      : ["🛡 只读任务（!safe）：执行时禁用修改文件和执行命令的工具"]
+  }
+
+  // 发送带审批按钮的消息并记录，审批过期时移除按钮
+  async function sendApprovalMessage(
+    chatId: number,
+    text: string,
+    taskId: string,
+    agentName: string,
+    replyToMessageId?: number,
+  ): Promise<number> {
+    const sent = await bot.api.sendMessage(chatId, text, {
+      reply_markup: approvalKeyboard(taskId, agentName),
+      ...(replyToMessageId !== undefined ? { reply_to_message_id: replyToMessageId } : {}),
+    })
+    approvalMessages.set(taskId, [...(approvalMessages.get(taskId) ?? []), { chatId, messageId: sent.message_id }])
+    return sent.message_id
+  }
+
+  function hasDelegates(agentName: string): boolean {
+    return (approverStore?.get(agentName)?.approvers.length ?? 0) > 0
+  }
+
+  // 主人或代理审批人可以审批（主人未绑定 Telegram 且没有代理审批人时任何人都可以）
+  function canApprove(agentName: string, user: ApproverIdentity): boolean {
+    const ownerTelegramId = registry.getTelegramUserId(agentName)
+    if (ownerTelegramId === user.id) return true
+    if (approverStore?.isDelegate(agentName, user)) return true
+    return !ownerTelegramId && !hasDelegates(agentName)
+  }
+
+  // 私聊通知代理审批人（只有以 Telegram ID 指定的审批人能收到，@username 审批人在群里审批）
+  async function notifyDelegates(agentName: string, text: string, taskId: string): Promise<void> {
+    const ids = (approverStore?.get(agentName)?.approvers ?? []).filter((a) => /^\d+$/.test(a)).map(Number)
+    for (const id of ids) {
+      try {
+        await sendApprovalMessage(id, text, taskId, agentName)
+      } catch { /* 审批人没有私聊过 bot */ }
+    }
+  }
+
+  // 记录一位审批人的批准：未达到所需人数时更新审批消息的进度，达到后批准并分发
+  async function recordApproval(
+    task: TaskInfo,
+    approval: TaskApproval,
+    approvalMessage?: ApprovalMessage,
+  ): Promise<{ readonly approved: number; readonly quorum: number }> {
+    const { taskId, to: agentName } = task
+    const approvals = taskQueue.addApproval(taskId, approval)?.approvals ?? []
+    const quorum = approverStore?.quorumOf(agentName) ?? 1
+
+    // 未达到所需人数：继续等待其他审批人
+    if (approvals.length < quorum) {
+      if (approvalMessage) {
+        const lines = approvalMessage.text.split("\n").filter((l) => !l.startsWith("审批进度:"))
+        const text = [...lines, ...approvalProgress(taskId, agentName)].join("\n")
+        try {
+          await bot.api.editMessageText(approvalMessage.chatId, approvalMessage.messageId, text, {
+            reply_markup: approvalKeyboard(taskId, agentName),
+          })
+        } catch { /* 消息未变化 */ }
+      }
+      return { approved: approvals.length, quorum }
+    }
+
+    taskQueue.updateStatus(taskId, "approved")
+    if (approvalMessage) {
+      const approvedBy = quorum > 1 ? `\n批准: ${approvals.map((a) => a.name).join(", ")}` : ""
+      const amended = taskQueue.getTask(taskId)?.originalContent !== undefined ? "修改后" : ""
+      try {
+        await bot.api.editMessageText(
+          approvalMessage.chatId,
+          approvalMessage.messageId,
+          `✅ 任务已${amended}批准 (${agentName})${approvedBy}\nID: ${taskId}`,
+        )
+      } catch { /* ignore */ }
+    }
+
+    // 给原消息加 reaction
+    if (task.chatId !== 0 && task.messageId !== 0) {
+      await addReaction(bot, task.chatId, task.messageId, "🚀")
+    }
+
+    if (registry.isOnline(agentName)) {
+      const sent = dispatchTaskToAgent(task, agentName, wsServer)
+      const text = sent
+        ? `任务开始执行: ${agentName}\nID: ${taskId}`
+        : `${undispatchedReason(agentName)}，任务已排队等待。\nID: ${taskId}`
+      if (sent) initProgress(taskId, task.chatId, task.messageId)
+      try {
+        await bot.api.sendMessage(task.chatId, text, {
+          reply_to_message_id: task.messageId,
+        })
+      } catch { /* ignore */ }
+    }
+    return { approved: approvals.length, quorum }
+  }
+
+  // 处理对「修改后批准」提示的回复：替换任务内容并记为该审批人的批准
+  async function handleAmendReply(
+    prompt: AmendPrompt,
+    content: string,
+    user: ApproverIdentity & { readonly name: string },
+    reply: { readonly chatId: number; readonly messageId: number },
+  ): Promise<void> {
+    if (!content) {
+      await bot.api.sendMessage(reply.chatId, "修改后的内容不能为空，请重新点击「✏️ 修改后批准」。", {
+        reply_to_message_id: reply.messageId,
+      })
+      return
+    }
+    const task = taskQueue.getTask(prompt.taskId)
+    if (!task || task.status !== "awaiting_approval") {
+      await bot.api.sendMessage(reply.chatId, `任务已处理: ${task?.status ?? "不存在"}`, {
+        reply_to_message_id: reply.messageId,
+      })
+      return
+    }
+    if (!canApprove(task.to, user) || task.approvals?.some((a) => a.userId === user.id)) {
+      await bot.api.sendMessage(reply.chatId, "只有 Agent 主人或尚未批准的审批人可以修改任务。", {
+        reply_to_message_id: reply.messageId,
+      })
+      return
+    }
+
+    const amended = taskQueue.amendContent(task.taskId, content, user.name) ?? task
+    const previousApprovals = task.approvals ?? []
+    const { approvalMessage } = prompt
+    const lines = approvalMessage.text.split("\n").filter((l) => !l.startsWith("审批进度:") && !l.startsWith("✏️ 修改为:"))
+    const { approved, quorum } = await recordApproval(amended, {
+      userId: user.id,
+      name: user.name,
+      approvedAt: new Date().toISOString(),
+    }, { ...approvalMessage, text: [...lines, `✏️ 修改为: ${content.slice(0, 200)}${content.length > 200 ? "..." : ""}`].join("\n") })
+
+    // 其他审批消息的按钮上的进度随批准清空而重置
+    if (approved < quorum) {
+      for (const message of approvalMessages.get(task.taskId) ?? []) {
+        if (message.chatId === approvalMessage.chatId && message.messageId === approvalMessage.messageId) continue
+        try {
+          await bot.api.editMessageReplyMarkup(message.chatId, message.messageId, {
+            reply_markup: approvalKeyboard(task.taskId, task.to),
+          })
+        } catch { /* 消息未变化 */ }
+      }
+    }
+
+    // 通知请求方任务内容已被修改
+    const status = approved < quorum ? `，等待其他审批人（${approved}/${quorum}）` : "并批准"
+    const notice = [
+      `✏️ ${user.name} 修改了任务内容${status} (${task.to})`,
+      `原内容: ${task.content.slice(0, 200)}${task.content.length > 200 ? "..." : ""}`,
+      `修改后: ${content}`,
+      ...(previousApprovals.length > 0
+        ? [`此前的批准（${previousApprovals.map((a) => a.name).join(", ")}）针对旧内容，已作废，需重新批准`]
+        : []),
+      `ID: ${task.taskId}`,
+    ].join("\n")
+    if (task.chatId !== 0) {
+      try {
+        await bot.api.sendMessage(task.chatId, notice, { reply_to_message_id: task.messageId })
+      } catch { /* ignore */ }
+    }
+    if (reply.chatId !== task.chatId) {
+      try {
+        await bot.api.sendMessage(reply.chatId, `✅ 已修改任务内容${status}\nID: ${task.taskId}`, {
+          reply_to_message_id: reply.messageId,
+        })
+      } catch { /* ignore */ }
+    }
+  }
+
   // 在群里发送审批按钮
   async function sendGroupApproval(
     chatId: number,
@@ -199,15 +631,18 @@ export function createBot(
     content: string,
     messageId: number,
   ): Promise<void> {
-    const keyboard = new InlineKeyboard()
-      .text("✅ 批准", `approve:${task.taskId}`)
-      .text("❌ 拒绝", `reject:${task.taskId}`)
-
-    await bot.api.sendMessage(
-      chatId,
-      `📋 任务待审批 → ${agentName}\n来自: ${from}\n内容: ${content.slice(0, 200)}\n\n${agentName} 的主人请点击按钮:`,
-      { reply_to_message_id: messageId, reply_markup: keyboard },
-    )
+    const approvers = hasDelegates(agentName) ? `${agentName} 的主人或审批人` : `${agentName} 的主人`
+    const text = [
+      `📋 任务待审批 → ${agentName}`,
+      `来自: ${from}`,
+      ...safeMarker(task.taskId, agentName),
+      `内容: ${content.slice(0, 200)}`,
+      ``,
+      `${approvers}请点击按钮:`,
+      ...approvalDeadline(task.taskId),
+      ...approvalProgress(task.taskId, agentName),
+    ].join("\n")
+    await sendApprovalMessage(chatId, text, task.taskId, agentName, messageId)
   }
 
   // 处理新任务的公共函数（含自动审批逻辑）
@@ -218,9 +653,28 @@ export function createBot(
     readonly messageId: number
     readonly from: string
     readonly senderId?: number
+    /** 发送者的 Telegram username，用于匹配 @username ACL 规则（from 可能是昵称，不能用于鉴权） */
+    readonly senderUsername?: string
     readonly attachments?: ReadonlyArray<TaskAttachment>
-  }): Promise<void> {
-    const { agentName, content, chatId, messageId, from, senderId, attachments } = params
+    readonly workspace?: string
+    readonly priority?: TaskPriority
+    readonly safe?: boolean
+  }): Promise<TaskInfo | undefined> {
+    const { agentName, content, chatId, messageId, from, senderId, senderUsername, attachments, workspace, priority, safe } = params
+
+    // 在线 Agent 已上报工作区列表时，提前拒绝未知工作区
+    const knownWorkspaces = registry.getConnection(agentName)?.info.workspaces ?? []
+    if (workspace && registry.isOnline(agentName) && !knownWorkspaces.includes(workspace)) {
+      const hint = knownWorkspaces.length > 0
+        ? `可用工作区: ${knownWorkspaces.join(", ")}`
+        : `${agentName} 没有配置命名工作区`
+      try {
+        await bot.api.sendMessage(chatId, `未知工作区: ${workspace}\n${hint}`, {
+          reply_to_message_id: messageId,
+        })
+      } catch { /* ignore */ }
+      return undefined
+    }
 
     await addReaction(bot, chatId, messageId, "👀")
 
@@ -230,27 +684,67 @@ export function createBot(
       content,
       chatId,
       messageId,
+      workspace,
+      priority,
+      safe,
     })
 
     if (attachments && attachments.length > 0) {
       taskQueue.setAttachments(task.taskId, attachments)
     }
 
+    await submitForApproval(task, senderId, senderUsername)
+    return task
+  }
+
+  // 任务进入审批流程：发送者是 Agent 主人或 ACL 允许时自动批准并分发，ACL 拒绝时直接拒绝，否则请求主人审批
+  async function submitForApproval(task: TaskInfo, senderId?: number, senderUsername?: string): Promise<void> {
+    const { to: agentName, content, chatId, messageId, from, workspace, priority } = task
     const ownerTelegramId = registry.getTelegramUserId(agentName)
+    const isOwner = ownerTelegramId !== undefined && senderId === ownerTelegramId
+    const acl = isOwner
+      ? undefined
+      : aclStore?.evaluate(agentName, { telegramId: senderId, username: senderUsername }, task.safe === true)
+    // 自动审批规则：ACL 已拒绝时不再判定
+    const rule = isOwner || acl?.decision === "reject"
+      ? undefined
+      : ruleStore?.evaluate(agentName, {
+        requester: { telegramId: senderId, username: senderUsername },
+        content,
+        hasAttachments: (taskQueue.getAttachments(task.taskId)?.length ?? 0) > 0,
+      })
+    if (rule) {
+      taskQueue.setPolicyRule(task.taskId, toTaskPolicyRule(rule))
+      process.stdout.write(`Policy rule ${shortRuleId(rule.ruleId)} ${rule.action === "reject" ? "rejected" : "approved"} task ${task.taskId}\n`)
+    }
+
+    const rejection = acl?.decision === "reject" ? acl.reason : rule?.action === "reject" ? policyRejectionReason(rule) : undefined
+    if (rejection) {
+      taskQueue.updateStatus(task.taskId, "rejected", rejection)
+      await addReaction(bot, chatId, messageId, "👎")
+      try {
+        await bot.api.sendMessage(chatId, `🚫 ${rejection}
+ID: ${task.taskId}`, {
+          reply_to_message_id: messageId,
+        })
+      } catch { /* ignore */ }
+      return
+    }
 
-    // 自动审批：发送者是 Agent 主人
-    if (ownerTelegramId && senderId === ownerTelegramId) {
+    // 自动审批：发送者是 Agent 主人，ACL 允许，或命中批准规则
+    if (isOwner || acl?.decision === "approve" || rule?.action === "approve") {
       taskQueue.updateStatus(task.taskId, "approved")
       if (registry.isOnline(agentName)) {
-        const sent = dispatchTaskToAgent(task, agentName, wsServer, taskQueue)
+        const sent = dispatchTaskToAgent(task, agentName, wsServer)
         if (sent) {
           await addReaction(bot, chatId, messageId, "🚀")
           initProgress(task.taskId, chatId, messageId)
           return
         }
       }
+      const approvedBy = rule?.action === "approve" ? `已按规则 ${shortRuleId(rule.ruleId)} 自动批准` : "已自动批准"
       try {
-        await bot.api.sendMessage(chatId, `${agentName} 离线，任务已自动批准并排队等待。\nID: ${task.taskId}`, {
+        await bot.api.sendMessage(chatId, `${undispatchedReason(agentName)}，任务${approvedBy}并排队等待。\nID: ${task.taskId}`, {
           reply_to_message_id: messageId,
         })
       } catch { /* ignore */ }
@@ -261,21 +755,30 @@ export function createBot(
     taskQueue.updateStatus(task.taskId, "awaiting_approval")
 
     if (ownerTelegramId) {
-      const keyboard = new InlineKeyboard()
-        .text("✅ 批准", `approve:${task.taskId}`)
-        .text("❌ 拒绝", `reject:${task.taskId}`)
-
       const approvalText = [
         `📋 新任务待审批`,
         `来自: ${from}`,
+        ...safeMarker(task.taskId, agentName),
+        ...(workspace ? [`工作区: ${workspace}`] : []),
+        ...(priority && priority !== "normal" ? [`优先级: ${PRIORITY_LABELS[priority]}`] : []),
         `内容: ${content.slice(0, 200)}${content.length > 200 ? "..." : ""}`,
         `ID: ${task.taskId}`,
+        ...approvalDeadline(task.taskId),
+        ...approvalProgress(task.taskId, agentName),
       ].join("\n")
 
+      // 有代理审批人时群里也发审批按钮，主人不在时审批人可直接处理
+      if (hasDelegates(agentName)) {
+        await notifyDelegates(agentName, approvalText, task.taskId)
+        try {
+          await sendApprovalMessage(ownerTelegramId, approvalText, task.taskId, agentName)
+        } catch { /* 群里的审批按钮兜底 */ }
+        await sendGroupApproval(chatId, task, agentName, from, content, messageId)
+        return
+      }
+
       try {
-        await bot.api.sendMessage(ownerTelegramId, approvalText, {
-          reply_markup: keyboard,
-        })
+        await sendApprovalMessage(ownerTelegramId, approvalText, task.taskId, agentName)
         await bot.api.sendMessage(chatId, `任务已提交，等待 ${agentName} 的主人审批。\nID: ${task.taskId}`, {
           reply_to_message_id: messageId,
         })
@@ -287,6 +790,74 @@ export function createBot(
     }
   }
 
+  // 解析 @mention 目标：@all 为所有在线 Agent，@分组名 / @group:分组名 按分组路由模式展开，
+  // 其余只保留已注册的 Agent；没有分组且不足两个目标时返回 undefined（走普通 @mention 流程）
+  function resolveFanoutTargets(
+    mentions: FanoutMentionParseResult["mentions"],
+  ): FanoutTargets | string | undefined {
+    if (mentions.some((m) => m.name === "all")) {
+      const online = registry.listAgents().map((a) => ({ agentName: a.name }))
+      return online.length > 0 ? { label: "@all", targets: online, groups: [] } : "当前没有在线的 Agent"
+    }
+    const targets = new Map<string, FanoutTarget>()
+    const labels: string[] = []
+    const groups: string[] = []
+    for (const m of mentions) {
+      const explicitGroup = m.name.startsWith("group:") ? m.name.slice("group:".length) : undefined
+      const groupName = explicitGroup ?? (!registry.getCredential(m.name) && groupStore?.get(m.name) ? m.name : undefined)
+      if (explicitGroup !== undefined && !groupStore?.get(explicitGroup)) return `未找到分组: ${explicitGroup}`
+      const names = groupName !== undefined
+        ? (groupStore?.route(groupName) ?? []).filter((name) => registry.getCredential(name))
+        : registry.getCredential(m.name) ? [m.name] : []
+      if (groupName !== undefined) {
+        if (names.length === 0) return `分组 ${groupName} 没有可用成员`
+        groups.push(groupName)
+      }
+      if (names.length === 0) continue
+      labels.push(`@${m.name}`)
+      for (const name of names) {
+        if (!targets.has(name)) targets.set(name, { agentName: name, ...(m.workspace ? { workspace: m.workspace } : {}) })
+      }
+    }
+    if (groups.length === 0 && targets.size < 2) return undefined
+    return { label: labels.join(" "), targets: [...targets.values()], groups }
+  }
+
+  // 任务创建且未被拒绝后才推进 round_robin 分组的轮转位置
+  function markGroupAssignments(groups: ReadonlyArray<string>, tasks: ReadonlyArray<TaskInfo | undefined>): void {
+    for (const task of tasks) {
+      if (!task || taskQueue.getTask(task.taskId)?.status === "rejected") continue
+      for (const group of groups) groupStore?.markAssigned(group, task.to)
+    }
+  }
+
+  // 扇出任务：创建父任务和每个目标的子任务，子任务各自走主人审批，结果汇总到一条消息
+  async function handleFanoutTask(params: {
+    readonly label: string
+    readonly targets: ReadonlyArray<FanoutTarget>
+    readonly content: string
+    readonly chatId: number
+    readonly messageId: number
+    readonly from: string
+    readonly senderId?: number
+    readonly senderUsername?: string
+    readonly priority?: TaskPriority
+    readonly safe?: boolean
+  }): Promise<ReadonlyArray<TaskInfo>> {
+    const { label, targets, content, chatId, messageId, from, senderId, senderUsername, priority, safe } = params
+    await addReaction(bot, chatId, messageId, "👀")
+    const { parent, children } = taskQueue.createFanout({ from, content, chatId, messageId, priority, safe }, label, targets)
+    const sent = await bot.api.sendMessage(chatId, renderFanoutSummary(parent, children), {
+      reply_to_message_id: messageId,
+      reply_markup: buildFanoutKeyboard(parent.taskId, children),
+    })
+    fanoutMessages.set(parent.taskId, { chatId, messageId: sent.message_id, viewingChild: false })
+    for (const child of children) {
+      await submitForApproval(child, senderId, senderUsername)
+    }
+    return children
+  }
+
   // /register 命令：注册 Agent 并获取 token（必须私聊）
   bot.command("register", async (ctx) => {
     if (ctx.chat.type !== "private") {
@@ -378,9 +949,18 @@ export function createBot(
     }
     const lines = agents.map((a) => {
       const status = agentStatusStore?.get(a.name)
-      const parts = [`- ${a.name} (${a.status})`]
+      const parts = [`- ${a.name} (${a.status})${a.daemonVersion ? ` v${a.daemonVersion}` : ""}`]
+      const protocolVersion = a.protocolVersion ?? LEGACY_PROTOCOL_VERSION
+      if (protocolVersion < PROTOCOL_VERSION) {
+        parts.push(`  ⚠️ daemon 版本过旧（协议 v${protocolVersion}，Hub v${PROTOCOL_VERSION}），部分功能不可用，请升级`)
+      }
+      if (a.workspaces && a.workspaces.length > 0) {
+        parts.push(`  工作区: ${a.workspaces.map((w) => `#${w}`).join(" ")}`)
+      }
+      const load = wsServer.getAgentLoad(a.name)
+      parts.push(`  槽位: ${load.inFlight}/${load.capacity}${load.queueDepth > 0 ? ` + daemon 排队 ${load.queueDepth}` : ""}${load.queued > 0 ? `，Hub 待分发 ${load.queued}` : ""}`)
       if (status) {
-        parts.push(`  任务: ${status.runningTasks} 运行中`)
+        parts.push(`  任务: ${status.runningTasks} 运行中${status.queuedTasks > 0 ? `，${status.queuedTasks} 排队中` : ""}${status.queueFull ? "（队列已满）" : ""}`)
         parts.push(`  已完成: ${status.totalCompleted}`)
         if (status.idleSince) {
           const idleMs = Date.now() - new Date(status.idleSince).getTime()
@@ -413,6 +993,11 @@ export function createBot(
       `任务: ${task.taskId}`,
       `目标: ${task.to}`,
       `状态: ${task.status}`,
+      ...(task.workspace ? [`工作区: ${task.workspace}`] : []),
+      ...(task.priority && task.priority !== "normal" ? [`优先级: ${PRIORITY_LABELS[task.priority]}`] : []),
+      ...(task.safe ? ["只读: 是（!safe）"] : []),
+      ...(task.pipelineId ? [`流水线: ${task.pipelineId.slice(0, 8)}`] : []),
+      ...(task.dependsOn?.length ? [`依赖: ${task.dependsOn.map((id) => id.slice(0, 8)).join(", ")}`] : []),
       `创建: ${task.createdAt}`,
       ...(task.result ? [`结果: ${task.result}`] : []),
       ...(task.completedAt ? [`完成: ${task.completedAt}`] : []),
@@ -432,7 +1017,7 @@ export function createBot(
       await ctx.reply(`未找到任务: ${taskId}`)
       return
     }
-    if (task.status !== "running" && task.status !== "approved" && task.status !== "awaiting_approval") {
+    if (task.status !== "running" && task.status !== "approved" && task.status !== "awaiting_approval" && task.status !== "blocked") {
       await ctx.reply(`任务状态为 ${task.status}，无法取消。`)
       return
     }
@@ -459,6 +1044,46 @@ export function createBot(
     }
   })
 
+  // 待分发队列视图（最多显示前 10 个，每个任务一行 ▲/▼ 按钮）
+  function buildQueueView(agentName: string): { readonly text: string; readonly keyboard?: InlineKeyboard } {
+    const queued = taskQueue.getPendingTasks(agentName)
+      .filter((t) => t.status === "approved" || t.status === "awaiting_approval" || t.status === "pending")
+    if (queued.length === 0) return { text: `${agentName} 的队列为空。` }
+
+    const shown = queued.slice(0, 10)
+    const lines = shown.map((t, i) => {
+      const preview = t.content.slice(0, 40) + (t.content.length > 40 ? "..." : "")
+      const waiting = t.status === "approved" ? "" : "（待审批）"
+      return `${i + 1}. ${PRIORITY_LABELS[t.priority ?? "normal"]} ${preview}${waiting}\n   ${t.taskId.slice(0, 8)} | ${t.from}`
+    })
+    const more = queued.length > shown.length ? [`…还有 ${queued.length - shown.length} 个任务`] : []
+    const keyboard = new InlineKeyboard()
+    shown.forEach((t, i) => {
+      if (i > 0) keyboard.text(`${i + 1} ▲`, `qmove:${t.taskId}:up`)
+      if (i < queued.length - 1) keyboard.text(`${i + 1} ▼`, `qmove:${t.taskId}:down`)
+      keyboard.row()
+    })
+    return {
+      text: [`📥 ${agentName} 待分发队列 (${queued.length}):`, "", ...lines, ...more].join("\n"),
+      keyboard: queued.length > 1 ? keyboard : undefined,
+    }
+  }
+
+  // /queue 命令：查看 Agent 的待分发队列，主人可用 ▲/▼ 调整顺序
+  bot.command("queue", async (ctx) => {
+    const agentName = ctx.match?.trim()
+    if (!agentName) {
+      await ctx.reply("用法: /queue <agent>")
+      return
+    }
+    if (!registry.getCredential(agentName)) {
+      await ctx.reply(`未找到 Agent: ${agentName}`)
+      return
+    }
+    const view = buildQueueView(agentName)
+    await ctx.reply(view.text, view.keyboard ? { reply_markup: view.keyboard } : {})
+  })
+
   // /sessions 命令：列出活跃对话
   bot.command("sessions", async (ctx) => {
     const conversations = taskQueue.getActiveConversations()
@@ -509,8 +1134,10 @@ export function createBot(
       approved: "⏳",
       awaiting_approval: "🔔",
       pending: "📋",
+      blocked: "⏸",
       rejected: "🚫",
       cancelled: "⛔",
+      expired: "⌛",
     }
 
     const lines = tasks.map((t) => {
@@ -524,103 +1151,603 @@ export function createBot(
     await ctx.reply(`${header}\n\n${lines.join("\n\n")}`)
   })
 
-  // Inline Mode：在任意聊天中 @bot agent_name 任务内容
-  bot.on("inline_query", async (ctx) => {
-    const query = ctx.inlineQuery.query.trim()
-    const agents = registry.listAgents()
-
-    // 解析：agent名 + 可选任务内容
-    const spaceIdx = query.indexOf(" ")
-    const agentQuery = query
-      ? (spaceIdx >= 0 ? query.slice(0, spaceIdx) : query).replace(/^@/, "")
-      : ""
-    const taskContent = spaceIdx >= 0 ? query.slice(spaceIdx + 1).trim() : ""
-    const matched = agentQuery
-      ? agents.filter((a) => a.name.toLowerCase().includes(agentQuery.toLowerCase()))
-      : agents
+  const SCHEDULE_USAGE = [
+    "用法: /schedule [tz=时区] <时间> @agent[#workspace] [!priority] 任务内容",
+    "时间格式:",
+    "- cron（分 时 日 月 周）: 0 9 * * 1-5",
+    "- 一次性: 2026-10-20 09:00 / 09:00 / +30m / +2h / +1d",
+  ].join("\n")
+
+  function describeSchedule(schedule: ScheduleRow): string {
+    return schedule.cron
+      ? `cron ${schedule.cron}`
+      : `一次性 ${schedule.runAt ? formatInTimeZone(schedule.runAt, schedule.timezone) : "-"}`
+  }
 
-    if (taskContent && matched.length > 0) {
-      // 有完整任务内容 → 点击直接发送任务
-      const results = matched.slice(0, 10).map((a, i) => ({
-        type: "article" as const,
-        id: String(i),
-        title: `发送给 ${a.name}: ${taskContent.slice(0, 50)}`,
-        description: "点击发送任务",
-        input_message_content: {
-          message_text: `@${a.name} ${taskContent}`,
-        },
-      }))
-      await ctx.answerInlineQuery(results, { cache_time: 10 })
+  // /schedule 命令：创建定时/周期任务，到期后与手动 @mention 一样走审批流程
+  bot.command("schedule", async (ctx) => {
+    if (!scheduler) {
+      await ctx.reply("定时任务未启用。")
+      return
+    }
+    const input = (ctx.match ?? "").trim()
+    // 第一个 @mention 之前是时间描述
+    const mentionAt = input.search(/(?:^|\s)@\w/)
+    const mention = mentionAt > 0 ? parseMention(input.slice(mentionAt).trim(), bot.botInfo?.username) : undefined
+    if (!mention) {
+      await ctx.reply(SCHEDULE_USAGE)
       return
     }
 
-    // 没有任务内容 → 显示 agent 列表供参考，每个 agent 带 inline 按钮跳转
-    const agentList = matched.slice(0, 10)
-    if (agentList.length === 0) {
-      await ctx.answerInlineQuery([{
-        type: "article" as const,
-        id: "0",
-        title: "没有匹配的 Agent",
-        description: "当前没有在线的 Agent",
-        input_message_content: { message_text: "当前没有在线的 Agent" },
-      }], { cache_time: 10 })
+    let when = input.slice(0, mentionAt).trim()
+    const tzMatch = when.match(/(?:^|\s)tz=(\S+)/)
+    if (tzMatch) when = when.replace(tzMatch[0], "").trim()
+    const timezone = tzMatch?.[1] ?? scheduler.getChatTimezone(ctx.chat.id)
+    if (!isValidTimeZone(timezone)) {
+      await ctx.reply(`无效的时区: ${timezone}（IANA 时区，如 Asia/Shanghai）`)
+      return
+    }
+    const spec = parseScheduleSpec(when, timezone)
+    if (typeof spec === "string") {
+      await ctx.reply(`${spec}\n\n${SCHEDULE_USAGE}`)
+      return
+    }
+    if (!registry.getCredential(mention.agentName)) {
+      await ctx.reply(`未找到 Agent: ${mention.agentName}`)
       return
     }
 
-    const results = agentList.map((a, i) => ({
-      type: "article" as const,
-      id: String(i),
-      title: `${a.name} (${a.status})`,
-      description: `格式: ${a.name} 你的任务内容`,
-      input_message_content: {
-        message_text: `在线 Agent: ${agentList.map((x) => x.name).join(", ")}\n\n用法: @agent名 任务内容\n示例: @${agentList[0].name} 写一首诗`,
-      },
-      reply_markup: {
-        inline_keyboard: [[{
-          text: `📝 给 ${a.name} 发任务`,
-          switch_inline_query_current_chat: `${a.name} `,
-        }]],
-      },
-    }))
-    await ctx.answerInlineQuery(results, { cache_time: 10 })
+    const schedule = scheduler.create({
+      agentName: mention.agentName,
+      content: mention.content,
+      workspace: mention.workspace,
+      priority: mention.priority,
+      spec,
+      timezone,
+      chatId: ctx.chat.id,
+      createdBy: ctx.from?.username ?? ctx.from?.first_name ?? "unknown",
+      creatorTelegramId: ctx.from?.id,
+      creatorUsername: ctx.from?.username,
+    })
+    if (typeof schedule === "string") {
+      await ctx.reply(schedule)
+      return
+    }
+    const nextRun = schedule.nextRunAt ? formatInTimeZone(schedule.nextRunAt, timezone) : "-"
+    await ctx.reply([
+      `⏰ 已创建定时任务 ${schedule.scheduleId.slice(0, 8)}`,
+      `目标: ${mention.workspace ? `${mention.agentName}#${mention.workspace}` : mention.agentName}`,
+      `时间: ${describeSchedule(schedule)} (${timezone})`,
+      `下次执行: ${nextRun}`,
+    ].join("\n"))
   })
 
-  // 监听普通文本消息，解析 @mention 或多轮对话回复
-  bot.on("message:text", async (ctx) => {
-    if (ctx.chat.type === "group" || ctx.chat.type === "supergroup") {
-      activeChatIds.add(ctx.chat.id)
+  // /schedules 命令：列出本群的定时任务，创建者或 Agent 主人可暂停/恢复/删除
+  bot.command("schedules", async (ctx) => {
+    if (!scheduler) {
+      await ctx.reply("定时任务未启用。")
+      return
     }
-    const text = ctx.message.text
-    const chatId = ctx.chat.id
-    const messageId = ctx.message.message_id
-    const from = ctx.from?.username ?? ctx.from?.first_name ?? "unknown"
+    const [action = "list", id] = (ctx.match ?? "").trim().split(/\s+/).filter(Boolean)
 
-    // 多轮对话：检查是否是回复任务结果消息
-    const replyToMsg = ctx.message.reply_to_message
-    if (replyToMsg) {
-      const parentTask = taskQueue.findTaskByResultMessageId(replyToMsg.message_id)
-      if (parentTask && parentTask.conversationId) {
-        // 检查对话是否已结束
-        if (taskQueue.isConversationClosed(parentTask.conversationId)) {
-          await ctx.reply("该对话已结束，请发新任务开始新对话。", {
-            reply_to_message_id: messageId,
-          })
-          return
-        }
+    if (action === "list") {
+      const schedules = scheduler.list({ chatId: ctx.chat.id })
+      if (schedules.length === 0) {
+        await ctx.reply("本群没有定时任务。")
+        return
+      }
+      const lines = schedules.map((s) => {
+        const target = s.workspace ? `${s.agentName}#${s.workspace}` : s.agentName
+        const preview = s.content.slice(0, 40) + (s.content.length > 40 ? "..." : "")
+        const nextRun = s.paused ? "已暂停" : `下次 ${s.nextRunAt ? formatInTimeZone(s.nextRunAt, s.timezone) : "-"}`
+        return `${s.paused ? "⏸" : "⏰"} ${s.scheduleId.slice(0, 8)} ${target}: ${preview}\n   ${describeSchedule(s)} | ${nextRun}`
+      })
+      await ctx.reply(`⏰ 定时任务 (${schedules.length}):\n\n${lines.join("\n\n")}`)
+      return
+    }
+
+    if (!["pause", "resume", "delete"].includes(action) || !id) {
+      await ctx.reply("用法: /schedules [list] | pause <id> | resume <id> | delete <id>")
+      return
+    }
+    const schedule = scheduler.find(id)
+    // API 创建的定时任务（chatId 为 0）可在任意聊天中由 Agent 主人管理
+    if (!schedule || (schedule.chatId !== 0 && schedule.chatId !== ctx.chat.id)) {
+      await ctx.reply(`未找到定时任务: ${id}`)
+      return
+    }
+    const userId = ctx.from?.id
+    const isCreator = userId !== undefined && schedule.creatorTelegramId === userId
+    if (!isCreator && registry.getTelegramUserId(schedule.agentName) !== userId) {
+      await ctx.reply("只有创建者或 Agent 主人可以管理该定时任务。")
+      return
+    }
+
+    const shortId = schedule.scheduleId.slice(0, 8)
+    if (action === "delete") {
+      scheduler.remove(schedule.scheduleId)
+      await ctx.reply(`🗑 已删除定时任务 ${shortId}`)
+      return
+    }
+    const updated = scheduler.setPaused(schedule.scheduleId, action === "pause")
+    if (action === "pause") {
+      await ctx.reply(`⏸ 已暂停定时任务 ${shortId}`)
+      return
+    }
+    const nextRun = updated?.nextRunAt ? formatInTimeZone(updated.nextRunAt, updated.timezone) : "-"
+    await ctx.reply(`▶️ 已恢复定时任务 ${shortId}\n下次执行: ${nextRun}`)
+  })
+
+  const GROUP_USAGE = [
+    "用法:",
+    "/group create <名称> [broadcast|any|round_robin] <agent...>",
+    "/group add <名称> <agent...>",
+    "/group remove <名称> [agent...]（不填 agent 时删除分组）",
+    "/group list",
+  ].join("\n")
+
+  // /group 命令：管理 Agent 分组，@分组名 按路由模式分发任务
+  bot.command("group", async (ctx) => {
+    if (!groupStore) {
+      await ctx.reply("分组功能未启用。")
+      return
+    }
+    const [action = "list", name, ...rest] = (ctx.match ?? "").trim().split(/\s+/).filter(Boolean)
+
+    if (action === "list") {
+      const groups = groupStore.list()
+      if (groups.length === 0) {
+        await ctx.reply("还没有分组。\n\n" + GROUP_USAGE)
+        return
+      }
+      const lines = groups.map((g) => {
+        const members = g.members.map((m) => `${m}${registry.isOnline(m) ? "🟢" : "⚪"}`).join(", ")
+        return `👥 ${g.name} [${GROUP_MODE_LABELS[g.mode]}]: ${members || "(无成员)"}`
+      })
+      await ctx.reply(`分组 (${groups.length}):\n${lines.join("\n")}`)
+      return
+    }
+
+    const userId = ctx.from?.id
+    if (!name || !userId || !["create", "add", "remove"].includes(action)) {
+      await ctx.reply(GROUP_USAGE)
+      return
+    }
+
+    if (action === "create") {
+      const mode: GroupMode = isGroupMode(rest[0]) ? rest[0] : "broadcast"
+      const agents = isGroupMode(rest[0]) ? rest.slice(1) : rest
+      const unknown = agents.filter((a) => !registry.getCredential(a))
+      if (unknown.length > 0) {
+        await ctx.reply(`未找到 Agent: ${unknown.join(", ")}`)
+        return
+      }
+      const group = groupStore.create(name, mode, agents, userId)
+      if (typeof group === "string") {
+        await ctx.reply(group)
+        return
+      }
+      await ctx.reply(`👥 已创建分组 ${group.name} [${GROUP_MODE_LABELS[group.mode]}]\n成员: ${group.members.join(", ") || "(无)"}\n用 @${group.name} 派发任务`)
+      return
+    }
+
+    const group = groupStore.get(name)
+    if (!group) {
+      await ctx.reply(`未找到分组: ${name}`)
+      return
+    }
+    if (group.createdBy !== userId) {
+      await ctx.reply("只有分组创建者可以修改分组。")
+      return
+    }
+
+    if (action === "add") {
+      const unknown = rest.filter((a) => !registry.getCredential(a))
+      if (rest.length === 0 || unknown.length > 0) {
+        await ctx.reply(rest.length === 0 ? GROUP_USAGE : `未找到 Agent: ${unknown.join(", ")}`)
+        return
+      }
+      const updated = groupStore.addMembers(name, rest)
+      await ctx.reply(`👥 ${name} 成员: ${updated?.members.join(", ")}`)
+      return
+    }
+
+    if (rest.length === 0) {
+      groupStore.remove(name)
+      await ctx.reply(`🗑 已删除分组 ${name}`)
+      return
+    }
+    const updated = groupStore.removeMembers(name, rest)
+    await ctx.reply(`👥 ${name} 成员: ${updated?.members.join(", ") || "(无)"}`)
+  })
+
+  const ACL_USAGE = [
+    "用法:",
+    "/acl <agent> list",
+    "/acl <agent> allow|deny|readonly <主体...>",
+    "/acl <agent> remove <主体...>",
+    "主体: Telegram 数字 ID、@username 或 agent:<name>（MCP / API 调用方）",
+    "allow 免审批，deny 直接拒绝，readonly 只能提交 !safe 任务（仍需审批）",
+  ].join("\n")
+
+  const ACL_KIND_LABELS: Record<AclKind, string> = {
+    allow: "✅ 免审批",
+    deny: "🚫 拒绝",
+    readonly: "👁 只读",
+  }
+
+  // /acl 命令：Agent 主人管理访问控制规则
+  bot.command("acl", async (ctx) => {
+    if (!aclStore) {
+      await ctx.reply("ACL 功能未启用。")
+      return
+    }
+    const [agentName, action = "list", ...subjects] = (ctx.match ?? "").trim().split(/\s+/).filter(Boolean)
+    if (!agentName) {
+      await ctx.reply(ACL_USAGE)
+      return
+    }
+    const ownerTelegramId = registry.getTelegramUserId(agentName)
+    if (!ownerTelegramId) {
+      await ctx.reply(`未找到 Agent: ${agentName}`)
+      return
+    }
+    const userId = ctx.from?.id
+    if (userId !== ownerTelegramId) {
+      await ctx.reply("只有 Agent 主人可以管理 ACL。")
+      return
+    }
+
+    if (action === "list") {
+      const rules = aclStore.list(agentName)
+      if (rules.length === 0) {
+        await ctx.reply(`${agentName} 没有 ACL 规则，非主人的任务都需要审批。\n\n${ACL_USAGE}`)
+        return
+      }
+      const lines = rules.map((r) => `${ACL_KIND_LABELS[r.kind]}  ${r.subject}`)
+      await ctx.reply(`🔐 ${agentName} 的 ACL (${rules.length}):\n${lines.join("\n")}`)
+      return
+    }
+
+    if (action === "remove" && subjects.length > 0) {
+      const removed = subjects.filter((subject) => aclStore.remove(agentName, subject))
+      await ctx.reply(removed.length > 0 ? `🗑 已删除规则: ${removed.join(", ")}` : "没有匹配的规则。")
+      return
+    }
+
+    if (!isAclKind(action) || subjects.length === 0) {
+      await ctx.reply(ACL_USAGE)
+      return
+    }
+
+    const results = subjects.map((subject) => aclStore.set(agentName, subject, action, userId))
+    const errors = results.filter((r): r is string => typeof r === "string")
+    const saved = results.filter((r): r is AgentAclRow => typeof r !== "string")
+    const lines = [
+      ...(saved.length > 0 ? [`🔐 ${agentName}: ${ACL_KIND_LABELS[action]} ${saved.map((r) => r.subject).join(", ")}`] : []),
+      ...errors,
+    ]
+    await ctx.reply(lines.join("\n"))
+  })
+
+  const APPROVERS_USAGE = [
+    "用法:",
+    "/approvers <agent>（查看）",
+    "/approvers <agent> add|remove <审批人...>",
+    "/approvers <agent> quorum <N>（需要 N 人批准，主人也算一人）",
+    "/approvers <agent> ttl <30m|12h|3d|off|default>（审批有效期，过期自动作废）",
+    "审批人: Telegram 数字 ID（会收到私聊审批）或 @username（在群里审批）",
+  ].join("\n")
+
+  // /approvers 命令：Agent 主人指定代理审批人和所需批准人数
+  bot.command("approvers", async (ctx) => {
+    if (!approverStore) {
+      await ctx.reply("代理审批功能未启用。")
+      return
+    }
+    const [agentName, action, ...args] = (ctx.match ?? "").trim().split(/\s+/).filter(Boolean)
+    if (!agentName) {
+      await ctx.reply(APPROVERS_USAGE)
+      return
+    }
+    const ownerTelegramId = registry.getTelegramUserId(agentName)
+    if (!ownerTelegramId) {
+      await ctx.reply(`未找到 Agent: ${agentName}`)
+      return
+    }
+    const userId = ctx.from?.id
+    if (userId !== ownerTelegramId) {
+      await ctx.reply("只有 Agent 主人可以设置审批人。")
+      return
+    }
+
+    let result: AgentApproversRow | string | undefined = approverStore.get(agentName)
+    if (action === "add" && args.length > 0) {
+      result = approverStore.addApprovers(agentName, args, userId)
+    } else if (action === "remove" && args.length > 0) {
+      result = approverStore.removeApprovers(agentName, args, userId)
+    } else if (action === "quorum" && args.length === 1) {
+      result = approverStore.setQuorum(agentName, Number(args[0]), userId)
+    } else if (action === "ttl" && args.length === 1) {
+      const minutes = args[0] === "default" ? undefined : parseApprovalTtl(args[0])
+      if (args[0] !== "default" && minutes === undefined) {
+        await ctx.reply("无效的有效期，示例: 30m、12h、3d（最长 30 天），off 为不过期，default 恢复默认")
+        return
+      }
+      result = approverStore.setApprovalTtl(agentName, minutes, userId)
+    } else if (action !== undefined) {
+      await ctx.reply(APPROVERS_USAGE)
+      return
+    }
+    if (typeof result === "string") {
+      await ctx.reply(result)
+      return
+    }
+
+    const approvers = result?.approvers ?? []
+    const quorum = result?.quorum ?? 1
+    const ttlMs = approverStore.approvalTtlMs(agentName)
+    const ttl = ttlMs !== undefined ? formatApprovalTtl(ttlMs / 60_000) : formatApprovalTtl(0)
+    await ctx.reply([
+      `🛂 ${agentName} 的审批设置`,
+      `代理审批人: ${approvers.join(", ") || "(无)"}`,
+      `所需批准: ${quorum}/${approvers.length + 1}（含主人）`,
+      `审批有效期: ${ttl}${result?.approvalTtlMinutes === undefined ? "（默认）" : ""}`,
+    ].join("\n"))
+  })
+
+  const RULES_USAGE = [
+    "用法:",
+    "/rules <agent>（查看）",
+    "/rules <agent> approve|reject [from=<请求方>] [attach=yes|no] [time=09:00-18:00] [tz=<时区>] [正则]",
+    "/rules <agent> remove <规则 ID>",
+    "正则匹配任务内容（不区分大小写），所有条件同时满足时规则生效；reject 规则优先于 approve",
+    "",
+    "示例:",
+    "/rules ember approve from=@lily ^(review|lint)",
+    "/rules ember reject rm -rf|drop table",
+    "/rules ember reject attach=yes time=22:00-08:00",
+  ].join("\n")
+
+  const POLICY_ACTION_LABELS: Record<PolicyAction, string> = {
+    approve: "✅ 自动批准",
+    reject: "🚫 自动拒绝",
+  }
+
+  // /rules 命令：Agent 主人管理自动审批规则
+  bot.command("rules", async (ctx) => {
+    if (!ruleStore) {
+      await ctx.reply("自动审批规则功能未启用。")
+      return
+    }
+    const [agentName, action = "list", ...args] = (ctx.match ?? "").trim().split(/\s+/).filter(Boolean)
+    if (!agentName) {
+      await ctx.reply(RULES_USAGE)
+      return
+    }
+    const ownerTelegramId = registry.getTelegramUserId(agentName)
+    if (!ownerTelegramId) {
+      await ctx.reply(`未找到 Agent: ${agentName}`)
+      return
+    }
+    const userId = ctx.from?.id
+    if (userId !== ownerTelegramId) {
+      await ctx.reply("只有 Agent 主人可以管理自动审批规则。")
+      return
+    }
+
+    if (action === "list") {
+      const rules = ruleStore.list(agentName)
+      if (rules.length === 0) {
+        await ctx.reply(`${agentName} 没有自动审批规则。\n\n${RULES_USAGE}`)
+        return
+      }
+      const lines = rules.map((r) => `${shortRuleId(r.ruleId)}  ${POLICY_ACTION_LABELS[r.action]}  ${describeRule(r)}`)
+      await ctx.reply(`📐 ${agentName} 的自动审批规则 (${rules.length}):\n${lines.join("\n")}`)
+      return
+    }
+
+    if (action === "remove" && args.length === 1) {
+      const removed = ruleStore.remove(agentName, args[0])
+      await ctx.reply(removed ? `🗑 已删除规则 ${shortRuleId(removed.ruleId)}` : "没有匹配的规则（ID 前缀需唯一）。")
+      return
+    }
+
+    if (!isPolicyAction(action) || args.length === 0) {
+      await ctx.reply(RULES_USAGE)
+      return
+    }
+
+    const spec = parseRuleSpec(action, args)
+    const result = typeof spec === "string" ? spec : ruleStore.add(agentName, spec, userId)
+    if (typeof result === "string") {
+      await ctx.reply(result)
+      return
+    }
+    await ctx.reply(`📐 ${agentName}: 已添加规则 ${shortRuleId(result.ruleId)}  ${POLICY_ACTION_LABELS[result.action]}  ${describeRule(result)}`)
+  })
+
+  const PIPELINE_USAGE = [
+    "用法: /pipeline 后每行一个步骤",
+    "[依赖] @agent[#workspace] [!priority] 任务内容",
+    "依赖写作 [1,2]（步骤序号），[] 表示无依赖，省略时依赖上一步",
+    "",
+    "示例:",
+    "/pipeline",
+    "@ember 实现用户列表 API",
+    "@lily 基于上面的 API 写客户端",
+    "@qa review 以上改动",
+  ].join("\n")
+
+  // /pipeline 命令：多步骤流水线，上游完成后把结果注入下游任务
+  bot.command("pipeline", async (ctx) => {
+    const steps = parsePipelineSteps(ctx.match ?? "", bot.botInfo?.username)
+    if (typeof steps === "string") {
+      await ctx.reply(`${steps}\n\n${PIPELINE_USAGE}`)
+      return
+    }
+    const unknown = steps.find((step) => !registry.getCredential(step.agentName))
+    if (unknown) {
+      await ctx.reply(`未找到 Agent: ${unknown.agentName}`)
+      return
+    }
+
+    const senderId = ctx.from?.id
+    const senderUsername = ctx.from?.username
+    // 任一步骤被 ACL 拒绝时不创建流水线（Agent 主人不受 ACL 限制）
+    for (const step of steps) {
+      if (senderId !== undefined && senderId === registry.getTelegramUserId(step.agentName)) continue
+      const acl = aclStore?.evaluate(step.agentName, { telegramId: senderId, username: senderUsername }, step.safe === true)
+      if (acl?.decision === "reject") {
+        await ctx.reply(`🚫 ${acl.reason}`)
+        return
+      }
+    }
+    const pipeline = createPipeline(taskQueue, {
+      steps,
+      from: ctx.from?.username ?? ctx.from?.first_name ?? "unknown",
+      chatId: ctx.chat.id,
+      messageId: ctx.msg.message_id,
+      requesterTelegramId: senderId,
+      requesterUsername: senderUsername,
+    })
+    const sent = await ctx.reply(renderPipeline(pipeline.pipelineId, pipeline.tasks))
+    pipelineMessages.set(pipeline.pipelineId, { chatId: ctx.chat.id, messageId: sent.message_id })
+    for (const task of pipeline.tasks) {
+      if (task.status === "pending") await submitForApproval(task, senderId, senderUsername)
+    }
+  })
+
+  // Inline Mode：在任意聊天中 @bot agent_name 任务内容
+  bot.on("inline_query", async (ctx) => {
+    const query = ctx.inlineQuery.query.trim()
+    const agents = registry.listAgents()
+
+    // 解析：agent名[#工作区] + 可选任务内容
+    const spaceIdx = query.indexOf(" ")
+    const targetQuery = query
+      ? (spaceIdx >= 0 ? query.slice(0, spaceIdx) : query).replace(/^@/, "")
+      : ""
+    const [agentQuery, workspaceQuery] = targetQuery.split("#", 2)
+    const taskContent = spaceIdx >= 0 ? query.slice(spaceIdx + 1).trim() : ""
+    const matched = agentQuery
+      ? agents.filter((a) => a.name.toLowerCase().includes(agentQuery.toLowerCase()))
+      : agents
+
+    if (taskContent && matched.length > 0) {
+      // 有完整任务内容 → 点击直接发送任务
+      const results = matched.slice(0, 10).map((a, i) => {
+        const target = workspaceQuery ? `${a.name}#${workspaceQuery}` : a.name
+        return {
+          type: "article" as const,
+          id: String(i),
+          title: `发送给 ${target}: ${taskContent.slice(0, 50)}`,
+          description: "点击发送任务",
+          input_message_content: {
+            message_text: `@${target} ${taskContent}`,
+          },
+        }
+      })
+      await ctx.answerInlineQuery(results, { cache_time: 10 })
+      return
+    }
+
+    // 没有任务内容 → 显示 agent 列表供参考，每个 agent 带 inline 按钮跳转
+    const agentList = matched.slice(0, 10)
+    if (agentList.length === 0) {
+      await ctx.answerInlineQuery([{
+        type: "article" as const,
+        id: "0",
+        title: "没有匹配的 Agent",
+        description: "当前没有在线的 Agent",
+        input_message_content: { message_text: "当前没有在线的 Agent" },
+      }], { cache_time: 10 })
+      return
+    }
+
+    const results = agentList.map((a, i) => {
+      const workspaces = a.workspaces ?? []
+      return {
+        type: "article" as const,
+        id: String(i),
+        title: `${a.name} (${a.status})`,
+        description: workspaces.length > 0
+          ? `工作区: ${workspaces.map((w) => `#${w}`).join(" ")}`
+          : `格式: ${a.name} 你的任务内容`,
+        input_message_content: {
+          message_text: `在线 Agent: ${agentList.map((x) => x.name).join(", ")}\n\n用法: @agent名[#工作区] 任务内容\n示例: @${agentList[0].name} 写一首诗`,
+        },
+        reply_markup: {
+          // 每个工作区一个按钮（最多 8 个），外加默认工作区
+          inline_keyboard: [
+            [{
+              text: `📝 给 ${a.name} 发任务`,
+              switch_inline_query_current_chat: `${a.name} `,
+            }],
+            ...workspaces.slice(0, 8).map((w) => [{
+              text: `📂 ${a.name}#${w}`,
+              switch_inline_query_current_chat: `${a.name}#${w} `,
+            }]),
+          ],
+        },
+      }
+    })
+    await ctx.answerInlineQuery(results, { cache_time: 10 })
+  })
+
+  // 监听普通文本消息，解析 @mention 或多轮对话回复
+  bot.on("message:text", async (ctx) => {
+    if (ctx.chat.type === "group" || ctx.chat.type === "supergroup") {
+      activeChatIds.add(ctx.chat.id)
+    }
+    const text = ctx.message.text
+    const chatId = ctx.chat.id
+    const messageId = ctx.message.message_id
+    const from = ctx.from?.username ?? ctx.from?.first_name ?? "unknown"
+
+    // 多轮对话：检查是否是回复任务结果消息
+    const replyToMsg = ctx.message.reply_to_message
+    const amendKey = replyToMsg ? `${chatId}:${replyToMsg.message_id}` : undefined
+    const amendPrompt = amendKey ? amendPrompts.get(amendKey) : undefined
+    if (amendKey && amendPrompt && ctx.from?.id === amendPrompt.userId) {
+      amendPrompts.delete(amendKey)
+      await handleAmendReply(amendPrompt, text.trim(), {
+        id: ctx.from.id,
+        username: ctx.from.username,
+        name: ctx.from.username ? `@${ctx.from.username}` : ctx.from.first_name,
+      }, { chatId, messageId })
+      return
+    }
+    if (replyToMsg) {
+      const parentTask = taskQueue.findTaskByResultMessageId(replyToMsg.message_id)
+      if (parentTask && parentTask.conversationId) {
+        // 检查对话是否已结束
+        if (taskQueue.isConversationClosed(parentTask.conversationId)) {
+          await ctx.reply("该对话已结束，请发新任务开始新对话。", {
+            reply_to_message_id: messageId,
+          })
+          return
+        }
 
         // 所有权检查：与 handleNewTask 保持一致
         const senderId = ctx.from?.id
         const ownerTelegramId = registry.getTelegramUserId(parentTask.to)
+        // 回复内容同样可以带 !priority / !safe 前缀；只读标记只看本条消息，不继承上一轮
+        const turn = buildMention(parentTask.to, parentTask.workspace, text)
 
         if (ownerTelegramId && senderId !== ownerTelegramId) {
           // 非主人：走审批流程而不是自动批准
           await handleNewTask({
             agentName: parentTask.to,
-            content: text,
+            content: turn.content,
             chatId,
             messageId,
             from,
             senderId,
+            senderUsername: ctx.from?.username,
+            workspace: parentTask.workspace,
+            priority: turn.priority ?? parentTask.priority,
+            safe: turn.safe,
           })
           return
         }
@@ -632,26 +1759,27 @@ export function createBot(
         const task = taskQueue.createTask({
           from,
           to: parentTask.to,
-          content: text,
+          content: turn.content,
           chatId,
           messageId,
           conversationId: parentTask.conversationId,
           parentTaskId: parentTask.taskId,
+          workspace: parentTask.workspace,
+          priority: turn.priority ?? parentTask.priority,
+          safe: turn.safe,
         })
 
         taskQueue.updateStatus(task.taskId, "approved")
 
-        if (registry.isOnline(parentTask.to)) {
-          const sent = dispatchTaskToAgent(task, parentTask.to, wsServer, taskQueue)
-          if (sent) {
-            await addReaction(bot, chatId, messageId, "👀")
-            initProgress(task.taskId, chatId, messageId)
-            await ctx.reply(`💬 对话 #${turnCount} → ${parentTask.to}\nID: ${task.taskId}`, {
-              reply_to_message_id: messageId,
-            })
-          }
+        const sent = registry.isOnline(parentTask.to) && dispatchTaskToAgent(task, parentTask.to, wsServer)
+        if (sent) {
+          await addReaction(bot, chatId, messageId, "👀")
+          initProgress(task.taskId, chatId, messageId)
+          await ctx.reply(`💬 对话 #${turnCount} → ${parentTask.to}\nID: ${task.taskId}`, {
+            reply_to_message_id: messageId,
+          })
         } else {
-          await ctx.reply(`${parentTask.to} 离线，任务已排队等待。\nID: ${task.taskId}`, {
+          await ctx.reply(`${undispatchedReason(parentTask.to)}，任务已排队等待。\nID: ${task.taskId}`, {
             reply_to_message_id: messageId,
           })
         }
@@ -659,6 +1787,47 @@ export function createBot(
       }
     }
 
+    // 多目标 @mention：扇出到多个 Agent
+    const fanoutMention = parseFanoutMention(text, bot.botInfo?.username)
+    const fanout = fanoutMention ? resolveFanoutTargets(fanoutMention.mentions) : undefined
+    if (typeof fanout === "string") {
+      await ctx.reply(fanout, { reply_to_message_id: messageId })
+      return
+    }
+    // 分组按 any / round_robin 路由到单个成员时按普通任务处理
+    if (fanout && fanoutMention && fanout.targets.length === 1) {
+      const task = await handleNewTask({
+        agentName: fanout.targets[0].agentName,
+        content: fanoutMention.content,
+        chatId,
+        messageId,
+        from,
+        senderId: ctx.from?.id,
+        senderUsername: ctx.from?.username,
+        workspace: fanout.targets[0].workspace,
+        priority: fanoutMention.priority,
+        safe: fanoutMention.safe,
+      })
+      markGroupAssignments(fanout.groups, [task])
+      return
+    }
+    if (fanout && fanoutMention) {
+      const children = await handleFanoutTask({
+        label: fanout.label,
+        targets: fanout.targets,
+        content: fanoutMention.content,
+        chatId,
+        messageId,
+        from,
+        senderId: ctx.from?.id,
+        senderUsername: ctx.from?.username,
+        priority: fanoutMention.priority,
+        safe: fanoutMention.safe,
+      })
+      markGroupAssignments(fanout.groups, children)
+      return
+    }
+
     // 普通 @mention 消息
     const mention = parseMention(text, bot.botInfo?.username)
     if (!mention) return
@@ -673,6 +1842,10 @@ export function createBot(
       messageId,
       from,
       senderId: ctx.from?.id,
+      senderUsername: ctx.from?.username,
+      workspace: mention.workspace,
+      priority: mention.priority,
+      safe: mention.safe,
     })
   })
 
@@ -716,7 +1889,11 @@ export function createBot(
       messageId,
       from,
       senderId: ctx.from?.id,
+      senderUsername: ctx.from?.username,
       attachments: [attachment],
+      workspace: mention.workspace,
+      priority: mention.priority,
+      safe: mention.safe,
     })
   })
 
@@ -758,7 +1935,11 @@ export function createBot(
       messageId,
       from,
       senderId: ctx.from?.id,
+      senderUsername: ctx.from?.username,
       attachments: [attachment],
+      workspace: mention.workspace,
+      priority: mention.priority,
+      safe: mention.safe,
     })
   })
 
@@ -772,6 +1953,15 @@ export function createBot(
       const parts = data.split(":")
       const taskId = parts[1]
       const pageIndex = parseInt(parts[2], 10)
+      const task = taskQueue.getTask(taskId)
+      // 分页缓存过期时，从结果存档重新分页
+      if (paginator.getTotalPages(taskId) === 0 && task) {
+        const artifact = await taskQueue.getArtifact(taskId)
+        if (artifact !== undefined) {
+          const formatted = formatResult(task.to, artifact, task.status === "completed" ? "success" : "error")
+          paginator.paginate(taskId, formatted.text, formatted.entities)
+        }
+      }
       const totalPages = paginator.getTotalPages(taskId)
       const pageContent = paginator.getPage(taskId, pageIndex)
 
@@ -780,10 +1970,9 @@ export function createBot(
         return
       }
 
-      const task = taskQueue.getTask(taskId)
       const conversationId = task?.conversationId
       const pageInfo = `\n\n📄 第 ${pageIndex + 1}/${totalPages} 页`
-      const keyboard = buildResultKeyboard(taskId, pageIndex, totalPages, conversationId)
+      const keyboard = buildResultKeyboard(taskId, pageIndex, totalPages, conversationId, canRetry(task))
 
       try {
         await ctx.editMessageText(pageContent.text + pageInfo, {
@@ -795,6 +1984,66 @@ export function createBot(
       return
     }
 
+    // 扇出汇总：查看单个 Agent 的结果（分页）
+    if (data.startsWith("fview:")) {
+      const [, parentTaskId, indexStr, pageStr] = data.split(":")
+      const child = taskQueue.getFanoutChildren(parentTaskId)[parseInt(indexStr, 10)]
+      const pageIndex = parseInt(pageStr, 10)
+      if (!child || isNaN(pageIndex)) {
+        await ctx.answerCallbackQuery({ text: "页面已过期" })
+        return
+      }
+      if (!child.completedAt) {
+        await ctx.answerCallbackQuery({ text: `${child.to} 尚未返回结果` })
+        return
+      }
+      if (paginator.getTotalPages(child.taskId) === 0) {
+        const result = (await taskQueue.getArtifact(child.taskId)) ?? child.result ?? `(${child.status})`
+        const formatted = formatResult(child.to, result, child.status === "completed" ? "success" : "error")
+        paginator.paginate(child.taskId, formatted.text, formatted.entities)
+      }
+      const totalPages = paginator.getTotalPages(child.taskId)
+      const pageContent = paginator.getPage(child.taskId, pageIndex)
+      if (!pageContent) {
+        await ctx.answerCallbackQuery({ text: "页面已过期" })
+        return
+      }
+      const keyboard = new InlineKeyboard()
+      if (pageIndex > 0) keyboard.text("◀ 上一页", `fview:${parentTaskId}:${indexStr}:${pageIndex - 1}`)
+      if (pageIndex < totalPages - 1) keyboard.text("▶ 下一页", `fview:${parentTaskId}:${indexStr}:${pageIndex + 1}`)
+      keyboard.row().text("⬅ 返回汇总", `fsum:${parentTaskId}`)
+      const entry = fanoutMessages.get(parentTaskId)
+      if (entry) entry.viewingChild = true
+      const pageInfo = totalPages > 1 ? `\n\n📄 第 ${pageIndex + 1}/${totalPages} 页` : ""
+      try {
+        await ctx.editMessageText(pageContent.text + pageInfo, {
+          entities: pageContent.entities as Parameters<typeof ctx.editMessageText>[1] extends { entities?: infer E } ? E : never,
+          reply_markup: keyboard,
+        })
+      } catch { /* ignore */ }
+      await ctx.answerCallbackQuery()
+      return
+    }
+
+    if (data.startsWith("fsum:")) {
+      const parentTaskId = data.slice("fsum:".length)
+      const parent = taskQueue.getTask(parentTaskId)
+      if (!parent) {
+        await ctx.answerCallbackQuery({ text: "页面已过期" })
+        return
+      }
+      const entry = fanoutMessages.get(parentTaskId)
+      if (entry) entry.viewingChild = false
+      const children = taskQueue.getFanoutChildren(parentTaskId)
+      try {
+        await ctx.editMessageText(renderFanoutSummary(parent, children), {
+          reply_markup: buildFanoutKeyboard(parentTaskId, children),
+        })
+      } catch { /* ignore */ }
+      await ctx.answerCallbackQuery()
+      return
+    }
+
     if (data.startsWith("approve:")) {
       const taskId = data.slice("approve:".length)
       const task = taskQueue.getTask(taskId)
@@ -803,37 +2052,82 @@ export function createBot(
         return
       }
 
+      if (task.status === "expired") {
+        await ctx.answerCallbackQuery({ text: "⌛ 审批已过期" })
+        try { await ctx.editMessageText(expiredApprovalText(task)) } catch { /* ignore */ }
+        return
+      }
       if (task.status !== "awaiting_approval") {
         await ctx.answerCallbackQuery({ text: `任务已处理: ${task.status}` })
         return
       }
 
-      const ownerTelegramId = registry.getTelegramUserId(task.to)
-      if (ownerTelegramId && ownerTelegramId !== userId) {
-        await ctx.answerCallbackQuery({ text: "只有 Agent 主人可以审批" })
+      if (!canApprove(task.to, { id: userId, username: ctx.from.username })) {
+        await ctx.answerCallbackQuery({ text: "只有 Agent 主人或审批人可以审批" })
+        return
+      }
+      if (task.approvals?.some((a) => a.userId === userId)) {
+        await ctx.answerCallbackQuery({ text: "你已经批准过了" })
         return
       }
 
-      taskQueue.updateStatus(taskId, "approved")
-      await ctx.answerCallbackQuery({ text: "✅ 已批准" })
-      await ctx.editMessageText(`✅ 任务已批准 (${task.to})\nID: ${taskId}`)
+      const message = ctx.callbackQuery.message
+      const { approved, quorum } = await recordApproval(task, {
+        userId,
+        name: ctx.from.username ? `@${ctx.from.username}` : ctx.from.first_name,
+        approvedAt: new Date().toISOString(),
+      }, message ? { chatId: message.chat.id, messageId: message.message_id, text: message.text ?? "" } : undefined)
+      await ctx.answerCallbackQuery({ text: approved < quorum ? `✅ 已批准 ${approved}/${quorum}` : "✅ 已批准" })
+      return
+    }
 
-      // 给原消息加 reaction
-      if (task.chatId !== 0 && task.messageId !== 0) {
-        await addReaction(bot, task.chatId, task.messageId, "🚀")
+    // 修改后批准：提示审批人回复修改后的任务内容
+    if (data.startsWith("amend:")) {
+      const taskId = data.slice("amend:".length)
+      const task = taskQueue.getTask(taskId)
+      if (!task) {
+        await ctx.answerCallbackQuery({ text: "任务不存在" })
+        return
       }
 
-      if (registry.isOnline(task.to)) {
-        const sent = dispatchTaskToAgent(task, task.to, wsServer, taskQueue)
-        if (sent) {
-          initProgress(task.taskId, task.chatId, task.messageId)
-          try {
-            await bot.api.sendMessage(task.chatId, `任务开始执行: ${task.to}\nID: ${taskId}`, {
-              reply_to_message_id: task.messageId,
-            })
-          } catch { /* ignore */ }
-        }
+      if (task.status === "expired") {
+        await ctx.answerCallbackQuery({ text: "⌛ 审批已过期" })
+        try { await ctx.editMessageText(expiredApprovalText(task)) } catch { /* ignore */ }
+        return
+      }
+      if (task.status !== "awaiting_approval") {
+        await ctx.answerCallbackQuery({ text: `任务已处理: ${task.status}` })
+        return
+      }
+
+      if (!canApprove(task.to, { id: userId, username: ctx.from.username })) {
+        await ctx.answerCallbackQuery({ text: "只有 Agent 主人或审批人可以审批" })
+        return
       }
+      if (task.approvals?.some((a) => a.userId === userId)) {
+        await ctx.answerCallbackQuery({ text: "你已经批准过了" })
+        return
+      }
+
+      const message = ctx.callbackQuery.message
+      if (!message) {
+        await ctx.answerCallbackQuery({ text: "审批消息已失效" })
+        return
+      }
+      await ctx.answerCallbackQuery({ text: "✏️ 请回复修改后的任务内容" })
+      const prompt = await ctx.reply([
+        `✏️ 请回复本消息，输入修改后的任务内容（${task.to}）`,
+        `原内容: ${task.content.slice(0, 500)}${task.content.length > 500 ? "..." : ""}`,
+        `ID: ${taskId}`,
+      ].join("\n"), {
+        reply_to_message_id: message.message_id,
+        reply_markup: { force_reply: true, input_field_placeholder: "修改后的任务内容" },
+      })
+      amendPrompts.set(`${prompt.chat.id}:${prompt.message_id}`, {
+        taskId,
+        userId,
+        approvalMessage: { chatId: message.chat.id, messageId: message.message_id, text: message.text ?? "" },
+      })
       return
     }
 
@@ -845,14 +2139,18 @@ export function createBot(
         return
       }
 
+      if (task.status === "expired") {
+        await ctx.answerCallbackQuery({ text: "⌛ 审批已过期" })
+        try { await ctx.editMessageText(expiredApprovalText(task)) } catch { /* ignore */ }
+        return
+      }
       if (task.status !== "awaiting_approval") {
         await ctx.answerCallbackQuery({ text: `任务已处理: ${task.status}` })
         return
       }
 
-      const ownerTelegramId = registry.getTelegramUserId(task.to)
-      if (ownerTelegramId && ownerTelegramId !== userId) {
-        await ctx.answerCallbackQuery({ text: "只有 Agent 主人可以审批" })
+      if (!canApprove(task.to, { id: userId, username: ctx.from.username })) {
+        await ctx.answerCallbackQuery({ text: "只有 Agent 主人或审批人可以审批" })
         return
       }
 
@@ -873,6 +2171,148 @@ export function createBot(
       return
     }
 
+    // 改动翻页 / 保留 / 回滚
+    if (data.startsWith("dpage:") || data.startsWith("keep_changes:") || data.startsWith("revert_changes:")) {
+      const [action, taskId, pageStr] = data.split(":")
+      const pageIndex = parseInt(pageStr, 10)
+      const task = taskQueue.getTask(taskId)
+      const diff = await taskQueue.getDiff(taskId)
+      if (!diff || isNaN(pageIndex)) {
+        await ctx.answerCallbackQuery({ text: "改动记录已过期" })
+        return
+      }
+
+      let status = diff.status
+      if (action !== "dpage") {
+        const agentName = task?.to
+        const ownerTelegramId = agentName ? registry.getTelegramUserId(agentName) : undefined
+        if (!agentName || (ownerTelegramId && ownerTelegramId !== userId)) {
+          await ctx.answerCallbackQuery({ text: "只有 Agent 主人可以处理改动" })
+          return
+        }
+        if (diff.status !== "pending" || revertingTasks.has(taskId)) {
+          await ctx.answerCallbackQuery({ text: "改动已处理" })
+          return
+        }
+        if (action === "keep_changes") {
+          taskQueue.setDiffStatus(taskId, "kept")
+          status = "kept"
+          await ctx.answerCallbackQuery({ text: "✅ 已保留改动" })
+        } else {
+          if (!wsServer.revertTaskChanges(agentName, taskId)) {
+            await ctx.answerCallbackQuery({ text: `${agentName} 不在线，无法回滚` })
+            return
+          }
+          revertingTasks.add(taskId)
+          await ctx.answerCallbackQuery({ text: "↩️ 正在回滚..." })
+        }
+      }
+
+      if (paginator.getTotalPages(`diff:${taskId}`) === 0) {
+        paginateDiff(taskId, diff.diff)
+      }
+      const totalPages = paginator.getTotalPages(`diff:${taskId}`)
+      const pageContent = paginator.getPage(`diff:${taskId}`, pageIndex)
+      if (!pageContent) {
+        if (action === "dpage") await ctx.answerCallbackQuery({ text: "页面已过期" })
+        return
+      }
+      const pending = status === "pending" && !revertingTasks.has(taskId)
+      const msg = appendToPage(pageContent, diffFooter({ ...diff, status }, pageIndex, totalPages))
+      try {
+        await ctx.editMessageText(msg.text, {
+          entities: msg.entities as Parameters<typeof ctx.editMessageText>[1] extends { entities?: infer E } ? E : never,
+          reply_markup: buildDiffKeyboard(taskId, pageIndex, totalPages, pending),
+        })
+      } catch { /* ignore */ }
+      if (action === "dpage") await ctx.answerCallbackQuery()
+      return
+    }
+
+    // 调整待分发队列顺序
+    if (data.startsWith("qmove:")) {
+      const [, taskId, direction] = data.split(":")
+      const task = taskQueue.getTask(taskId)
+      if (!task || (direction !== "up" && direction !== "down")) {
+        await ctx.answerCallbackQuery({ text: "任务不存在" })
+        return
+      }
+      const ownerTelegramId = registry.getTelegramUserId(task.to)
+      if (ownerTelegramId && ownerTelegramId !== userId) {
+        await ctx.answerCallbackQuery({ text: "只有 Agent 主人可以调整队列" })
+        return
+      }
+      const moved = taskQueue.movePending(task.to, taskId, direction)
+      await ctx.answerCallbackQuery({ text: moved ? "✅ 已调整" : "任务已不在队列中" })
+      const view = buildQueueView(task.to)
+      try {
+        await ctx.editMessageText(view.text, view.keyboard ? { reply_markup: view.keyboard } : {})
+      } catch { /* ignore */ }
+      return
+    }
+
+    // 手动重试失败的任务（沿用原审批，重新进入待分发队列）
+    if (data.startsWith("retry:")) {
+      const taskId = data.slice("retry:".length)
+      const task = taskQueue.getTask(taskId)
+      if (!task) {
+        await ctx.answerCallbackQuery({ text: "任务已过期" })
+        return
+      }
+      if (!canRetry(task)) {
+        await ctx.answerCallbackQuery({ text: `任务已处理: ${task.status}` })
+        return
+      }
+      const ownerTelegramId = registry.getTelegramUserId(task.to)
+      if (ownerTelegramId && ownerTelegramId !== userId) {
+        await ctx.answerCallbackQuery({ text: "只有 Agent 主人可以重试" })
+        return
+      }
+      if (!taskQueue.retryTask(taskId)) {
+        await ctx.answerCallbackQuery({ text: "任务无法重试" })
+        return
+      }
+      outputBuffer?.reset(taskId)
+      await ctx.answerCallbackQuery({ text: "🔁 已重新排队" })
+
+      const sent = registry.isOnline(task.to) && dispatchTaskToAgent(task, task.to, wsServer)
+      if (sent) initProgress(taskId, task.chatId, task.messageId)
+      const text = sent
+        ? `🔁 任务重新执行: ${task.to}\nID: ${taskId}`
+        : `🔁 ${undispatchedReason(task.to)}，任务已重新排队。\nID: ${taskId}`
+      const chatId = ctx.callbackQuery.message?.chat.id
+      if (chatId === undefined) return
+      try {
+        await bot.api.sendMessage(chatId, text, {
+          reply_to_message_id: ctx.callbackQuery.message?.message_id,
+        })
+      } catch { /* ignore */ }
+      return
+    }
+
+    // 下载完整结果
+    if (data.startsWith("download:")) {
+      const taskId = data.slice("download:".length)
+      const artifact = await taskQueue.getArtifact(taskId)
+      if (artifact === undefined) {
+        await ctx.answerCallbackQuery({ text: "结果已过期" })
+        return
+      }
+      await ctx.answerCallbackQuery({ text: "📎 正在发送..." })
+      const chatId = ctx.callbackQuery.message?.chat.id
+      if (chatId === undefined) return
+      try {
+        await bot.api.sendDocument(
+          chatId,
+          new InputFile(Buffer.from(artifact, "utf-8"), `result-${taskId.slice(0, 8)}.md`),
+          { reply_to_message_id: ctx.callbackQuery.message?.message_id },
+        )
+      } catch (err) {
+        process.stderr.write(`Result document send failed: ${err}\n`)
+      }
+      return
+    }
+
     // 结束对话
     if (data.startsWith("end_conv:")) {
       const conversationId = data.slice("end_conv:".length)
@@ -907,24 +2347,38 @@ export function createBot(
         progressState.delete(taskId)
       }
     }
+    // Agent 断线时回滚回复不会再到达，恢复按钮可用
+    for (const taskId of revertingTasks) {
+      if (taskQueue.getTask(taskId)?.to === agentName) revertingTasks.delete(taskId)
+    }
   })
 
-  // 实时进度反馈
-  wsServer.onTaskProgress(async (taskId, status, detail, elapsedMs) => {
+  // 进度消息文本：状态行 + 最近输出的滚动尾部
+  function buildProgressText(taskId: string, pState: { status?: string; detail?: string; startedAt?: number; createdAt: number }): string {
+    const elapsed = formatElapsed(Date.now() - (pState.startedAt ?? pState.createdAt))
+    const statusMap: Record<string, string> = {
+      queued: `⏳ 排队中，第 ${pState.detail ?? "?"} 位`,
+      thinking: "💭 思考中",
+      tool_use: `🔧 ${pState.detail ?? "使用工具"}`,
+      responding: "✍️ 生成回复",
+      retry_wait: `🔁 ${pState.detail ?? "等待重试"}`,
+    }
+    const status = pState.status ?? "thinking"
+    const statusText = statusMap[status] ?? `⏳ ${status}`
+    const tail = outputBuffer?.getTail(taskId, PROGRESS_TAIL_CHARS).trim()
+    if (!tail) return `${statusText}... (${elapsed})`
+    return `${statusText}... (${elapsed})\n\n📝 最新输出:\n…${tail}`
+  }
+
+  // 刷新进度消息（3 秒防抖）
+  async function refreshProgress(taskId: string): Promise<void> {
     const pState = progressState.get(taskId)
     if (!pState) return
 
     // 3 秒防抖
     if (Date.now() - pState.lastUpdateAt < 3000) return
 
-    const elapsed = formatElapsed(elapsedMs)
-    const statusMap: Record<string, string> = {
-      thinking: "💭 思考中",
-      tool_use: `🔧 ${detail ?? "使用工具"}`,
-      responding: "✍️ 生成回复",
-    }
-    const statusText = statusMap[status] ?? `⏳ ${status}`
-    const text = `${statusText}... (${elapsed})`
+    const text = buildProgressText(taskId, pState)
 
     try {
       if (pState.progressMsgId && pState.progressMsgId !== -1) {
@@ -941,10 +2395,49 @@ export function createBot(
     } catch {
       // 编辑/发送失败静默忽略
     }
+  }
+
+  // 实时进度反馈
+  wsServer.onTaskProgress(async (taskId, status, detail, elapsedMs) => {
+    const pState = progressState.get(taskId)
+    if (!pState) return
+    pState.status = status
+    pState.detail = detail
+    pState.startedAt = Date.now() - elapsedMs
+    await refreshProgress(taskId)
   })
 
-  // 构建结果消息的 reply_markup（分页 + 结束对话按钮）
-  function buildResultKeyboard(taskId: string, pageIndex: number, totalPages: number, conversationId?: string): InlineKeyboard {
+  // 可重试的失败 → 进度消息显示等待重试（跳过防抖立即刷新）
+  wsServer.onTaskRetry(async (taskId, attempt, maxRetries, delayMs, error) => {
+    const task = taskQueue.getTask(taskId)
+    process.stdout.write(`任务 ${taskId.slice(0, 8)} (${task?.to}) 第 ${attempt} 次执行失败，${formatElapsed(delayMs)} 后重试: ${error.slice(0, 100)}\n`)
+    const pState = progressState.get(taskId)
+    if (!pState) return
+    pState.status = "retry_wait"
+    pState.detail = `第 ${attempt}/${maxRetries + 1} 次执行失败，${formatElapsed(delayMs)} 后重试: ${error.split("\n")[0].slice(0, 100)}`
+    pState.startedAt = undefined
+    pState.lastUpdateAt = 0
+    await refreshProgress(taskId)
+  })
+
+  // 流式输出 → 更新进度消息中的滚动尾部
+  wsServer.onTaskOutput(async (taskId) => {
+    await refreshProgress(taskId)
+  })
+
+  // 失败的任务可手动重试（扇出子任务的结果汇总在父任务中，不单独重试）
+  function canRetry(task: TaskInfo | undefined): boolean {
+    return task?.status === "failed" && !task.fanoutParentId && !task.fanoutChildIds
+  }
+
+  // 构建结果消息的 reply_markup（分页 + 下载 + 重试 + 结束对话按钮）
+  function buildResultKeyboard(
+    taskId: string,
+    pageIndex: number,
+    totalPages: number,
+    conversationId?: string,
+    retry = false,
+  ): InlineKeyboard {
     const keyboard = new InlineKeyboard()
     if (totalPages > 1) {
       if (pageIndex > 0) {
@@ -953,6 +2446,10 @@ export function createBot(
       if (pageIndex < totalPages - 1) {
         keyboard.text("▶ 下一页", `page:${taskId}:${pageIndex + 1}`)
       }
+      keyboard.row().text("📎 下载完整结果", `download:${taskId}`)
+    }
+    if (retry) {
+      keyboard.row().text("🔁 重试", `retry:${taskId}`)
     }
     if (conversationId) {
       keyboard.row().text("🔚 结束对话", `end_conv:${conversationId}`)
@@ -960,11 +2457,88 @@ export function createBot(
     return keyboard
   }
 
+  // 改动消息的 reply_markup（分页 + 保留/回滚按钮，仅待处理时显示后者）
+  function buildDiffKeyboard(taskId: string, pageIndex: number, totalPages: number, pending: boolean): InlineKeyboard {
+    const keyboard = new InlineKeyboard()
+    if (totalPages > 1) {
+      if (pageIndex > 0) {
+        keyboard.text("◀ 上一页", `dpage:${taskId}:${pageIndex - 1}`)
+      }
+      if (pageIndex < totalPages - 1) {
+        keyboard.text("▶ 下一页", `dpage:${taskId}:${pageIndex + 1}`)
+      }
+    }
+    if (pending) {
+      keyboard.row()
+        .text("✅ 保留改动", `keep_changes:${taskId}:${pageIndex}`)
+        .text("↩️ 回滚改动", `revert_changes:${taskId}:${pageIndex}`)
+    }
+    return keyboard
+  }
+
+  // diff 分页（整段作为 diff 代码块）
+  function paginateDiff(taskId: string, diff: string) {
+    const text = diff.trimEnd()
+    return paginator.paginate(`diff:${taskId}`, text, [{ type: "pre", offset: 0, length: text.length, language: "diff" }])
+  }
+
+  // diff 页脚：增删行数 + 页码 + 状态
+  function diffFooter(diff: TaskDiffRow, pageIndex: number, totalPages: number): string {
+    const lines = diff.diff.split("\n")
+    const added = lines.filter((l) => l.startsWith("+") && !l.startsWith("+++")).length
+    const removed = lines.filter((l) => l.startsWith("-") && !l.startsWith("---")).length
+    const statusText: Record<TaskDiffRow["status"], string> = {
+      pending: "",
+      kept: " · ✅ 已保留",
+      reverted: " · ↩️ 已回滚",
+    }
+    return `\n\n🧩 改动 +${added} -${removed}`
+      + (totalPages > 1 ? ` · 第 ${pageIndex + 1}/${totalPages} 页` : "")
+      + (diff.truncated ? " · diff 已截断" : "")
+      + statusText[diff.status]
+  }
+
+  // 发送任务改动（git patch 模式，回复结果消息）
+  async function sendDiff(taskId: string, targetChatId: number, replyToMessageId?: number): Promise<void> {
+    const diff = await taskQueue.getDiff(taskId).catch(() => undefined)
+    if (!diff) return
+    const pages = paginateDiff(taskId, diff.diff)
+    const msg = appendToPage(pages[0], diffFooter(diff, 0, pages.length))
+    try {
+      await bot.api.sendMessage(targetChatId, msg.text, {
+        entities: msg.entities as Parameters<typeof bot.api.sendMessage>[2] extends { entities?: infer E } ? E : never,
+        reply_markup: buildDiffKeyboard(taskId, 0, pages.length, diff.status === "pending"),
+        ...(replyToMessageId ? { reply_to_message_id: replyToMessageId } : {}),
+      })
+    } catch (err) {
+      process.stderr.write(`Diff send failed: ${err}\n`)
+    }
+  }
+
   // 追加文本到 page（suffix 在 entities 之后，无需调整 offset）
   function appendToPage(page: { text: string; entities: ReadonlyArray<{ type: string; offset: number; length: number; url?: string; language?: string }> }, suffix: string) {
     return { text: page.text + suffix, entities: page.entities }
   }
 
+  // 将 Agent 输出文件作为文档发送（回复结果消息）
+  async function sendOutputFiles(taskId: string, targetChatId: number, replyToMessageId?: number): Promise<void> {
+    const files = await taskQueue.getOutputFiles(taskId).catch(() => [])
+    for (const file of files) {
+      try {
+        await bot.api.sendDocument(
+          targetChatId,
+          new InputFile(Buffer.from(file.data, "base64"), basename(file.filename)),
+          {
+            caption: `📎 ${file.filename} (${formatFileSize(file.size)})`,
+            ...(replyToMessageId ? { reply_to_message_id: replyToMessageId } : {}),
+          },
+        )
+      } catch (err) {
+        process.stderr.write(`Output file send failed (${file.filename}): ${err}\n`)
+      }
+    }
+  }
+
   // 发送任务结果到指定 chat（带格式化和分页）
   async function sendTaskResult(
     taskId: string,
@@ -989,10 +2563,14 @@ export function createBot(
       : ""
 
     const firstPage = pages[0]
-    const keyboard = buildResultKeyboard(taskId, 0, pages.length, conversationId)
-    const hasKeyboard = conversationId !== undefined || pages.length > 1
-    const suffix = (pages.length > 1 ? `\n\n📄 第 1/${pages.length} 页` : "") + turnInfo
+    const retry = status === "error" && canRetry(task)
+    const keyboard = buildResultKeyboard(taskId, 0, pages.length, conversationId, retry)
+    const hasKeyboard = conversationId !== undefined || pages.length > 1 || retry
+    const branchInfo = task?.branch ? `\n🌿 分支: ${task.branch}` : ""
+    const attemptsInfo = formatAttempts(task, status)
+    const suffix = (pages.length > 1 ? `\n\n📄 第 1/${pages.length} 页` : "") + turnInfo + branchInfo + attemptsInfo
     const msg = appendToPage(firstPage, suffix)
+    let resultMessageId: number | undefined
 
     try {
       const sentMsg = await bot.api.sendMessage(targetChatId, msg.text, {
@@ -1001,19 +2579,24 @@ export function createBot(
         ...(hasKeyboard ? { reply_markup: keyboard } : {}),
       })
       taskQueue.setResultMessageId(taskId, sentMsg.message_id)
+      resultMessageId = sentMsg.message_id
     } catch {
       // fallback: 纯文本无格式
       const plainText = formatResultPlain(agentName, result, status)
       const truncated = plainText.length > 4000
         ? plainText.slice(0, 4000) + "\n...(结果已截断)"
         : plainText
-      const sentMsg = await bot.api.sendMessage(targetChatId, truncated + turnInfo, {
+      const sentMsg = await bot.api.sendMessage(targetChatId, truncated + turnInfo + branchInfo + attemptsInfo, {
         ...replyOpt,
         ...(hasKeyboard ? { reply_markup: keyboard } : {}),
       })
       taskQueue.setResultMessageId(taskId, sentMsg.message_id)
+      resultMessageId = sentMsg.message_id
     }
 
+    await sendOutputFiles(taskId, targetChatId, resultMessageId)
+    await sendDiff(taskId, targetChatId, resultMessageId)
+
     // 任务完成后给原消息加 ✅ reaction
     if (replyToMessageId) {
       const emoji = status === "success" ? "✅" : "❌"
@@ -1029,6 +2612,15 @@ export function createBot(
     // 更新状态面板（任务完成）
     statusPanel.scheduleUpdate(activeChatIds)
 
+    // 扇出子任务：结果汇总到父任务消息，只单独发送输出文件和改动
+    const fanoutEntry = task?.fanoutParentId ? fanoutMessages.get(task.fanoutParentId) : undefined
+    if (fanoutEntry) {
+      await sendOutputFiles(taskId, fanoutEntry.chatId, fanoutEntry.messageId)
+      await sendDiff(taskId, fanoutEntry.chatId, fanoutEntry.messageId)
+      await cleanupProgress(taskId)
+      return
+    }
+
     try {
       if (chatId !== 0) {
         await sendTaskResult(taskId, agentName, result, status, chatId, messageId)
@@ -1048,6 +2640,23 @@ export function createBot(
     await cleanupProgress(taskId)
   })
 
+  // 回滚结果回调：通知发起回滚的主人
+  wsServer.onChangesReverted(async (taskId, success, error) => {
+    revertingTasks.delete(taskId)
+    const task = taskQueue.getTask(taskId)
+    if (!task) return
+    const targetChatId = task.chatId !== 0 ? task.chatId : registry.getTelegramUserId(task.to)
+    if (targetChatId === undefined) return
+    const text = success
+      ? `↩️ ${task.to} 已回滚任务改动\nID: ${taskId}`
+      : `⚠️ ${task.to} 回滚失败: ${error ?? "未知错误"}\nID: ${taskId}`
+    try {
+      await bot.api.sendMessage(targetChatId, text, {
+        ...(task.resultMessageId ? { reply_to_message_id: task.resultMessageId } : {}),
+      })
+    } catch { /* ignore */ }
+  })
+
   // 任务取消回调（含进度清理）
   wsServer.onTaskCancelled(async (taskId, agentName) => {
     await cleanupProgress(taskId)
@@ -1062,38 +2671,175 @@ export function createBot(
   })
 
   // API 任务创建 → 群聊通知 + 审批
-  onApiTaskCreated(async (event) => {
-    const keyboard = new InlineKeyboard()
-      .text("✅ 批准", `approve:${event.taskId}`)
-      .text("❌ 拒绝", `reject:${event.taskId}`)
-
+  async function sendApiApproval(event: ApiTaskEvent): Promise<void> {
     const approvalText = [
       `📋 新任务待审批 (API)`,
       `来自: ${event.from}`,
       `目标: ${event.to}`,
+      ...safeMarker(event.taskId, event.to),
       `内容: ${event.content.slice(0, 200)}${event.content.length > 200 ? "..." : ""}`,
       `ID: ${event.taskId}`,
+      ...approvalDeadline(event.taskId),
+      ...approvalProgress(event.taskId, event.to),
     ].join("\n")
 
     const groupChatId = activeChatIds.values().next().value
     if (groupChatId !== undefined) {
       try {
-        const sentMsg = await bot.api.sendMessage(groupChatId, approvalText, {
-          reply_markup: keyboard,
-        })
-        taskQueue.updateChatInfo(event.taskId, groupChatId, sentMsg.message_id)
+        const sentMessageId = await sendApprovalMessage(groupChatId, approvalText, event.taskId, event.to)
+        taskQueue.updateChatInfo(event.taskId, groupChatId, sentMessageId)
       } catch (err) {
         process.stderr.write(`API task group notification failed: ${err}\n`)
       }
     }
 
     try {
-      await bot.api.sendMessage(event.ownerTelegramId, approvalText, {
-        reply_markup: keyboard,
-      })
+      await sendApprovalMessage(event.ownerTelegramId, approvalText, event.taskId, event.to)
     } catch (err) {
       process.stderr.write(`API task TG notification failed: ${err}\n`)
     }
+    await notifyDelegates(event.to, approvalText, event.taskId)
+  }
+
+  onApiTaskCreated(sendApiApproval)
+
+  // API 创建、创建后才进入审批的任务（流水线后续步骤、定时任务）与 POST /api/tasks 走同一审批判定
+  function requestApiApproval(task: TaskInfo): ReturnType<typeof requestApproval> {
+    return requestApproval(task, apiCallerOf(task.from) ?? task.from, {
+      registry,
+      taskQueue,
+      aclStore,
+      ruleStore,
+      dispatchPending: (agentName) => wsServer.dispatchPending(agentName),
+    })
+  }
+
+  // 定时任务到期 → 创建任务（群聊创建的与手动 @mention 一致，API 创建的走 API 审批）
+  async function fireSchedule(schedule: ScheduleRow): Promise<void> {
+    const { agentName, content, workspace, priority } = schedule
+    if (schedule.chatId === 0) {
+      const task = taskQueue.createTask({
+        from: schedule.createdBy,
+        to: agentName,
+        content,
+        chatId: 0,
+        messageId: 0,
+        workspace,
+        priority,
+      })
+      // 主人未绑定 Telegram 时无人能审批，直接拒绝而不是等到审批过期
+      if (requestApiApproval(task) === "unbound") {
+        taskQueue.updateStatus(task.taskId, "rejected", `${agentName} 的主人未绑定 Telegram，定时任务无法审批`)
+      }
+      return
+    }
+
+    const target = workspace ? `${agentName}#${workspace}` : agentName
+    const sent = await bot.api.sendMessage(
+      schedule.chatId,
+      `⏰ 定时任务 ${schedule.scheduleId.slice(0, 8)} → ${target}\n${content}`,
+    )
+    await handleNewTask({
+      agentName,
+      content,
+      chatId: schedule.chatId,
+      messageId: sent.message_id,
+      from: schedule.createdBy,
+      senderId: schedule.creatorTelegramId,
+      senderUsername: schedule.creatorUsername,
+      workspace,
+      priority,
+    })
+  }
+
+  function expiredApprovalText(task: TaskInfo): string {
+    return `⌛ 审批已过期 (${task.to})\nID: ${task.taskId}`
+  }
+
+  // 审批超时：移除所有审批消息的按钮，并在原聊天中通知请求方
+  async function handleApprovalExpired(task: TaskInfo): Promise<void> {
+    const messages = approvalMessages.get(task.taskId) ?? []
+    approvalMessages.delete(task.taskId)
+    for (const msg of messages) {
+      try {
+        await bot.api.editMessageText(msg.chatId, msg.messageId, expiredApprovalText(task))
+      } catch { /* 消息已删除 */ }
+    }
+    // API 任务的 chatId / messageId 指向群里的审批消息，上面已更新
+    const isApprovalMessage = messages.some((m) => m.chatId === task.chatId && m.messageId === task.messageId)
+    if (task.chatId === 0 || task.messageId === 0 || isApprovalMessage) return
+    try {
+      await bot.api.sendMessage(task.chatId, `⌛ 任务在截止时间前无人审批，已过期，如仍需要请重新提交。\nID: ${task.taskId}`, {
+        reply_to_message_id: task.messageId,
+      })
+    } catch { /* ignore */ }
+  }
+
+  // 上游完成后解除阻塞的任务：群聊流水线按发起人（随任务持久化，Hub 重启后仍可用）走审批，API 流水线走 API 审批
+  async function submitUnblockedTask(task: TaskInfo): Promise<void> {
+    if (task.chatId !== 0) {
+      await submitForApproval(task, task.requesterTelegramId, task.requesterUsername)
+      return
+    }
+    requestApiApproval(task)
+  }
+
+  taskQueue.onStatusChange((task, previousStatus) => {
+    if (task.pipelineId) schedulePipelineRender(task.pipelineId)
+    if (task.fanoutParentId) scheduleFanoutRender(task.fanoutParentId)
+    if (task.fanoutChildIds) scheduleFanoutRender(task.taskId)
+    if (previousStatus === "blocked" && task.status === "pending") {
+      submitUnblockedTask(task).catch((err: unknown) => {
+        process.stderr.write(`Unblocked task submit failed: ${err instanceof Error ? err.message : err}\n`)
+      })
+    }
+    if (task.status === "expired") {
+      handleApprovalExpired(task).catch((err: unknown) => {
+        process.stderr.write(`Approval expiry notification failed: ${err instanceof Error ? err.message : err}\n`)
+      })
+    } else if (previousStatus === "awaiting_approval") {
+      approvalMessages.delete(task.taskId)
+    }
+    if (previousStatus === "awaiting_approval") {
+      for (const [key, prompt] of amendPrompts) {
+        if (prompt.taskId === task.taskId) amendPrompts.delete(key)
+      }
+    }
+  })
+
+  // API 流水线创建 → 在群聊发送 DAG 状态消息
+  onApiPipelineCreated(async (pipelineId) => {
+    const groupChatId = activeChatIds.values().next().value
+    if (groupChatId === undefined) return
+    try {
+      const tasks = taskQueue.getTasksByPipeline(pipelineId)
+      const sent = await bot.api.sendMessage(groupChatId, renderPipeline(pipelineId, tasks))
+      pipelineMessages.set(pipelineId, { chatId: groupChatId, messageId: sent.message_id })
+    } catch (err) {
+      process.stderr.write(`API pipeline notification failed: ${err}\n`)
+    }
+  })
+
+  // API 广播任务创建 → 在群聊发送汇总消息
+  onApiFanoutCreated(async (parentTaskId) => {
+    const groupChatId = activeChatIds.values().next().value
+    const parent = taskQueue.getTask(parentTaskId)
+    if (groupChatId === undefined || !parent) return
+    try {
+      const children = taskQueue.getFanoutChildren(parentTaskId)
+      const sent = await bot.api.sendMessage(groupChatId, renderFanoutSummary(parent, children), {
+        reply_markup: buildFanoutKeyboard(parentTaskId, children),
+      })
+      fanoutMessages.set(parentTaskId, { chatId: groupChatId, messageId: sent.message_id, viewingChild: false })
+    } catch (err) {
+      process.stderr.write(`API fanout notification failed: ${err}\n`)
+    }
+  })
+
+  scheduler?.onFire((schedule) => {
+    fireSchedule(schedule).catch((err: unknown) => {
+      process.stderr.write(`Schedule fire failed: ${err instanceof Error ? err.message : err}\n`)
+    })
   })
 
   // Webhook handler（必须在所有 handler 注册之后创建）
@@ -1114,8 +2860,16 @@ export function createBot(
         { command: "agents", description: "查看在线 Agent 列表" },
         { command: "status", description: "查看任务状态" },
         { command: "cancel", description: "取消任务" },
+        { command: "queue", description: "查看/调整 Agent 的待分发队列" },
         { command: "sessions", description: "查看活跃对话" },
         { command: "history", description: "查看任务历史" },
+        { command: "schedule", description: "创建定时/周期任务" },
+        { command: "schedules", description: "查看/暂停/删除定时任务" },
+        { command: "pipeline", description: "创建多步骤流水线（每行一个步骤）" },
+        { command: "group", description: "管理 Agent 分组" },
+        { command: "acl", description: "管理 Agent 访问控制" },
+        { command: "approvers", description: "设置代理审批人、所需批准人数和审批有效期" },
+        { command: "rules", description: "管理自动批准 / 拒绝任务的规则" },
       ])
 
       // 3. 设置 Bot 描述信息
@@ -0,0 +1,229 @@
+/** 定时任务时间解析：5 段 cron 表达式、一次性时间，按 IANA 时区计算 */
+
+// 未指定时区时使用（与状态面板一致）
+export const DEFAULT_TIMEZONE = "Asia/Shanghai"
+
+// 向后搜索下一次触发时间的上限（分钟步数，跳跃后远小于此值）
+const MAX_SEARCH_STEPS = 200_000
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 }
+
+export interface CronSchedule {
+  readonly minutes: ReadonlySet<number>
+  readonly hours: ReadonlySet<number>
+  readonly daysOfMonth: ReadonlySet<number>
+  readonly months: ReadonlySet<number>
+  readonly daysOfWeek: ReadonlySet<number>
+  /** 日和星期都有限制（字段不以 * 开头）时，满足其一即可（与 Vixie cron 一致） */
+  readonly dayOrWeekday: boolean
+}
+
+/** 某时刻在指定时区下的本地时间 */
+interface ZonedParts {
+  readonly year: number
+  readonly month: number
+  readonly day: number
+  readonly hour: number
+  readonly minute: number
+  readonly weekday: number
+}
+
+/** 一次性或周期性的执行时间 */
+export type ScheduleSpec =
+  | { readonly cron: string }
+  | { readonly runAt: string }
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  const cached = formatters.get(timeZone)
+  if (cached) return cached
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "short",
+  })
+  formatters.set(timeZone, formatter)
+  return formatter
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map((p) => [p.type, p.value]),
+  )
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+  }
+}
+
+/** 指定时区的当天分钟数（0-1439） */
+export function zonedMinuteOfDay(date: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(date, timeZone)
+  return hour * 60 + minute
+}
+
+/** 把指定时区的本地时间转换为 UTC 时刻 */
+function zonedTimeToDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const target = Date.UTC(year, month - 1, day, hour, minute)
+  let guess = target
+  // 两次修正即可覆盖夏令时偏移变化
+  for (let i = 0; i < 2; i++) {
+    const p = getZonedParts(new Date(guess), timeZone)
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute)
+    guess += target - asUtc
+  }
+  return new Date(guess)
+}
+
+/** 解析单个 cron 字段（支持 *、a-b、列表和 /n 步长） */
+function parseField(field: string, min: number, max: number): ReadonlySet<number> | undefined {
+  const values = new Set<number>()
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/)
+    if (!match) return undefined
+    const [, range, stepStr] = match
+    const step = stepStr ? Number(stepStr) : 1
+    if (step < 1) return undefined
+    let start = min
+    let end = max
+    if (range !== "*") {
+      const [a, b] = range.split("-").map(Number)
+      start = a
+      end = b ?? (stepStr ? max : a)
+    }
+    if (start < min || end > max || start > end) return undefined
+    for (let v = start; v <= end; v += step) values.add(v)
+  }
+  return values
+}
+
+/** 解析 5 段 cron 表达式（分 时 日 月 周），无效时返回 undefined */
+export function parseCron(expr: string): CronSchedule | undefined {
+  const fields = expr.trim().split(/\s+/)
+  if (fields.length !== 5) return undefined
+  const minutes = parseField(fields[0], 0, 59)
+  const hours = parseField(fields[1], 0, 23)
+  const daysOfMonth = parseField(fields[2], 1, 31)
+  const months = parseField(fields[3], 1, 12)
+  // 周日可写作 0 或 7
+  const rawWeekdays = parseField(fields[4], 0, 7)
+  if (!minutes || !hours || !daysOfMonth || !months || !rawWeekdays) return undefined
+  const daysOfWeek = new Set([...rawWeekdays].map((d) => d % 7))
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // 以 * 开头的字段（含 */n）视为不限制，与 Vixie cron 一致
+    dayOrWeekday: !fields[2].startsWith("*") && !fields[4].startsWith("*"),
+  }
+}
+
+function matchesDay(cron: CronSchedule, p: ZonedParts): boolean {
+  if (!cron.months.has(p.month)) return false
+  const dom = cron.daysOfMonth.has(p.day)
+  const dow = cron.daysOfWeek.has(p.weekday)
+  return cron.dayOrWeekday ? dom || dow : dom && dow
+}
+
+/** 计算 after 之后（不含）的下一次触发时间，找不到时返回 undefined */
+export function nextCronTime(cron: CronSchedule, after: Date, timeZone: string): Date | undefined {
+  let time = Math.floor(after.getTime() / 60_000) * 60_000 + 60_000
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const p = getZonedParts(new Date(time), timeZone)
+    if (!matchesDay(cron, p)) {
+      // 跳到本地时间次日 0 点
+      time += ((24 - p.hour) * 60 - p.minute) * 60_000
+    } else if (!cron.hours.has(p.hour)) {
+      time += (60 - p.minute) * 60_000
+    } else if (!cron.minutes.has(p.minute)) {
+      time += 60_000
+    } else {
+      return new Date(time)
+    }
+  }
+  return undefined
+}
+
+/**
+ * 解析执行时间描述：
+ * - 5 段 cron 表达式：`0 9 * * 1-5`
+ * - 一次性绝对时间：`2026-10-20 09:00`
+ * - 一次性当天/次日时间：`09:00`
+ * - 一次性相对时间：`+30m`、`+2h`、`+1d`
+ */
+export function parseScheduleSpec(spec: string, timeZone: string, now: Date = new Date()): ScheduleSpec | string {
+  const text = spec.trim()
+  if (text.split(/\s+/).length === 5) {
+    return parseCron(text) ? { cron: text } : "无效的 cron 表达式"
+  }
+
+  const relative = text.match(/^\+(\d+)([mhd])$/)
+  if (relative) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as "m" | "h" | "d"]
+    const delay = Number(relative[1]) * unitMs
+    if (delay <= 0) return "相对时间必须大于 0"
+    return { runAt: new Date(now.getTime() + delay).toISOString() }
+  }
+
+  const absolute = text.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})$/)
+  if (absolute) {
+    const [, y, mo, d, h, mi] = absolute.map(Number)
+    if (mo < 1 || mo > 12 || d < 1 || d > 31 || h > 23 || mi > 59) return "无效的时间"
+    const runAt = zonedTimeToDate(y, mo, d, h, mi, timeZone)
+    if (runAt.getTime() <= now.getTime()) return "执行时间已过"
+    return { runAt: runAt.toISOString() }
+  }
+
+  const clock = text.match(/^(\d{1,2}):(\d{2})$/)
+  if (clock) {
+    const h = Number(clock[1])
+    const mi = Number(clock[2])
+    if (h > 23 || mi > 59) return "无效的时间"
+    const today = getZonedParts(now, timeZone)
+    let runAt = zonedTimeToDate(today.year, today.month, today.day, h, mi, timeZone)
+    // 今天已过则顺延到明天
+    if (runAt.getTime() <= now.getTime()) {
+      const tomorrow = getZonedParts(new Date(now.getTime() + 86_400_000), timeZone)
+      runAt = zonedTimeToDate(tomorrow.year, tomorrow.month, tomorrow.day, h, mi, timeZone)
+    }
+    return { runAt: runAt.toISOString() }
+  }
+
+  return "无法识别的时间格式"
+}
+
+/** 计算下一次执行时间：cron 取下一个匹配时刻，一次性任务未执行时为 runAt */
+export function computeNextRun(spec: ScheduleSpec, timeZone: string, after: Date): string | undefined {
+  if ("runAt" in spec) {
+    return new Date(spec.runAt).getTime() > after.getTime() ? spec.runAt : undefined
+  }
+  const cron = parseCron(spec.cron)
+  if (!cron) return undefined
+  return nextCronTime(cron, after, timeZone)?.toISOString()
+}
+
+/** 以指定时区格式化时间（用于展示） */
+export function formatInTimeZone(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString("zh-CN", { timeZone, hour12: false })
+}
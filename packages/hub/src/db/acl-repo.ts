@@ -0,0 +1,56 @@
+import type { DbPool } from "./connection.js"
+
+/** ACL 规则：deny 拒绝全部任务，readonly 只允许 !safe 任务（仍需审批），allow 免审批 */
+export type AclKind = "allow" | "deny" | "readonly"
+
+// Agent 访问控制规则
+export interface AgentAclRow {
+  readonly agentName: string
+  /** 规则主体：Telegram 数字 ID、@username（小写）或 agent:<name>（MCP / API 调用方） */
+  readonly subject: string
+  readonly kind: AclKind
+  /** 创建者的 Telegram ID */
+  readonly createdBy: number
+  readonly createdAt: string
+}
+
+export interface AclRepo {
+  readonly save: (acl: AgentAclRow) => Promise<void>
+  readonly delete: (agentName: string, subject: string) => Promise<void>
+  readonly loadAll: () => Promise<ReadonlyArray<AgentAclRow>>
+}
+
+function rowToAcl(row: Record<string, unknown>): AgentAclRow {
+  return {
+    agentName: row.agent_name as string,
+    subject: row.subject as string,
+    kind: row.kind as AclKind,
+    createdBy: Number(row.created_by),
+    createdAt: String(row.created_at),
+  }
+}
+
+export function createAclRepo(pool: DbPool): AclRepo {
+  return {
+    async save(acl: AgentAclRow): Promise<void> {
+      await pool.query(
+        `INSERT INTO agent_acls (agent_name, subject, kind, created_by, created_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (agent_name, subject) DO UPDATE
+         SET kind = EXCLUDED.kind,
+             created_by = EXCLUDED.created_by,
+             created_at = EXCLUDED.created_at`,
+        [acl.agentName, acl.subject, acl.kind, acl.createdBy, acl.createdAt],
+      )
+    },
+
+    async delete(agentName: string, subject: string): Promise<void> {
+      await pool.query("DELETE FROM agent_acls WHERE agent_name = $1 AND subject = $2", [agentName, subject])
+    },
+
+    async loadAll(): Promise<ReadonlyArray<AgentAclRow>> {
+      const { rows } = await pool.query("SELECT * FROM agent_acls ORDER BY created_at")
+      return rows.map(rowToAcl)
+    },
+  }
+}
@@ -0,0 +1,59 @@
+import type { DbPool } from "./connection.js"
+
+// Agent 的审批设置：主人之外的代理审批人、所需批准人数和审批有效期
+export interface AgentApproversRow {
+  readonly agentName: string
+  /** 代理审批人：Telegram 数字 ID 或 @username（小写） */
+  readonly approvers: ReadonlyArray<string>
+  /** 批准所需人数（主人 + 代理审批人中的 N 人），默认 1 */
+  readonly quorum: number
+  /** 审批有效期（分钟，0 为不过期），未设置时使用 Hub 默认值 */
+  readonly approvalTtlMinutes?: number
+  /** 最后修改者的 Telegram ID */
+  readonly updatedBy: number
+  readonly updatedAt: string
+}
+
+export interface ApproverRepo {
+  readonly save: (row: AgentApproversRow) => Promise<void>
+  readonly delete: (agentName: string) => Promise<void>
+  readonly loadAll: () => Promise<ReadonlyArray<AgentApproversRow>>
+}
+
+function rowToApprovers(row: Record<string, unknown>): AgentApproversRow {
+  return {
+    agentName: row.agent_name as string,
+    approvers: (row.approvers as string[] | null) ?? [],
+    quorum: Number(row.quorum),
+    approvalTtlMinutes: row.approval_ttl_minutes != null ? Number(row.approval_ttl_minutes) : undefined,
+    updatedBy: Number(row.updated_by),
+    updatedAt: String(row.updated_at),
+  }
+}
+
+export function createApproverRepo(pool: DbPool): ApproverRepo {
+  return {
+    async save(row: AgentApproversRow): Promise<void> {
+      await pool.query(
+        `INSERT INTO agent_approvers (agent_name, approvers, quorum, approval_ttl_minutes, updated_by, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (agent_name) DO UPDATE
+         SET approvers = EXCLUDED.approvers,
+             quorum = EXCLUDED.quorum,
+             approval_ttl_minutes = EXCLUDED.approval_ttl_minutes,
+             updated_by = EXCLUDED.updated_by,
+             updated_at = EXCLUDED.updated_at`,
+        [row.agentName, [...row.approvers], row.quorum, row.approvalTtlMinutes ?? null, row.updatedBy, row.updatedAt],
+      )
+    },
+
+    async delete(agentName: string): Promise<void> {
+      await pool.query("DELETE FROM agent_approvers WHERE agent_name = $1", [agentName])
+    },
+
+    async loadAll(): Promise<ReadonlyArray<AgentApproversRow>> {
+      const { rows } = await pool.query("SELECT * FROM agent_approvers")
+      return rows.map(rowToApprovers)
+    },
+  }
+}
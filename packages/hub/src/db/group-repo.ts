@@ -0,0 +1,55 @@
+import type { DbPool } from "./connection.js"
+
+/** 分组路由模式：broadcast 发给全部成员，any 发给第一个空闲成员，round_robin 轮流分配 */
+export type GroupMode = "broadcast" | "any" | "round_robin"
+
+// Agent 分组
+export interface AgentGroupRow {
+  readonly name: string
+  readonly mode: GroupMode
+  /** 成员 Agent 名称（any 模式按此顺序挑选） */
+  readonly members: ReadonlyArray<string>
+  /** 创建者的 Telegram ID，只有创建者可以修改分组 */
+  readonly createdBy: number
+  readonly createdAt: string
+}
+
+export interface GroupRepo {
+  readonly save: (group: AgentGroupRow) => Promise<void>
+  readonly delete: (name: string) => Promise<void>
+  readonly loadAll: () => Promise<ReadonlyArray<AgentGroupRow>>
+}
+
+function rowToGroup(row: Record<string, unknown>): AgentGroupRow {
+  return {
+    name: row.name as string,
+    mode: row.mode as GroupMode,
+    members: (row.members as string[] | null) ?? [],
+    createdBy: Number(row.created_by),
+    createdAt: String(row.created_at),
+  }
+}
+
+export function createGroupRepo(pool: DbPool): GroupRepo {
+  return {
+    async save(group: AgentGroupRow): Promise<void> {
+      await pool.query(
+        `INSERT INTO agent_groups (name, mode, members, created_by, created_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (name) DO UPDATE
+         SET mode = EXCLUDED.mode,
+             members = EXCLUDED.members`,
+        [group.name, group.mode, [...group.members], group.createdBy, group.createdAt],
+      )
+    },
+
+    async delete(name: string): Promise<void> {
+      await pool.query("DELETE FROM agent_groups WHERE name = $1", [name])
+    },
+
+    async loadAll(): Promise<ReadonlyArray<AgentGroupRow>> {
+      const { rows } = await pool.query("SELECT * FROM agent_groups ORDER BY created_at")
+      return rows.map(rowToGroup)
+    },
+  }
+}
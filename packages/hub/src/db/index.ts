@@ -5,4 +5,14 @@ export { createCredentialRepo } from "./credential-repo.js"
 export type { CredentialRepo, CredentialRow } from "./credential-repo.js"
 export { createFileCredentialRepo } from "./file-credential-repo.js"
 export { createTaskRepo } from "./task-repo.js"
-export type { TaskRepo } from "./task-repo.js"
+export type { TaskRepo, InboxMessageRow, TaskDiffRow } from "./task-repo.js"
+export { createScheduleRepo } from "./schedule-repo.js"
+export type { ScheduleRepo, ScheduleRow } from "./schedule-repo.js"
+export { createGroupRepo } from "./group-repo.js"
+export type { GroupRepo, AgentGroupRow, GroupMode } from "./group-repo.js"
+export { createAclRepo } from "./acl-repo.js"
+export type { AclRepo, AgentAclRow, AclKind } from "./acl-repo.js"
+export { createApproverRepo } from "./approver-repo.js"
+export type { ApproverRepo, AgentApproversRow } from "./approver-repo.js"
+export { createRuleRepo } from "./rule-repo.js"
+export type { RuleRepo, PolicyRuleRow, PolicyAction } from "./rule-repo.js"
@@ -45,6 +45,200 @@ const MIGRATIONS = [
       );
     `,
   },
+  {
+    name: "003_agent_messages",
+    sql: `
+      CREATE TABLE IF NOT EXISTS agent_messages (
+        message_id UUID PRIMARY KEY,
+        from_agent TEXT NOT NULL,
+        to_agent TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        delivered_at TIMESTAMPTZ
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_agent_messages_undelivered
+        ON agent_messages (to_agent, created_at)
+        WHERE delivered_at IS NULL;
+    `,
+  },
+  {
+    name: "004_task_artifacts",
+    sql: `
+      CREATE TABLE IF NOT EXISTS task_artifacts (
+        task_id UUID PRIMARY KEY REFERENCES tasks(task_id),
+        content TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+    `,
+  },
+  {
+    name: "005_task_output_files",
+    sql: `
+      CREATE TABLE IF NOT EXISTS task_output_files (
+        task_id UUID NOT NULL REFERENCES tasks(task_id),
+        filename TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        data BYTEA NOT NULL,
+        size INTEGER NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (task_id, filename)
+      );
+    `,
+  },
+  {
+    name: "006_task_diffs",
+    sql: `
+      CREATE TABLE IF NOT EXISTS task_diffs (
+        task_id UUID PRIMARY KEY REFERENCES tasks(task_id),
+        diff TEXT NOT NULL,
+        truncated BOOLEAN NOT NULL DEFAULT FALSE,
+        status TEXT NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+    `,
+  },
+  {
+    name: "007_task_branch",
+    sql: `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS branch TEXT;
+    `,
+  },
+  {
+    name: "008_task_workspace",
+    sql: `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS workspace TEXT;
+    `,
+  },
+  {
+    name: "009_task_priority",
+    sql: `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'normal';
+    `,
+  },
+  {
+    name: "010_schedules",
+    sql: `
+      CREATE TABLE IF NOT EXISTS schedules (
+        schedule_id UUID PRIMARY KEY,
+        agent_name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        workspace TEXT,
+        priority TEXT NOT NULL DEFAULT 'normal',
+        cron TEXT,
+        run_at TIMESTAMPTZ,
+        timezone TEXT NOT NULL,
+        chat_id BIGINT NOT NULL DEFAULT 0,
+        created_by TEXT NOT NULL,
+        creator_telegram_id BIGINT,
+        paused BOOLEAN NOT NULL DEFAULT FALSE,
+        next_run_at TIMESTAMPTZ,
+        last_run_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_schedules_chat ON schedules (chat_id);
+    `,
+  },
+  {
+    name: "011_task_dependencies",
+    sql: `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS depends_on UUID[];
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS pipeline_id UUID;
+      CREATE INDEX IF NOT EXISTS idx_tasks_pipeline ON tasks (pipeline_id);
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS requester_telegram_id BIGINT;
+    `,
+  },
+  {
+    name: "012_task_fanout",
+    sql: `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS fanout_parent_id UUID;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS fanout_child_ids UUID[];
+    `,
+  },
+  {
+    name: "013_agent_groups",
+    sql: `
+      CREATE TABLE IF NOT EXISTS agent_groups (
+        name TEXT PRIMARY KEY,
+        mode TEXT NOT NULL DEFAULT 'broadcast',
+        members TEXT[] NOT NULL DEFAULT '{}',
+        created_by BIGINT NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+    `,
+  },
+  {
+    name: "014_task_retries",
+    sql: `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS max_retries INTEGER;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS attempts JSONB;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS retry_at TIMESTAMPTZ;
+    `,
+  },
+  {
+    name: "015_agent_acls",
+    sql: `
+      CREATE TABLE IF NOT EXISTS agent_acls (
+        agent_name TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        created_by BIGINT NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        PRIMARY KEY (agent_name, subject)
+      );
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS safe BOOLEAN;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS requester_username TEXT;
+      ALTER TABLE schedules ADD COLUMN IF NOT EXISTS creator_username TEXT;
+    `,
+  },
+  {
+    name: "016_agent_approvers",
+    sql: `
+      CREATE TABLE IF NOT EXISTS agent_approvers (
+        agent_name TEXT PRIMARY KEY,
+        approvers TEXT[] NOT NULL DEFAULT '{}',
+        quorum INTEGER NOT NULL DEFAULT 1,
+        updated_by BIGINT NOT NULL,
+        updated_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS approvals JSONB;
+    `,
+  },
+  {
+    name: "017_approval_ttl",
+    sql: `
+      ALTER TABLE agent_approvers ADD COLUMN IF NOT EXISTS approval_ttl_minutes INTEGER;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS approval_expires_at TIMESTAMPTZ;
+    `,
+  },
+  {
+    name: "018_policy_rules",
+    sql: `
+      CREATE TABLE IF NOT EXISTS policy_rules (
+        rule_id TEXT PRIMARY KEY,
+        agent_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        sender TEXT,
+        pattern TEXT,
+        has_attachments BOOLEAN,
+        time_range TEXT,
+        timezone TEXT NOT NULL,
+        created_by BIGINT NOT NULL,
+        created_at TIMESTAMPTZ DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_policy_rules_agent ON policy_rules (agent_name);
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS policy_rule JSONB;
+    `,
+  },
+  {
+    name: "019_task_amendments",
+    sql: `
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS original_content TEXT;
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS amended_by TEXT;
+    `,
+  },
 ]
 
 export async function runMigrations(pool: DbPool): Promise<void> {
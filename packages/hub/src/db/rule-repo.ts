@@ -0,0 +1,77 @@
+import type { DbPool } from "./connection.js"
+
+/** 规则动作：approve 免审批直接分发，reject 直接拒绝 */
+export type PolicyAction = "approve" | "reject"
+
+// Agent 的自动审批规则（所有条件同时满足时触发）
+export interface PolicyRuleRow {
+  readonly ruleId: string
+  readonly agentName: string
+  readonly action: PolicyAction
+  /** 请求方：Telegram 数字 ID、@username（小写）或 agent:<name> */
+  readonly sender?: string
+  /** 任务内容的正则（不区分大小写） */
+  readonly pattern?: string
+  /** 是否带附件 */
+  readonly hasAttachments?: boolean
+  /** 生效时段 HH:MM-HH:MM（可跨午夜） */
+  readonly timeRange?: string
+  readonly timezone: string
+  /** 创建者的 Telegram ID */
+  readonly createdBy: number
+  readonly createdAt: string
+}
+
+export interface RuleRepo {
+  readonly save: (rule: PolicyRuleRow) => Promise<void>
+  readonly delete: (ruleId: string) => Promise<void>
+  readonly loadAll: () => Promise<ReadonlyArray<PolicyRuleRow>>
+}
+
+function rowToRule(row: Record<string, unknown>): PolicyRuleRow {
+  return {
+    ruleId: row.rule_id as string,
+    agentName: row.agent_name as string,
+    action: row.action as PolicyAction,
+    sender: (row.sender as string) ?? undefined,
+    pattern: (row.pattern as string) ?? undefined,
+    hasAttachments: (row.has_attachments as boolean | null) ?? undefined,
+    timeRange: (row.time_range as string) ?? undefined,
+    timezone: row.timezone as string,
+    createdBy: Number(row.created_by),
+    createdAt: String(row.created_at),
+  }
+}
+
+export function createRuleRepo(pool: DbPool): RuleRepo {
+  return {
+    async save(rule: PolicyRuleRow): Promise<void> {
+      await pool.query(
+        `INSERT INTO policy_rules (rule_id, agent_name, action, sender, pattern, has_attachments, time_range, timezone, created_by, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         ON CONFLICT (rule_id) DO NOTHING`,
+        [
+          rule.ruleId,
+          rule.agentName,
+          rule.action,
+          rule.sender ?? null,
+          rule.pattern ?? null,
+          rule.hasAttachments ?? null,
+          rule.timeRange ?? null,
+          rule.timezone,
+          rule.createdBy,
+          rule.createdAt,
+        ],
+      )
+    },
+
+    async delete(ruleId: string): Promise<void> {
+      await pool.query("DELETE FROM policy_rules WHERE rule_id = $1", [ruleId])
+    },
+
+    async loadAll(): Promise<ReadonlyArray<PolicyRuleRow>> {
+      const { rows } = await pool.query("SELECT * FROM policy_rules ORDER BY created_at")
+      return rows.map(rowToRule)
+    },
+  }
+}
@@ -0,0 +1,97 @@
+import type { TaskPriority } from "@ccchat/shared"
+import type { DbPool } from "./connection.js"
+
+// 定时任务
+export interface ScheduleRow {
+  readonly scheduleId: string
+  readonly agentName: string
+  readonly content: string
+  readonly workspace?: string
+  readonly priority?: TaskPriority
+  /** 周期任务的 cron 表达式（与 runAt 二选一） */
+  readonly cron?: string
+  /** 一次性任务的执行时间 */
+  readonly runAt?: string
+  readonly timezone: string
+  /** 创建所在群聊，API 创建时为 0 */
+  readonly chatId: number
+  /** 任务发起方显示名 */
+  readonly createdBy: string
+  /** 创建者的 Telegram ID（决定是否自动审批） */
+  readonly creatorTelegramId?: number
+  /** 创建者的 Telegram username（到期时用于匹配 @username 的 ACL 和自动审批规则） */
+  readonly creatorUsername?: string
+  readonly paused: boolean
+  readonly nextRunAt?: string
+  readonly lastRunAt?: string
+  readonly createdAt: string
+}
+
+export interface ScheduleRepo {
+  readonly save: (schedule: ScheduleRow) => Promise<void>
+  readonly delete: (scheduleId: string) => Promise<void>
+  readonly loadAll: () => Promise<ReadonlyArray<ScheduleRow>>
+}
+
+function rowToSchedule(row: Record<string, unknown>): ScheduleRow {
+  return {
+    scheduleId: row.schedule_id as string,
+    agentName: row.agent_name as string,
+    content: row.content as string,
+    workspace: (row.workspace as string) ?? undefined,
+    priority: (row.priority as TaskPriority) ?? undefined,
+    cron: (row.cron as string) ?? undefined,
+    runAt: row.run_at ? new Date(row.run_at as string).toISOString() : undefined,
+    timezone: row.timezone as string,
+    chatId: Number(row.chat_id),
+    createdBy: row.created_by as string,
+    creatorTelegramId: row.creator_telegram_id ? Number(row.creator_telegram_id) : undefined,
+    creatorUsername: (row.creator_username as string) ?? undefined,
+    paused: Boolean(row.paused),
+    nextRunAt: row.next_run_at ? new Date(row.next_run_at as string).toISOString() : undefined,
+    lastRunAt: row.last_run_at ? new Date(row.last_run_at as string).toISOString() : undefined,
+    createdAt: String(row.created_at),
+  }
+}
+
+export function createScheduleRepo(pool: DbPool): ScheduleRepo {
+  return {
+    async save(schedule: ScheduleRow): Promise<void> {
+      await pool.query(
+        `INSERT INTO schedules (schedule_id, agent_name, content, workspace, priority, cron, run_at, timezone, chat_id, created_by, creator_telegram_id, paused, next_run_at, last_run_at, created_at, creator_username)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+         ON CONFLICT (schedule_id) DO UPDATE
+         SET paused = EXCLUDED.paused,
+             next_run_at = EXCLUDED.next_run_at,
+             last_run_at = EXCLUDED.last_run_at`,
+        [
+          schedule.scheduleId,
+          schedule.agentName,
+          schedule.content,
+          schedule.workspace ?? null,
+          schedule.priority ?? "normal",
+          schedule.cron ?? null,
+          schedule.runAt ?? null,
+          schedule.timezone,
+          schedule.chatId,
+          schedule.createdBy,
+          schedule.creatorTelegramId ?? null,
+          schedule.paused,
+          schedule.nextRunAt ?? null,
+          schedule.lastRunAt ?? null,
+          schedule.createdAt,
+          schedule.creatorUsername ?? null,
+        ],
+      )
+    },
+
+    async delete(scheduleId: string): Promise<void> {
+      await pool.query("DELETE FROM schedules WHERE schedule_id = $1", [scheduleId])
+    },
+
+    async loadAll(): Promise<ReadonlyArray<ScheduleRow>> {
+      const { rows } = await pool.query("SELECT * FROM schedules ORDER BY created_at")
+      return rows.map(rowToSchedule)
+    },
+  }
+}
@@ -1,12 +1,33 @@
-import type { TaskInfo } from "@ccchat/shared"
+import type { TaskInfo, TaskAttachment, TaskAttempt, TaskApproval, TaskPolicyRule } from "@ccchat/shared"
 import type { DbPool } from "./connection.js"
 
+// Agent 间消息（离线收件箱）
+export interface InboxMessageRow {
+  readonly messageId: string
+  readonly from: string
+  readonly to: string
+  readonly content: string
+  readonly createdAt: string
+  readonly deliveredAt?: string
+}
+
+// git patch 模式下任务产生的改动
+export interface TaskDiffRow {
+  readonly taskId: string
+  readonly diff: string
+  readonly truncated: boolean
+  /** pending: 待主人决定；kept: 已保留；reverted: 已回滚 */
+  readonly status: "pending" | "kept" | "reverted"
+}
+
 export interface TaskRepo {
   readonly save: (task: TaskInfo) => Promise<void>
   readonly findById: (taskId: string) => Promise<TaskInfo | undefined>
   readonly update: (task: TaskInfo) => Promise<void>
   readonly savePending: (agentName: string, taskId: string) => Promise<void>
   readonly removePending: (agentName: string, taskId: string) => Promise<void>
+  /** 按给定顺序重写 Agent 待分发队列的 position */
+  readonly savePendingOrder: (agentName: string, taskIds: ReadonlyArray<string>) => Promise<void>
   readonly loadAll: () => Promise<{
     readonly tasks: ReadonlyArray<TaskInfo>
     readonly pending: ReadonlyMap<string, ReadonlyArray<string>>
@@ -15,6 +36,20 @@ export interface TaskRepo {
     readonly agentName?: string
     readonly limit?: number
   }) => Promise<ReadonlyArray<TaskInfo>>
+  // Agent 间消息
+  readonly saveMessage: (message: InboxMessageRow) => Promise<void>
+  readonly markMessageDelivered: (messageId: string, deliveredAt: string) => Promise<void>
+  readonly loadUndeliveredMessages: () => Promise<ReadonlyArray<InboxMessageRow>>
+  // 完整结果存档
+  readonly saveArtifact: (taskId: string, content: string) => Promise<void>
+  readonly findArtifact: (taskId: string) => Promise<string | undefined>
+  // Agent 返回的输出文件
+  readonly saveOutputFiles: (taskId: string, files: ReadonlyArray<TaskAttachment>) => Promise<void>
+  readonly findOutputFiles: (taskId: string) => Promise<ReadonlyArray<TaskAttachment>>
+  // git patch 模式的改动
+  readonly saveDiff: (row: TaskDiffRow) => Promise<void>
+  readonly findDiff: (taskId: string) => Promise<TaskDiffRow | undefined>
+  readonly updateDiffStatus: (taskId: string, status: TaskDiffRow["status"]) => Promise<void>
 }
 
 function rowToTask(row: Record<string, unknown>): TaskInfo {
@@ -34,6 +69,35 @@ function rowToTask(row: Record<string, unknown>): TaskInfo {
     resultMessageId: row.result_message_id
       ? Number(row.result_message_id)
       : undefined,
+    branch: (row.branch as string) ?? undefined,
+    workspace: (row.workspace as string) ?? undefined,
+    priority: (row.priority as TaskInfo["priority"]) ?? undefined,
+    dependsOn: (row.depends_on as string[] | null) ?? undefined,
+    pipelineId: (row.pipeline_id as string) ?? undefined,
+    fanoutParentId: (row.fanout_parent_id as string) ?? undefined,
+    fanoutChildIds: (row.fanout_child_ids as string[] | null) ?? undefined,
+    maxRetries: row.max_retries != null ? Number(row.max_retries) : undefined,
+    attempts: (row.attempts as TaskAttempt[] | null) ?? undefined,
+    retryAt: row.retry_at ? String(row.retry_at) : undefined,
+    safe: row.safe ? true : undefined,
+    approvals: (row.approvals as TaskApproval[] | null) ?? undefined,
+    approvalExpiresAt: row.approval_expires_at ? String(row.approval_expires_at) : undefined,
+    policyRule: (row.policy_rule as TaskPolicyRule | null) ?? undefined,
+    originalContent: (row.original_content as string) ?? undefined,
+    amendedBy: (row.amended_by as string) ?? undefined,
+    requesterTelegramId: row.requester_telegram_id != null ? Number(row.requester_telegram_id) : undefined,
+    requesterUsername: (row.requester_username as string) ?? undefined,
+  }
+}
+
+function rowToMessage(row: Record<string, unknown>): InboxMessageRow {
+  return {
+    messageId: row.message_id as string,
+    from: row.from_agent as string,
+    to: row.to_agent as string,
+    content: row.content as string,
+    createdAt: String(row.created_at),
+    deliveredAt: row.delivered_at ? String(row.delivered_at) : undefined,
   }
 }
 
@@ -41,13 +105,14 @@ export function createTaskRepo(pool: DbPool): TaskRepo {
   return {
     async save(task: TaskInfo): Promise<void> {
       await pool.query(
-        `INSERT INTO tasks (task_id, from_user, to_agent, content, status, result, created_at, completed_at, chat_id, message_id, conversation_id, parent_task_id, result_message_id)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        `INSERT INTO tasks (task_id, from_user, to_agent, content, status, result, created_at, completed_at, chat_id, message_id, conversation_id, parent_task_id, result_message_id, branch, workspace, priority, depends_on, pipeline_id, fanout_parent_id, fanout_child_ids, max_retries, attempts, retry_at, safe, requester_telegram_id, requester_username)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26)
          ON CONFLICT (task_id) DO UPDATE
          SET status = EXCLUDED.status,
              result = EXCLUDED.result,
              completed_at = EXCLUDED.completed_at,
-             result_message_id = EXCLUDED.result_message_id`,
+             result_message_id = EXCLUDED.result_message_id,
+             branch = EXCLUDED.branch`,
         [
           task.taskId,
           task.from,
@@ -62,6 +127,19 @@ export function createTaskRepo(pool: DbPool): TaskRepo {
           task.conversationId ?? null,
           task.parentTaskId ?? null,
           task.resultMessageId ?? null,
+          task.branch ?? null,
+          task.workspace ?? null,
+          task.priority ?? "normal",
+          task.dependsOn ? [...task.dependsOn] : null,
+          task.pipelineId ?? null,
+          task.fanoutParentId ?? null,
+          task.fanoutChildIds ? [...task.fanoutChildIds] : null,
+          task.maxRetries ?? null,
+          task.attempts ? JSON.stringify(task.attempts) : null,
+          task.retryAt ?? null,
+          task.safe ?? null,
+          task.requesterTelegramId ?? null,
+          task.requesterUsername ?? null,
         ],
       )
     },
@@ -77,7 +155,9 @@ export function createTaskRepo(pool: DbPool): TaskRepo {
 
     async update(task: TaskInfo): Promise<void> {
       await pool.query(
-        `UPDATE tasks SET status = $2, result = $3, completed_at = $4, result_message_id = $5
+        `UPDATE tasks SET status = $2, result = $3, completed_at = $4, result_message_id = $5, branch = $6, content = $7,
+             attempts = $8, retry_at = $9, approvals = $10, approval_expires_at = $11,
+             policy_rule = $12, original_content = $13, amended_by = $14
          WHERE task_id = $1`,
         [
           task.taskId,
@@ -85,6 +165,15 @@ export function createTaskRepo(pool: DbPool): TaskRepo {
           task.result ?? null,
           task.completedAt ?? null,
           task.resultMessageId ?? null,
+          task.branch ?? null,
+          task.content,
+          task.attempts ? JSON.stringify(task.attempts) : null,
+          task.retryAt ?? null,
+          task.approvals ? JSON.stringify(task.approvals) : null,
+          task.approvalExpiresAt ?? null,
+          task.policyRule ? JSON.stringify(task.policyRule) : null,
+          task.originalContent ?? null,
+          task.amendedBy ?? null,
         ],
       )
     },
@@ -104,12 +193,21 @@ export function createTaskRepo(pool: DbPool): TaskRepo {
       )
     },
 
+    async savePendingOrder(agentName: string, taskIds: ReadonlyArray<string>): Promise<void> {
+      for (const [index, taskId] of taskIds.entries()) {
+        await pool.query(
+          "UPDATE pending_tasks SET position = $3 WHERE agent_name = $1 AND task_id = $2",
+          [agentName, taskId, index],
+        )
+      }
+    },
+
     async loadAll(): Promise<{
       readonly tasks: ReadonlyArray<TaskInfo>
       readonly pending: ReadonlyMap<string, ReadonlyArray<string>>
     }> {
       const { rows: taskRows } = await pool.query(
-        "SELECT * FROM tasks WHERE status NOT IN ('completed', 'failed', 'rejected', 'cancelled')",
+        "SELECT * FROM tasks WHERE status NOT IN ('completed', 'failed', 'rejected', 'cancelled', 'expired')",
       )
       const tasks = taskRows.map(rowToTask)
 
@@ -146,5 +244,117 @@ export function createTaskRepo(pool: DbPool): TaskRepo {
       )
       return rows.map(rowToTask)
     },
+
+    async saveMessage(message: InboxMessageRow): Promise<void> {
+      await pool.query(
+        `INSERT INTO agent_messages (message_id, from_agent, to_agent, content, created_at, delivered_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (message_id) DO NOTHING`,
+        [
+          message.messageId,
+          message.from,
+          message.to,
+          message.content,
+          message.createdAt,
+          message.deliveredAt ?? null,
+        ],
+      )
+    },
+
+    async markMessageDelivered(messageId: string, deliveredAt: string): Promise<void> {
+      await pool.query(
+        "UPDATE agent_messages SET delivered_at = $2 WHERE message_id = $1",
+        [messageId, deliveredAt],
+      )
+    },
+
+    async loadUndeliveredMessages(): Promise<ReadonlyArray<InboxMessageRow>> {
+      const { rows } = await pool.query(
+        "SELECT * FROM agent_messages WHERE delivered_at IS NULL ORDER BY created_at",
+      )
+      return rows.map(rowToMessage)
+    },
+
+    async saveArtifact(taskId: string, content: string): Promise<void> {
+      await pool.query(
+        `INSERT INTO task_artifacts (task_id, content, size)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (task_id) DO UPDATE
+         SET content = EXCLUDED.content,
+             size = EXCLUDED.size,
+             created_at = NOW()`,
+        [taskId, content, content.length],
+      )
+    },
+
+    async findArtifact(taskId: string): Promise<string | undefined> {
+      const { rows } = await pool.query(
+        "SELECT content FROM task_artifacts WHERE task_id = $1",
+        [taskId],
+      )
+      if (rows.length === 0) return undefined
+      return rows[0].content as string
+    },
+
+    async saveOutputFiles(taskId: string, files: ReadonlyArray<TaskAttachment>): Promise<void> {
+      for (const file of files) {
+        await pool.query(
+          `INSERT INTO task_output_files (task_id, filename, mime_type, data, size)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (task_id, filename) DO UPDATE
+           SET mime_type = EXCLUDED.mime_type,
+               data = EXCLUDED.data,
+               size = EXCLUDED.size`,
+          [taskId, file.filename, file.mimeType, Buffer.from(file.data, "base64"), file.size],
+        )
+      }
+    },
+
+    async findOutputFiles(taskId: string): Promise<ReadonlyArray<TaskAttachment>> {
+      const { rows } = await pool.query(
+        "SELECT filename, mime_type, data, size FROM task_output_files WHERE task_id = $1 ORDER BY filename",
+        [taskId],
+      )
+      return rows.map((row) => ({
+        filename: row.filename as string,
+        mimeType: row.mime_type as string,
+        data: (row.data as Buffer).toString("base64"),
+        size: Number(row.size),
+      }))
+    },
+
+    async saveDiff(row: TaskDiffRow): Promise<void> {
+      await pool.query(
+        `INSERT INTO task_diffs (task_id, diff, truncated, status)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (task_id) DO UPDATE
+         SET diff = EXCLUDED.diff,
+             truncated = EXCLUDED.truncated,
+             status = EXCLUDED.status,
+             updated_at = NOW()`,
+        [row.taskId, row.diff, row.truncated, row.status],
+      )
+    },
+
+    async findDiff(taskId: string): Promise<TaskDiffRow | undefined> {
+      const { rows } = await pool.query(
+        "SELECT task_id, diff, truncated, status FROM task_diffs WHERE task_id = $1",
+        [taskId],
+      )
+      if (rows.length === 0) return undefined
+      return {
+        taskId: rows[0].task_id as string,
+        diff: rows[0].diff as string,
+        truncated: Boolean(rows[0].truncated),
+        status: rows[0].status as TaskDiffRow["status"],
+      }
+    },
+
+    async updateDiffStatus(taskId: string, status: TaskDiffRow["status"]): Promise<void> {
+      await pool.query(
+        "UPDATE task_diffs SET status = $2, updated_at = NOW() WHERE task_id = $1",
+        [taskId, status],
+      )
+    },
   }
 }
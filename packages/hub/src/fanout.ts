@@ -0,0 +1,24 @@
+import type { TaskInfo } from "@ccchat/shared"
+import { TASK_STATUS_EMOJI } from "./pipeline.js"
+
+// 汇总消息中每个 Agent 结果的预览长度
+const RESULT_PREVIEW_CHARS = 120
+
+/** 渲染扇出任务的汇总消息：每个子任务一行状态和结果预览 */
+export function renderFanoutSummary(parent: TaskInfo, children: ReadonlyArray<TaskInfo>): string {
+  const finished = children.filter((t) => t.completedAt !== undefined).length
+  const contentPreview = parent.content.slice(0, 100) + (parent.content.length > 100 ? "..." : "")
+  const lines = children.map((t) => {
+    const preview = t.result
+      ? `: ${t.result.replace(/\s+/g, " ").slice(0, RESULT_PREVIEW_CHARS)}${t.result.length > RESULT_PREVIEW_CHARS ? "..." : ""}`
+      : ""
+    return `${TASK_STATUS_EMOJI[t.status]} ${t.workspace ? `${t.to}#${t.workspace}` : t.to}${preview}`
+  })
+  return [
+    `📡 广播 → ${parent.to} (${finished}/${children.length} 已结束)`,
+    `内容: ${contentPreview}`,
+    "",
+    ...lines,
+    ...(parent.completedAt ? ["", `🏁 ${parent.result ?? "已结束"}`] : []),
+  ].join("\n")
+}
@@ -0,0 +1,175 @@
+import type { AgentGroupRow, GroupMode, GroupRepo } from "./db/index.js"
+import type { Registry } from "./registry.js"
+import type { AgentStatusStore } from "./agent-status-store.js"
+
+export const GROUP_MODES: ReadonlyArray<GroupMode> = ["broadcast", "any", "round_robin"]
+
+// 分组成员数上限
+const MAX_GROUP_MEMBERS = 50
+
+// 与 @mention 语法冲突的保留名
+const RESERVED_GROUP_NAMES: ReadonlySet<string> = new Set(["all", "group"])
+
+export function isGroupMode(value: unknown): value is GroupMode {
+  return typeof value === "string" && (GROUP_MODES as ReadonlyArray<string>).includes(value)
+}
+
+interface GroupStoreState {
+  readonly groups: ReadonlyMap<string, AgentGroupRow>
+}
+
+export interface GroupStore {
+  /** 创建分组，名称无效或已存在时返回错误信息 */
+  readonly create: (name: string, mode: GroupMode, members: ReadonlyArray<string>, createdBy: number) => AgentGroupRow | string
+  readonly addMembers: (name: string, agents: ReadonlyArray<string>) => AgentGroupRow | undefined
+  readonly removeMembers: (name: string, agents: ReadonlyArray<string>) => AgentGroupRow | undefined
+  readonly remove: (name: string) => boolean
+  readonly get: (name: string) => AgentGroupRow | undefined
+  readonly list: () => ReadonlyArray<AgentGroupRow>
+  /** 按路由模式选出目标：broadcast 返回全部成员，any / round_robin 返回单个成员，空分组返回空数组 */
+  readonly route: (name: string) => ReadonlyArray<string>
+  /** 任务成功交给成员后调用：round_robin 分组下次从该成员之后开始轮流 */
+  readonly markAssigned: (name: string, agentName: string) => void
+  readonly loadFromRepo: () => Promise<void>
+}
+
+export interface GroupStoreOptions {
+  readonly groupRepo?: GroupRepo
+  readonly registry: Registry
+  readonly agentStatusStore?: AgentStatusStore
+}
+
+/** 创建 Agent 分组存储：@分组名 按分组的路由模式分发任务 */
+export function createGroupStore(options: GroupStoreOptions): GroupStore {
+  const { groupRepo: repo, registry, agentStatusStore } = options
+  let state: GroupStoreState = { groups: new Map() }
+  // round_robin 模式的下一个成员下标（内存保存，重启后从头开始）
+  const cursors = new Map<string, number>()
+
+  function persistSave(group: AgentGroupRow): void {
+    repo?.save(group).catch((err) => {
+      process.stderr.write(`DB group save failed: ${err}\n`)
+    })
+  }
+
+  function setGroup(group: AgentGroupRow): void {
+    const next = new Map(state.groups)
+    next.set(group.name, group)
+    state = { groups: next }
+    persistSave(group)
+  }
+
+  function create(name: string, mode: GroupMode, members: ReadonlyArray<string>, createdBy: number): AgentGroupRow | string {
+    if (!/^\w+$/.test(name) || RESERVED_GROUP_NAMES.has(name)) return `无效的分组名: ${name}`
+    if (state.groups.has(name)) return `分组 ${name} 已存在`
+    // 分组名与 Agent 同名时 @mention 无法区分
+    if (registry.getCredential(name)) return `${name} 已是 Agent 名称`
+    const unique = [...new Set(members)]
+    if (unique.length > MAX_GROUP_MEMBERS) return `分组最多 ${MAX_GROUP_MEMBERS} 个成员`
+    const group: AgentGroupRow = {
+      name,
+      mode,
+      members: unique,
+      createdBy,
+      createdAt: new Date().toISOString(),
+    }
+    setGroup(group)
+    return group
+  }
+
+  function addMembers(name: string, agents: ReadonlyArray<string>): AgentGroupRow | undefined {
+    const existing = state.groups.get(name)
+    if (!existing) return undefined
+    const members = [...new Set([...existing.members, ...agents])].slice(0, MAX_GROUP_MEMBERS)
+    const updated: AgentGroupRow = { ...existing, members }
+    setGroup(updated)
+    return updated
+  }
+
+  function removeMembers(name: string, agents: ReadonlyArray<string>): AgentGroupRow | undefined {
+    const existing = state.groups.get(name)
+    if (!existing) return undefined
+    const updated: AgentGroupRow = { ...existing, members: existing.members.filter((m) => !agents.includes(m)) }
+    setGroup(updated)
+    return updated
+  }
+
+  function remove(name: string): boolean {
+    if (!state.groups.has(name)) return false
+    const next = new Map(state.groups)
+    next.delete(name)
+    state = { groups: next }
+    cursors.delete(name)
+    repo?.delete(name).catch((err) => {
+      process.stderr.write(`DB group delete failed: ${err}\n`)
+    })
+    return true
+  }
+
+  // 空闲：在线且没有运行中的任务，本地队列未满
+  function isIdle(agentName: string): boolean {
+    if (!registry.isOnline(agentName)) return false
+    const status = agentStatusStore?.get(agentName)
+    return !status || (status.runningTasks === 0 && !status.queueFull)
+  }
+
+  // 负载：运行中 + 本地排队的任务数
+  function loadOf(agentName: string): number {
+    const status = agentStatusStore?.get(agentName)
+    return (status?.runningTasks ?? 0) + (status?.queuedTasks ?? 0)
+  }
+
+  function route(name: string): ReadonlyArray<string> {
+    const group = state.groups.get(name)
+    if (!group || group.members.length === 0) return []
+    if (group.mode === "broadcast") return group.members
+
+    const online = group.members.filter((m) => registry.isOnline(m))
+    if (group.mode === "any") {
+      const idle = group.members.find(isIdle)
+      if (idle) return [idle]
+      // 没有空闲成员：选负载最低的在线成员，全部离线时排给第一个成员
+      const leastLoaded = [...online].sort((a, b) => loadOf(a) - loadOf(b))[0]
+      return [leastLoaded ?? group.members[0]]
+    }
+
+    // round_robin：在线成员轮流，全部离线时在所有成员中轮流
+    const candidates = online.length > 0 ? online : group.members
+    const cursor = cursors.get(name) ?? 0
+    // 从上次分配的成员之后开始找（按成员列表顺序，跳过离线成员）
+    const picked = [...group.members.slice(cursor), ...group.members.slice(0, cursor)]
+      .find((m) => candidates.includes(m)) ?? candidates[0]
+    return [picked]
+  }
+
+  // 任务被 ACL 或规则拒绝时不调用，避免跳过下一个成员
+  function markAssigned(name: string, agentName: string): void {
+    const group = state.groups.get(name)
+    if (!group || group.mode !== "round_robin") return
+    const index = group.members.indexOf(agentName)
+    if (index >= 0) cursors.set(name, (index + 1) % group.members.length)
+  }
+
+  async function loadFromRepo(): Promise<void> {
+    if (!repo) return
+    const rows = await repo.loadAll()
+    const next = new Map(state.groups)
+    for (const row of rows) next.set(row.name, row)
+    state = { groups: next }
+    if (rows.length > 0) {
+      process.stdout.write(`Loaded ${rows.length} agent groups from DB\n`)
+    }
+  }
+
+  return {
+    create,
+    addMembers,
+    removeMembers,
+    remove,
+    get: (name: string) => state.groups.get(name),
+    list: () => [...state.groups.values()],
+    route,
+    markAssigned,
+    loadFromRepo,
+  }
+}
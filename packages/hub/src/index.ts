@@ -5,7 +5,7 @@ import { randomUUID } from "node:crypto"
 import { config } from "dotenv"
 import { createRegistry } from "./registry.js"
 import { createTaskQueue } from "./task-queue.js"
-import { createWsServer } from "./ws-server.js"
+import { createWsServer, type OrphanTaskPolicy } from "./ws-server.js"
 import { createBot } from "./bot.js"
 import {
   createPool,
@@ -13,22 +13,51 @@ import {
   createCredentialRepo,
   createFileCredentialRepo,
   createTaskRepo,
+  createScheduleRepo,
+  createGroupRepo,
+  createAclRepo,
+  createApproverRepo,
+  createRuleRepo,
   type DbPool,
 } from "./db/index.js"
 import { createAgentStatusStore } from "./agent-status-store.js"
+import { createMessageInbox } from "./message-inbox.js"
+import { createOutputBuffer } from "./output-buffer.js"
 import { createApiHandler, onApiTaskCreated } from "./api.js"
+import { createScheduler } from "./scheduler.js"
+import { createGroupStore } from "./group-store.js"
+import { createAclStore } from "./acl-store.js"
+import { createApproverStore } from "./approver-store.js"
+import { createRuleStore } from "./rule-store.js"
 
 // 加载环境变量
 config()
 
 // 从环境变量读取配置
-function loadConfig(): { readonly port: number; readonly telegramBotToken: string; readonly hubUrl?: string; readonly databaseUrl?: string; readonly telegramChatId?: number; readonly webhookSecret: string } {
+function loadConfig(): {
+  readonly port: number
+  readonly telegramBotToken: string
+  readonly hubUrl?: string
+  readonly databaseUrl?: string
+  readonly telegramChatId?: number
+  readonly webhookSecret: string
+  readonly orphanTaskPolicy: OrphanTaskPolicy
+  readonly staleTaskGraceMs?: number
+  readonly approvalTtlMs?: number
+} {
   const port = parseInt(process.env.PORT ?? process.env.HUB_PORT ?? "9900", 10)
   const telegramBotToken = process.env.TELEGRAM_BOT_TOKEN ?? ""
   const hubUrl = process.env.HUB_URL
   const databaseUrl = process.env.DATABASE_URL
   const telegramChatId = process.env.TELEGRAM_CHAT_ID ? parseInt(process.env.TELEGRAM_CHAT_ID, 10) : undefined
   const webhookSecret = process.env.HUB_SECRET || randomUUID()
+  // daemon 断线丢失的任务：retry 按重试次数重新排队（默认），fail 直接失败
+  const orphanTaskPolicy = process.env.ORPHAN_TASK_POLICY === "fail" ? "fail" : "retry"
+  const graceSeconds = process.env.STALE_TASK_GRACE_SECONDS ? parseInt(process.env.STALE_TASK_GRACE_SECONDS, 10) : NaN
+  const staleTaskGraceMs = Number.isFinite(graceSeconds) && graceSeconds >= 0 ? graceSeconds * 1000 : undefined
+  // 审批有效期默认 24 小时，设为 0 时审批不过期（Agent 主人可用 /approvers <agent> ttl 单独设置）
+  const ttlHours = process.env.APPROVAL_TTL_HOURS ? Number(process.env.APPROVAL_TTL_HOURS) : 24
+  const approvalTtlMs = Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours * 3_600_000 : undefined
 
   if (!telegramBotToken) {
     throw new Error("环境变量 TELEGRAM_BOT_TOKEN 未设置")
@@ -38,7 +67,7 @@ function loadConfig(): { readonly port: number; readonly telegramBotToken: strin
     process.stdout.write(`HUB_SECRET 未设置，已自动生成 webhook secret\n`)
   }
 
-  return { port, telegramBotToken, hubUrl, databaseUrl, telegramChatId, webhookSecret }
+  return { port, telegramBotToken, hubUrl, databaseUrl, telegramChatId, webhookSecret, orphanTaskPolicy, staleTaskGraceMs, approvalTtlMs }
 }
 
 // 全局错误捕获
@@ -58,6 +87,11 @@ async function main(): Promise<void> {
   let pool: DbPool | undefined
   let credentialRepo
   let taskRepo
+  let scheduleRepo
+  let groupRepo
+  let aclRepo
+  let approverRepo
+  let ruleRepo
 
   if (hubConfig.databaseUrl) {
     process.stdout.write("检测到 DATABASE_URL，启用 Postgres 持久化\n")
@@ -65,6 +99,11 @@ async function main(): Promise<void> {
     await runMigrations(pool)
     credentialRepo = createCredentialRepo(pool)
     taskRepo = createTaskRepo(pool)
+    scheduleRepo = createScheduleRepo(pool)
+    groupRepo = createGroupRepo(pool)
+    aclRepo = createAclRepo(pool)
+    approverRepo = createApproverRepo(pool)
+    ruleRepo = createRuleRepo(pool)
   } else {
     process.stdout.write("未设置 DATABASE_URL，使用文件备份凭证\n")
     credentialRepo = createFileCredentialRepo()
@@ -72,8 +111,10 @@ async function main(): Promise<void> {
 
   // 创建核心模块
   const registry = createRegistry({ credentialRepo })
+  const approverStore = createApproverStore({ approverRepo, defaultApprovalTtlMs: hubConfig.approvalTtlMs })
   const taskQueue = createTaskQueue({
     taskRepo,
+    approvalTtlMs: (agentName) => approverStore.approvalTtlMs(agentName),
     onConversationClosed: (_convId, lastTask) => {
       process.stdout.write(`对话自动关闭: ${_convId.slice(0, 8)}... (30分钟无活动)\n`)
       // 移除最后一条结果消息的 keyboard
@@ -83,14 +124,35 @@ async function main(): Promise<void> {
     },
   })
   const agentStatusStore = createAgentStatusStore()
+  const messageInbox = createMessageInbox({ taskRepo })
+  const outputBuffer = createOutputBuffer()
+  const scheduler = createScheduler({ scheduleRepo })
+  const groupStore = createGroupStore({ groupRepo, registry, agentStatusStore })
+  const aclStore = createAclStore({ aclRepo })
+  const ruleStore = createRuleStore({ ruleRepo })
 
   // 从持久化层加载数据
   await registry.loadFromRepo()
   if (pool) {
     await taskQueue.loadFromRepo()
+    await messageInbox.loadFromRepo()
+    await scheduler.loadFromRepo()
+    await groupStore.loadFromRepo()
+    await aclStore.loadFromRepo()
+    await approverStore.loadFromRepo()
+    await ruleStore.loadFromRepo()
   }
 
-  const apiHandler = createApiHandler({ registry, taskQueue })
+  const apiHandler = createApiHandler({
+    registry,
+    taskQueue,
+    outputBuffer,
+    scheduler,
+    groupStore,
+    aclStore,
+    ruleStore,
+    dispatchPending: (agentName) => wsServer.dispatchPending(agentName),
+  })
   let botRef: ReturnType<typeof createBot> | undefined
   const httpServer = createServer((req, res) => {
     const url = req.url ?? "/"
@@ -110,7 +172,10 @@ async function main(): Promise<void> {
     }
     apiHandler(req, res)
   })
-  const wsServer = createWsServer(httpServer, registry, taskQueue, agentStatusStore)
+  const wsServer = createWsServer(httpServer, registry, taskQueue, agentStatusStore, messageInbox, outputBuffer, {
+    orphanTaskPolicy: hubConfig.orphanTaskPolicy,
+    staleTaskGraceMs: hubConfig.staleTaskGraceMs,
+  })
   const bot = createBot(
     hubConfig.telegramBotToken,
     registry,
@@ -121,6 +186,12 @@ async function main(): Promise<void> {
     hubConfig.telegramChatId,
     pool,
     hubConfig.webhookSecret,
+    outputBuffer,
+    scheduler,
+    groupStore,
+    aclStore,
+    approverStore,
+    ruleStore,
   )
   botRef = bot
 
@@ -129,6 +200,8 @@ async function main(): Promise<void> {
     process.stdout.write("正在关闭服务...\n")
     bot.stop()
     taskQueue.stop()
+    scheduler.stop()
+    outputBuffer.stop()
     wsServer.close()
     httpServer.close(() => {
       if (pool) {
@@ -0,0 +1,112 @@
+import { randomUUID } from "node:crypto"
+import type { InboxMessageRow, TaskRepo } from "./db/index.js"
+
+/** 每个 Agent 收件箱最多保留的未送达消息数 */
+const MAX_UNDELIVERED_PER_AGENT = 100
+
+// 收件箱状态：agentName → 未送达消息（按时间顺序）
+interface InboxState {
+  readonly undelivered: ReadonlyMap<string, ReadonlyArray<InboxMessageRow>>
+}
+
+export interface MessageInbox {
+  /** 记录一条新消息（未送达），收件箱已满时返回 undefined */
+  readonly create: (params: {
+    readonly from: string
+    readonly to: string
+    readonly content: string
+  }) => InboxMessageRow | undefined
+  readonly getUndelivered: (agentName: string) => ReadonlyArray<InboxMessageRow>
+  readonly markDelivered: (agentName: string, messageId: string) => void
+  readonly loadFromRepo: () => Promise<void>
+}
+
+export interface MessageInboxOptions {
+  readonly taskRepo?: TaskRepo
+}
+
+/** 创建 Agent 间消息收件箱（离线消息持久化，上线后补发） */
+export function createMessageInbox(options?: MessageInboxOptions): MessageInbox {
+  const repo = options?.taskRepo
+  let state: InboxState = { undelivered: new Map() }
+  // 写入中的消息（markDelivered 需等 INSERT 完成后再 UPDATE）
+  const pendingSaves = new Map<string, Promise<void>>()
+
+  function persistSave(message: InboxMessageRow): void {
+    if (!repo) return
+    const saved = repo.saveMessage(message)
+      .catch((err) => {
+        process.stderr.write(`DB message save failed: ${err}\n`)
+      })
+      .finally(() => pendingSaves.delete(message.messageId))
+    pendingSaves.set(message.messageId, saved)
+  }
+
+  function persistDelivered(messageId: string, deliveredAt: string): void {
+    if (!repo) return
+    const afterSave = pendingSaves.get(messageId) ?? Promise.resolve()
+    afterSave
+      .then(() => repo.markMessageDelivered(messageId, deliveredAt))
+      .catch((err) => {
+        process.stderr.write(`DB message update failed: ${err}\n`)
+      })
+  }
+
+  async function loadFromRepo(): Promise<void> {
+    if (!repo) return
+    const rows = await repo.loadUndeliveredMessages()
+    const newUndelivered = new Map(state.undelivered)
+    for (const row of rows) {
+      const list = newUndelivered.get(row.to) ?? []
+      newUndelivered.set(row.to, [...list, row])
+    }
+    state = { undelivered: newUndelivered }
+    process.stdout.write(`Loaded ${rows.length} undelivered messages from DB\n`)
+  }
+
+  function create(params: {
+    readonly from: string
+    readonly to: string
+    readonly content: string
+  }): InboxMessageRow | undefined {
+    const existing = state.undelivered.get(params.to) ?? []
+    if (existing.length >= MAX_UNDELIVERED_PER_AGENT) return undefined
+
+    const message: InboxMessageRow = {
+      messageId: randomUUID(),
+      from: params.from,
+      to: params.to,
+      content: params.content,
+      createdAt: new Date().toISOString(),
+    }
+    const newUndelivered = new Map(state.undelivered)
+    newUndelivered.set(params.to, [...existing, message])
+    state = { undelivered: newUndelivered }
+    persistSave(message)
+    return message
+  }
+
+  function getUndelivered(agentName: string): ReadonlyArray<InboxMessageRow> {
+    return state.undelivered.get(agentName) ?? []
+  }
+
+  function markDelivered(agentName: string, messageId: string): void {
+    const existing = state.undelivered.get(agentName) ?? []
+    const filtered = existing.filter((m) => m.messageId !== messageId)
+    const newUndelivered = new Map(state.undelivered)
+    if (filtered.length > 0) {
+      newUndelivered.set(agentName, filtered)
+    } else {
+      newUndelivered.delete(agentName)
+    }
+    state = { undelivered: newUndelivered }
+    persistDelivered(messageId, new Date().toISOString())
+  }
+
+  return {
+    create,
+    getUndelivered,
+    markDelivered,
+    loadFromRepo,
+  }
+}
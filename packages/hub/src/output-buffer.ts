@@ -0,0 +1,150 @@
+/** 任务流式输出缓冲：按任务累积 task_output_chunk，供进度消息和 SSE 订阅使用 */
+
+// 单个任务最多缓冲的字符数（超出后丢弃开头部分）
+const MAX_BUFFER_CHARS = 200_000
+// 任务结束后缓冲保留时间（供晚到的 SSE 客户端读取）
+const FINISHED_RETENTION_MS = 10 * 60 * 1000
+// 未结束任务的兜底保留时间（Agent 断线等情况）
+const MAX_AGE_MS = 2 * 60 * 60 * 1000
+
+export type OutputEndStatus = "completed" | "failed" | "cancelled"
+
+export type OutputEvent =
+  | { readonly type: "chunk"; readonly text: string }
+  | { readonly type: "end"; readonly status: OutputEndStatus }
+
+export type OutputListener = (event: OutputEvent) => void
+
+interface TaskOutput {
+  readonly text: string
+  readonly nextSeq: number
+  /** 是否因超出上限丢弃过开头 */
+  readonly truncated: boolean
+  readonly createdAt: number
+  readonly finishedAt?: number
+  readonly endStatus?: OutputEndStatus
+}
+
+export interface OutputBuffer {
+  /** 追加分片，重复或乱序的分片返回 false */
+  readonly append: (taskId: string, seq: number, text: string) => boolean
+  readonly getText: (taskId: string) => string
+  readonly getTail: (taskId: string, maxChars: number) => string
+  readonly isTruncated: (taskId: string) => boolean
+  readonly finish: (taskId: string, status: OutputEndStatus) => void
+  /** 清空输出（任务重试时新一次执行的 seq 从 0 开始），保留订阅 */
+  readonly reset: (taskId: string) => void
+  readonly subscribe: (taskId: string, listener: OutputListener) => () => void
+  readonly stop: () => void
+}
+
+export function createOutputBuffer(): OutputBuffer {
+  let outputs: ReadonlyMap<string, TaskOutput> = new Map()
+  const listeners = new Map<string, Set<OutputListener>>()
+
+  function setOutput(taskId: string, output: TaskOutput): void {
+    const next = new Map(outputs)
+    next.set(taskId, output)
+    outputs = next
+  }
+
+  function emit(taskId: string, event: OutputEvent): void {
+    const set = listeners.get(taskId)
+    if (!set) return
+    for (const listener of set) {
+      try {
+        listener(event)
+      } catch (err) {
+        process.stderr.write(`Output listener error: ${err}\n`)
+      }
+    }
+  }
+
+  function append(taskId: string, seq: number, text: string): boolean {
+    const existing = outputs.get(taskId)
+    if (existing?.finishedAt) return false
+    const expectedSeq = existing?.nextSeq ?? 0
+    if (seq < expectedSeq) return false
+
+    const combined = (existing?.text ?? "") + text
+    const overflow = combined.length - MAX_BUFFER_CHARS
+    setOutput(taskId, {
+      text: overflow > 0 ? combined.slice(overflow) : combined,
+      nextSeq: seq + 1,
+      truncated: (existing?.truncated ?? false) || overflow > 0,
+      createdAt: existing?.createdAt ?? Date.now(),
+    })
+    emit(taskId, { type: "chunk", text })
+    return true
+  }
+
+  function getText(taskId: string): string {
+    return outputs.get(taskId)?.text ?? ""
+  }
+
+  function getTail(taskId: string, maxChars: number): string {
+    const text = getText(taskId)
+    return text.length <= maxChars ? text : text.slice(-maxChars)
+  }
+
+  function isTruncated(taskId: string): boolean {
+    return outputs.get(taskId)?.truncated ?? false
+  }
+
+  function finish(taskId: string, status: OutputEndStatus): void {
+    const existing = outputs.get(taskId)
+    if (existing?.finishedAt) return
+    setOutput(taskId, {
+      text: existing?.text ?? "",
+      nextSeq: existing?.nextSeq ?? 0,
+      truncated: existing?.truncated ?? false,
+      createdAt: existing?.createdAt ?? Date.now(),
+      finishedAt: Date.now(),
+      endStatus: status,
+    })
+    emit(taskId, { type: "end", status })
+    listeners.delete(taskId)
+  }
+
+  function reset(taskId: string): void {
+    if (!outputs.has(taskId)) return
+    const next = new Map(outputs)
+    next.delete(taskId)
+    outputs = next
+  }
+
+  function subscribe(taskId: string, listener: OutputListener): () => void {
+    const set = listeners.get(taskId) ?? new Set<OutputListener>()
+    set.add(listener)
+    listeners.set(taskId, set)
+    return () => {
+      set.delete(listener)
+      if (set.size === 0) listeners.delete(taskId)
+    }
+  }
+
+  // 定期清理已结束/过期的缓冲
+  const sweepInterval = setInterval(() => {
+    const now = Date.now()
+    const next = new Map<string, TaskOutput>()
+    for (const [taskId, output] of outputs) {
+      const expired = output.finishedAt
+        ? now - output.finishedAt >= FINISHED_RETENTION_MS
+        : now - output.createdAt >= MAX_AGE_MS
+      if (!expired) next.set(taskId, output)
+    }
+    outputs = next
+  }, 60_000)
+  sweepInterval.unref()
+
+  return {
+    append,
+    getText,
+    getTail,
+    isTruncated,
+    finish,
+    reset,
+    subscribe,
+    stop: () => clearInterval(sweepInterval),
+  }
+}
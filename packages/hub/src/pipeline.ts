@@ -0,0 +1,111 @@
+import { randomUUID } from "node:crypto"
+import type { TaskInfo, TaskPriority } from "@ccchat/shared"
+import { UPSTREAM_RESULTS_SEPARATOR, type TaskQueue } from "./task-queue.js"
+
+// 单条流水线最多步骤数
+export const MAX_PIPELINE_STEPS = 20
+
+export const TASK_STATUS_EMOJI: Record<TaskInfo["status"], string> = {
+  pending: "📋",
+  blocked: "⏸",
+  awaiting_approval: "🔔",
+  approved: "⏳",
+  running: "🔄",
+  completed: "✅",
+  failed: "❌",
+  rejected: "🚫",
+  cancelled: "⛔",
+  expired: "⌛",
+}
+
+const TERMINAL_STATUSES: ReadonlySet<TaskInfo["status"]> = new Set(["completed", "failed", "rejected", "cancelled", "expired"])
+
+export interface PipelineStep {
+  readonly agentName: string
+  readonly content: string
+  readonly workspace?: string
+  readonly priority?: TaskPriority
+  readonly safe?: boolean
+  /** 依赖的前序步骤下标（从 0 开始） */
+  readonly dependsOn: ReadonlyArray<number>
+}
+
+export interface Pipeline {
+  readonly pipelineId: string
+  /** 与步骤一一对应 */
+  readonly tasks: ReadonlyArray<TaskInfo>
+}
+
+/** 校验步骤，返回错误信息；依赖只能引用前序步骤，因此不会成环 */
+export function validatePipelineSteps(steps: ReadonlyArray<PipelineStep>): string | undefined {
+  if (steps.length === 0) return "流水线没有步骤"
+  if (steps.length > MAX_PIPELINE_STEPS) return `流水线最多 ${MAX_PIPELINE_STEPS} 个步骤`
+  for (const [index, step] of steps.entries()) {
+    for (const dep of step.dependsOn) {
+      if (!Number.isInteger(dep) || dep < 0 || dep >= index) {
+        return `第 ${index + 1} 步只能依赖它之前的步骤`
+      }
+    }
+  }
+  return undefined
+}
+
+/** 按步骤顺序创建任务：无依赖的步骤为 pending，其余以 blocked 状态等待上游 */
+export function createPipeline(
+  taskQueue: TaskQueue,
+  params: {
+    readonly steps: ReadonlyArray<PipelineStep>
+    readonly from: string
+    readonly chatId: number
+    readonly messageId: number
+    readonly requesterTelegramId?: number
+    readonly requesterUsername?: string
+  },
+): Pipeline {
+  const pipelineId = randomUUID()
+  const tasks: TaskInfo[] = []
+  for (const step of params.steps) {
+    tasks.push(taskQueue.createTask({
+      from: params.from,
+      to: step.agentName,
+      content: step.content,
+      chatId: params.chatId,
+      messageId: params.messageId,
+      workspace: step.workspace,
+      priority: step.priority,
+      safe: step.safe,
+      dependsOn: [...new Set(step.dependsOn)].map((dep) => tasks[dep].taskId),
+      pipelineId,
+      requesterTelegramId: params.requesterTelegramId,
+      requesterUsername: params.requesterUsername,
+    }))
+  }
+  return { pipelineId, tasks }
+}
+
+export function isPipelineFinished(tasks: ReadonlyArray<TaskInfo>): boolean {
+  return tasks.every((t) => TERMINAL_STATUSES.has(t.status))
+}
+
+/** 渲染流水线 DAG 状态（每个步骤一行，← 后为依赖的步骤序号） */
+export function renderPipeline(pipelineId: string, tasks: ReadonlyArray<TaskInfo>): string {
+  const stepNumbers = new Map(tasks.map((t, i) => [t.taskId, i + 1]))
+  const lines = tasks.map((t, i) => {
+    // 解除阻塞后内容包含上游结果，只展示原始任务描述
+    const description = t.content.split(UPSTREAM_RESULTS_SEPARATOR)[0]
+    const preview = description.slice(0, 40) + (description.length > 40 ? "..." : "")
+    const target = t.workspace ? `${t.to}#${t.workspace}` : t.to
+    const deps = (t.dependsOn ?? []).map((id) => stepNumbers.get(id)).filter((n) => n !== undefined)
+    return `${i + 1}. ${TASK_STATUS_EMOJI[t.status]} ${target}: ${preview}${deps.length > 0 ? ` ← ${deps.join(",")}` : ""}`
+  })
+  const completed = tasks.filter((t) => t.status === "completed").length
+  const footer = !isPipelineFinished(tasks)
+    ? []
+    : completed === tasks.length ? ["", "🎉 全部完成"] : ["", "⚠️ 流水线已结束（部分步骤未完成）"]
+  return [
+    `🔗 流水线 ${pipelineId.slice(0, 8)} (${completed}/${tasks.length} 完成)`,
+    "",
+    ...lines,
+    ...footer,
+  ].join("\n")
+}
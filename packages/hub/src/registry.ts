@@ -9,6 +9,12 @@ interface AgentConnection {
   readonly info: AgentInfo
 }
 
+// 注册时协商的协议信息
+export type AgentProtocolInfo = Pick<AgentInfo, "protocolVersion" | "daemonVersion" | "capabilities">
+
+// 注册时上报的调度上限
+export type AgentLimits = Pick<AgentInfo, "maxConcurrentTasks" | "maxQueuedTasks">
+
 // 已注册的 Agent 凭证（不一定在线）
 interface AgentCredential {
   readonly agentName: string
@@ -40,7 +46,13 @@ export interface Registry {
   readonly getCredential: (agentName: string) => AgentCredential | undefined
 
   // 连接管理
-  readonly register: (agentName: string, ws: WebSocket) => AgentInfo
+  readonly register: (
+    agentName: string,
+    ws: WebSocket,
+    workspaces?: ReadonlyArray<string>,
+    limits?: AgentLimits,
+    protocol?: AgentProtocolInfo,
+  ) => AgentInfo
   readonly unregister: (agentName: string) => void
   readonly getConnection: (agentName: string) => AgentConnection | undefined
   readonly getAgentByWs: (ws: WebSocket) => string | undefined
@@ -195,7 +207,13 @@ export function createRegistry(options?: RegistryOptions): Registry {
   }
 
   // 连接管理
-  function register(agentName: string, ws: WebSocket): AgentInfo {
+  function register(
+    agentName: string,
+    ws: WebSocket,
+    workspaces?: ReadonlyArray<string>,
+    limits?: AgentLimits,
+    protocol?: AgentProtocolInfo,
+  ): AgentInfo {
     const credential = state.credentials.get(agentName)
     const now = new Date().toISOString()
     const info: AgentInfo = {
@@ -204,6 +222,10 @@ export function createRegistry(options?: RegistryOptions): Registry {
       connectedAt: now,
       lastSeen: now,
       telegramUserId: credential?.telegramUserId,
+      ...(workspaces && workspaces.length > 0 ? { workspaces } : {}),
+      ...(limits?.maxConcurrentTasks ? { maxConcurrentTasks: limits.maxConcurrentTasks } : {}),
+      ...(limits?.maxQueuedTasks ? { maxQueuedTasks: limits.maxQueuedTasks } : {}),
+      ...protocol,
     }
     const newConnections = new Map(state.connections)
     newConnections.set(agentName, { ws, info })
@@ -0,0 +1,277 @@
+import { randomUUID } from "node:crypto"
+import type { TaskPolicyRule } from "@ccchat/shared"
+import type { PolicyAction, PolicyRuleRow, RuleRepo } from "./db/index.js"
+import { normalizeAclSubject, requesterSubjects, type AclRequester } from "./acl-store.js"
+import { DEFAULT_TIMEZONE, isValidTimeZone, zonedMinuteOfDay } from "./cron.js"
+
+export const POLICY_ACTIONS: ReadonlyArray<PolicyAction> = ["approve", "reject"]
+
+// 每个 Agent 的规则数上限
+const MAX_RULES_PER_AGENT = 50
+
+// 正则最大长度
+const MAX_PATTERN_LENGTH = 200
+
+export function isPolicyAction(value: unknown): value is PolicyAction {
+  return typeof value === "string" && (POLICY_ACTIONS as ReadonlyArray<string>).includes(value)
+}
+
+/** 规则条件（至少一项） */
+export interface PolicyRuleSpec {
+  readonly action: PolicyAction
+  readonly sender?: string
+  readonly pattern?: string
+  readonly hasAttachments?: boolean
+  readonly timeRange?: string
+  readonly timezone?: string
+}
+
+/** 待判定的任务 */
+export interface PolicyInput {
+  readonly requester: AclRequester
+  readonly content: string
+  readonly hasAttachments: boolean
+  readonly now?: Date
+}
+
+interface RuleStoreState {
+  /** agentName -> 规则（按创建顺序） */
+  readonly rules: ReadonlyMap<string, ReadonlyArray<PolicyRuleRow>>
+}
+
+export interface RuleStore {
+  /** 添加规则，条件无效时返回错误信息 */
+  readonly add: (agentName: string, spec: PolicyRuleSpec, createdBy: number) => PolicyRuleRow | string
+  /** 按 ID 或 ID 前缀删除规则 */
+  readonly remove: (agentName: string, idOrPrefix: string) => PolicyRuleRow | undefined
+  readonly list: (agentName: string) => ReadonlyArray<PolicyRuleRow>
+  /** 找出触发的规则：reject 规则优先，其次是第一条匹配的 approve 规则 */
+  readonly evaluate: (agentName: string, input: PolicyInput) => PolicyRuleRow | undefined
+  readonly loadFromRepo: () => Promise<void>
+}
+
+export interface RuleStoreOptions {
+  readonly ruleRepo?: RuleRepo
+}
+
+// 解析 HH:MM-HH:MM 为当天分钟数区间
+function parseTimeRange(text: string): { readonly start: number; readonly end: number } | undefined {
+  const match = text.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/)
+  if (!match) return undefined
+  const [h1, m1, h2, m2] = match.slice(1).map(Number)
+  if (h1 > 23 || h2 > 23 || m1 > 59 || m2 > 59) return undefined
+  const start = h1 * 60 + m1
+  const end = h2 * 60 + m2
+  return start === end ? undefined : { start, end }
+}
+
+// 位置 index 处是否为量词（*、+、{n}、{n,}、{n,m}）
+function isQuantifierAt(pattern: string, index: number): boolean {
+  const char = pattern[index]
+  return char === "*" || char === "+" || /^\{\d+(,\d*)?\}/.test(pattern.slice(index))
+}
+
+/** 量词作用于本身含量词的分组（如 (a+)+、(\w*)*）时，不匹配的长输入会导致灾难性回溯，卡住整个 Hub */
+function hasNestedQuantifier(pattern: string): boolean {
+  // 每层未闭合的分组内是否出现过量词
+  const groups: boolean[] = []
+  let inClass = false
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+    if (char === "\\") {
+      index++
+      continue
+    }
+    if (inClass) {
+      if (char === "]") inClass = false
+      continue
+    }
+    if (char === "[") {
+      inClass = true
+    } else if (char === "(") {
+      groups.push(false)
+    } else if (char === ")") {
+      const inner = groups.pop() ?? false
+      const quantified = isQuantifierAt(pattern, index + 1)
+      if (inner && quantified) return true
+      if (groups.length > 0) groups[groups.length - 1] ||= inner || quantified
+    } else if (groups.length > 0 && isQuantifierAt(pattern, index)) {
+      groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+function compilePattern(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, "i")
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * 解析 /rules 参数：开头的 from= / attach= / time= / tz= 为条件，其余内容作为正则
+ * 例：from=@lily ^review、attach=yes time=22:00-08:00、rm -rf|deploy prod
+ */
+export function parseRuleSpec(action: PolicyAction, args: ReadonlyArray<string>): PolicyRuleSpec | string {
+  const options: Record<string, string> = {}
+  let index = 0
+  for (; index < args.length; index++) {
+    const option = args[index].match(/^(from|attach|time|tz)=(.+)$/)
+    if (!option) break
+    options[option[1]] = option[2]
+  }
+  const pattern = args.slice(index).join(" ").trim()
+  if (options.attach !== undefined && !["yes", "no"].includes(options.attach)) return "attach 只能是 yes 或 no"
+  return {
+    action,
+    ...(options.from ? { sender: options.from } : {}),
+    ...(pattern ? { pattern } : {}),
+    ...(options.attach ? { hasAttachments: options.attach === "yes" } : {}),
+    ...(options.time ? { timeRange: options.time } : {}),
+    ...(options.tz ? { timezone: options.tz } : {}),
+  }
+}
+
+/** 规则条件的可读描述 */
+export function describeRule(rule: PolicyRuleRow): string {
+  const conditions = [
+    ...(rule.sender ? [`from=${rule.sender}`] : []),
+    ...(rule.hasAttachments !== undefined ? [`attach=${rule.hasAttachments ? "yes" : "no"}`] : []),
+    ...(rule.timeRange ? [`time=${rule.timeRange}${rule.timezone !== DEFAULT_TIMEZONE ? ` tz=${rule.timezone}` : ""}`] : []),
+    ...(rule.pattern ? [`/${rule.pattern}/`] : []),
+  ]
+  return conditions.join(" ")
+}
+
+/** 规则 ID 的展示形式（前 8 位，/rules remove 接受任意唯一前缀） */
+export function shortRuleId(ruleId: string): string {
+  return ruleId.slice(0, 8)
+}
+
+/** 记录到任务上的规则摘要 */
+export function toTaskPolicyRule(rule: PolicyRuleRow): TaskPolicyRule {
+  return { ruleId: rule.ruleId, action: rule.action, description: describeRule(rule) }
+}
+
+/** 命中拒绝规则时告知请求方的原因 */
+export function policyRejectionReason(rule: PolicyRuleRow): string {
+  return `任务命中 ${rule.agentName} 的拒绝规则 ${shortRuleId(rule.ruleId)}（${describeRule(rule)}）`
+}
+
+/** 创建自动审批规则存储：按请求方、内容正则、附件和时段自动批准或拒绝任务 */
+export function createRuleStore(options: RuleStoreOptions = {}): RuleStore {
+  const { ruleRepo: repo } = options
+  let state: RuleStoreState = { rules: new Map() }
+  // 编译后的正则（ruleId -> RegExp）
+  const patterns = new Map<string, RegExp>()
+
+  function put(rule: PolicyRuleRow): void {
+    const next = new Map(state.rules)
+    next.set(rule.agentName, [...(state.rules.get(rule.agentName) ?? []), rule])
+    state = { rules: next }
+    // 旧版本存下的嵌套量词正则不再编译，该规则不会匹配
+    if (rule.pattern && hasNestedQuantifier(rule.pattern)) {
+      process.stderr.write(`Policy rule ${rule.ruleId} has a nested quantifier, pattern disabled\n`)
+      return
+    }
+    const regex = rule.pattern ? compilePattern(rule.pattern) : undefined
+    if (regex) patterns.set(rule.ruleId, regex)
+  }
+
+  function add(agentName: string, spec: PolicyRuleSpec, createdBy: number): PolicyRuleRow | string {
+    if ((state.rules.get(agentName)?.length ?? 0) >= MAX_RULES_PER_AGENT) return `每个 Agent 最多 ${MAX_RULES_PER_AGENT} 条规则`
+    const sender = spec.sender !== undefined ? normalizeAclSubject(spec.sender) : undefined
+    if (spec.sender !== undefined && !sender) return `无效的请求方: ${spec.sender}（应为 Telegram ID、@username 或 agent:<name>）`
+    if (spec.pattern !== undefined) {
+      if (spec.pattern.length > MAX_PATTERN_LENGTH) return `正则最长 ${MAX_PATTERN_LENGTH} 个字符`
+      if (!compilePattern(spec.pattern)) return `无效的正则: ${spec.pattern}`
+      if (hasNestedQuantifier(spec.pattern)) return `正则不能对含量词的分组再加量词（如 (a+)+），可能导致匹配卡死: ${spec.pattern}`
+    }
+    if (spec.timeRange !== undefined && !parseTimeRange(spec.timeRange)) return `无效的时段: ${spec.timeRange}（格式 09:00-18:00）`
+    const timezone = spec.timezone ?? DEFAULT_TIMEZONE
+    if (!isValidTimeZone(timezone)) return `无效的时区: ${timezone}`
+    if (!sender && spec.pattern === undefined && spec.hasAttachments === undefined && spec.timeRange === undefined) {
+      return "规则至少需要一个条件"
+    }
+
+    const rule: PolicyRuleRow = {
+      ruleId: randomUUID(),
+      agentName,
+      action: spec.action,
+      ...(sender ? { sender } : {}),
+      ...(spec.pattern !== undefined ? { pattern: spec.pattern } : {}),
+      ...(spec.hasAttachments !== undefined ? { hasAttachments: spec.hasAttachments } : {}),
+      ...(spec.timeRange !== undefined ? { timeRange: spec.timeRange } : {}),
+      timezone,
+      createdBy,
+      createdAt: new Date().toISOString(),
+    }
+    put(rule)
+    repo?.save(rule).catch((err) => {
+      process.stderr.write(`DB rule save failed: ${err}\n`)
+    })
+    return rule
+  }
+
+  function remove(agentName: string, idOrPrefix: string): PolicyRuleRow | undefined {
+    const rules = state.rules.get(agentName) ?? []
+    const matches = rules.filter((r) => r.ruleId.startsWith(idOrPrefix))
+    if (matches.length !== 1) return undefined
+    const [rule] = matches
+    const next = new Map(state.rules)
+    const remaining = rules.filter((r) => r.ruleId !== rule.ruleId)
+    if (remaining.length > 0) next.set(agentName, remaining)
+    else next.delete(agentName)
+    state = { rules: next }
+    patterns.delete(rule.ruleId)
+    repo?.delete(rule.ruleId).catch((err) => {
+      process.stderr.write(`DB rule delete failed: ${err}\n`)
+    })
+    return rule
+  }
+
+  function matches(rule: PolicyRuleRow, input: PolicyInput, subjects: ReadonlyArray<string>): boolean {
+    if (rule.sender && !subjects.includes(rule.sender)) return false
+    if (rule.hasAttachments !== undefined && rule.hasAttachments !== input.hasAttachments) return false
+    if (rule.pattern) {
+      const regex = patterns.get(rule.ruleId)
+      if (!regex || !regex.test(input.content)) return false
+    }
+    if (rule.timeRange) {
+      const range = parseTimeRange(rule.timeRange)
+      if (!range) return false
+      const minute = zonedMinuteOfDay(input.now ?? new Date(), rule.timezone)
+      // 结束早于开始时为跨午夜时段（如 22:00-08:00）
+      const inRange = range.start < range.end
+        ? minute >= range.start && minute < range.end
+        : minute >= range.start || minute < range.end
+      if (!inRange) return false
+    }
+    return true
+  }
+
+  function evaluate(agentName: string, input: PolicyInput): PolicyRuleRow | undefined {
+    const subjects = requesterSubjects(input.requester)
+    const matched = (state.rules.get(agentName) ?? []).filter((r) => matches(r, input, subjects))
+    return matched.find((r) => r.action === "reject") ?? matched[0]
+  }
+
+  async function loadFromRepo(): Promise<void> {
+    if (!repo) return
+    const rows = await repo.loadAll()
+    for (const row of rows) put(row)
+    if (rows.length > 0) {
+      process.stdout.write(`Loaded ${rows.length} policy rules from DB\n`)
+    }
+  }
+
+  return {
+    add,
+    remove,
+    list: (agentName: string) => state.rules.get(agentName) ?? [],
+    evaluate,
+    loadFromRepo,
+  }
+}
@@ -0,0 +1,202 @@
+import { randomUUID } from "node:crypto"
+import type { TaskPriority } from "@ccchat/shared"
+import type { ScheduleRepo, ScheduleRow } from "./db/index.js"
+import { computeNextRun, DEFAULT_TIMEZONE, type ScheduleSpec } from "./cron.js"
+
+// 到期检查间隔
+const TICK_INTERVAL_MS = 30_000
+// 每个群聊（API 创建的按 Agent 计）最多保留的定时任务数
+const MAX_SCHEDULES_PER_OWNER = 50
+
+interface SchedulerState {
+  readonly schedules: ReadonlyMap<string, ScheduleRow>
+}
+
+export interface CreateScheduleParams {
+  readonly agentName: string
+  readonly content: string
+  readonly workspace?: string
+  readonly priority?: TaskPriority
+  readonly spec: ScheduleSpec
+  readonly timezone: string
+  readonly chatId: number
+  readonly createdBy: string
+  readonly creatorTelegramId?: number
+  readonly creatorUsername?: string
+}
+
+export type ScheduleFireCallback = (schedule: ScheduleRow) => void
+
+export interface Scheduler {
+  /** 创建定时任务，超出数量上限或无后续执行时间时返回错误信息 */
+  readonly create: (params: CreateScheduleParams) => ScheduleRow | string
+  /** 按 ID 或 ID 前缀查找 */
+  readonly find: (idOrPrefix: string) => ScheduleRow | undefined
+  readonly list: (filter?: { readonly chatId?: number; readonly agentName?: string }) => ReadonlyArray<ScheduleRow>
+  readonly setPaused: (scheduleId: string, paused: boolean) => ScheduleRow | undefined
+  readonly remove: (scheduleId: string) => boolean
+  /** 群聊的时区：沿用该群最近创建的定时任务的时区 */
+  readonly getChatTimezone: (chatId: number) => string
+  readonly onFire: (callback: ScheduleFireCallback) => void
+  readonly loadFromRepo: () => Promise<void>
+  readonly stop: () => void
+}
+
+export interface SchedulerOptions {
+  readonly scheduleRepo?: ScheduleRepo
+}
+
+function specOf(schedule: ScheduleRow): ScheduleSpec | undefined {
+  if (schedule.cron) return { cron: schedule.cron }
+  if (schedule.runAt) return { runAt: schedule.runAt }
+  return undefined
+}
+
+/** 创建定时任务调度器：到期后通过回调创建任务（审批规则与手动提交一致） */
+export function createScheduler(options?: SchedulerOptions): Scheduler {
+  const repo = options?.scheduleRepo
+  let state: SchedulerState = { schedules: new Map() }
+  let fireCallback: ScheduleFireCallback | undefined
+
+  function persistSave(schedule: ScheduleRow): void {
+    repo?.save(schedule).catch((err) => {
+      process.stderr.write(`DB schedule save failed: ${err}\n`)
+    })
+  }
+
+  function persistDelete(scheduleId: string): void {
+    repo?.delete(scheduleId).catch((err) => {
+      process.stderr.write(`DB schedule delete failed: ${err}\n`)
+    })
+  }
+
+  function setSchedule(schedule: ScheduleRow): void {
+    const next = new Map(state.schedules)
+    next.set(schedule.scheduleId, schedule)
+    state = { schedules: next }
+    persistSave(schedule)
+  }
+
+  function deleteSchedule(scheduleId: string): void {
+    const next = new Map(state.schedules)
+    next.delete(scheduleId)
+    state = { schedules: next }
+    persistDelete(scheduleId)
+  }
+
+  function create(params: CreateScheduleParams): ScheduleRow | string {
+    const owned = [...state.schedules.values()].filter((s) => params.chatId !== 0
+      ? s.chatId === params.chatId
+      : s.chatId === 0 && s.createdBy === params.createdBy)
+    if (owned.length >= MAX_SCHEDULES_PER_OWNER) {
+      return `定时任务数量已达上限 (${MAX_SCHEDULES_PER_OWNER})`
+    }
+    const nextRunAt = computeNextRun(params.spec, params.timezone, new Date())
+    if (!nextRunAt) return "找不到下一次执行时间"
+
+    const schedule: ScheduleRow = {
+      scheduleId: randomUUID(),
+      agentName: params.agentName,
+      content: params.content,
+      ...(params.workspace ? { workspace: params.workspace } : {}),
+      ...(params.priority ? { priority: params.priority } : {}),
+      ...("cron" in params.spec ? { cron: params.spec.cron } : { runAt: params.spec.runAt }),
+      timezone: params.timezone,
+      chatId: params.chatId,
+      createdBy: params.createdBy,
+      ...(params.creatorTelegramId ? { creatorTelegramId: params.creatorTelegramId } : {}),
+      ...(params.creatorUsername ? { creatorUsername: params.creatorUsername } : {}),
+      paused: false,
+      nextRunAt,
+      createdAt: new Date().toISOString(),
+    }
+    setSchedule(schedule)
+    return schedule
+  }
+
+  function find(idOrPrefix: string): ScheduleRow | undefined {
+    const exact = state.schedules.get(idOrPrefix)
+    if (exact) return exact
+    const matches = [...state.schedules.values()].filter((s) => s.scheduleId.startsWith(idOrPrefix))
+    return matches.length === 1 ? matches[0] : undefined
+  }
+
+  function list(filter?: { readonly chatId?: number; readonly agentName?: string }): ReadonlyArray<ScheduleRow> {
+    return [...state.schedules.values()].filter((s) =>
+      (filter?.chatId === undefined || s.chatId === filter.chatId)
+      && (filter?.agentName === undefined || s.agentName === filter.agentName))
+  }
+
+  function setPaused(scheduleId: string, paused: boolean): ScheduleRow | undefined {
+    const existing = state.schedules.get(scheduleId)
+    if (!existing) return undefined
+    const spec = specOf(existing)
+    // 恢复时从当前时间重新计算，不补跑暂停期间错过的执行
+    const nextRunAt = !paused && spec ? computeNextRun(spec, existing.timezone, new Date()) : existing.nextRunAt
+    const updated: ScheduleRow = { ...existing, paused, nextRunAt }
+    setSchedule(updated)
+    return updated
+  }
+
+  function remove(scheduleId: string): boolean {
+    if (!state.schedules.has(scheduleId)) return false
+    deleteSchedule(scheduleId)
+    return true
+  }
+
+  function getChatTimezone(chatId: number): string {
+    const latest = list({ chatId }).at(-1)
+    return latest?.timezone ?? DEFAULT_TIMEZONE
+  }
+
+  // 触发到期的定时任务（停机期间错过的多次执行只补一次）
+  function tick(): void {
+    const now = new Date()
+    for (const schedule of state.schedules.values()) {
+      if (schedule.paused || !schedule.nextRunAt) continue
+      if (new Date(schedule.nextRunAt).getTime() > now.getTime()) continue
+
+      const spec = specOf(schedule)
+      const nextRunAt = spec && "cron" in spec ? computeNextRun(spec, schedule.timezone, now) : undefined
+      if (nextRunAt) {
+        setSchedule({ ...schedule, nextRunAt, lastRunAt: now.toISOString() })
+      } else {
+        // 一次性任务执行后删除
+        deleteSchedule(schedule.scheduleId)
+      }
+      try {
+        fireCallback?.(schedule)
+      } catch (err) {
+        process.stderr.write(`Schedule fire error: ${err}\n`)
+      }
+    }
+  }
+
+  async function loadFromRepo(): Promise<void> {
+    if (!repo) return
+    const rows = await repo.loadAll()
+    const next = new Map(state.schedules)
+    for (const row of rows) next.set(row.scheduleId, row)
+    state = { schedules: next }
+    if (rows.length > 0) {
+      process.stdout.write(`Loaded ${rows.length} schedules from DB\n`)
+    }
+  }
+
+  const tickInterval = setInterval(tick, TICK_INTERVAL_MS)
+  tickInterval.unref()
+
+  return {
+    create,
+    find,
+    list,
+    setPaused,
+    remove,
+    getChatTimezone,
+    onFire: (callback: ScheduleFireCallback) => {
+      fireCallback = callback
+    },
+    loadFromRepo,
+    stop: () => clearInterval(tickInterval),
+  }
+}
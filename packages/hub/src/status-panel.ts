@@ -2,6 +2,7 @@ import type { Bot } from "grammy"
 import type { Registry } from "./registry.js"
 import type { AgentStatusStore } from "./agent-status-store.js"
 import type { DbPool } from "./db/connection.js"
+import type { AgentLoad } from "./ws-server.js"
 
 /** 格式化空闲时间 */
 function formatIdleTime(idleSince: string): string {
@@ -18,6 +19,7 @@ function formatIdleTime(idleSince: string): string {
 function buildPanelText(
   registry: Registry,
   statusStore?: AgentStatusStore,
+  getAgentLoad?: (agentName: string) => AgentLoad,
 ): string {
   const agents = registry.listAgents()
   const now = new Date().toLocaleString("zh-CN", { timeZone: "Asia/Shanghai" })
@@ -40,6 +42,9 @@ function buildPanelText(
     if (status) {
       if (status.runningTasks > 0) {
         parts.push(`   🔧 执行中: ${status.runningTasks} 个任务`)
+        if (status.queuedTasks > 0) {
+          parts.push(`   ⏳ 排队中: ${status.queuedTasks} 个任务${status.queueFull ? "（已满）" : ""}`)
+        }
       } else if (status.idleSince) {
         parts.push(`   💤 空闲 ${formatIdleTime(status.idleSince)}`)
       }
@@ -47,6 +52,10 @@ function buildPanelText(
         parts.push(`   ✅ 已完成: ${status.totalCompleted}`)
       }
     }
+    const load = getAgentLoad?.(a.name)
+    if (load && load.queued > 0) {
+      parts.push(`   📥 待分发: ${load.queued} 个任务（槽位 ${load.inFlight}/${load.capacity}）`)
+    }
 
     return parts.join("\n")
   })
@@ -71,6 +80,7 @@ export function createStatusPanel(
   registry: Registry,
   statusStore?: AgentStatusStore,
   pool?: DbPool,
+  getAgentLoad?: (agentName: string) => AgentLoad,
 ): StatusPanel {
   let panels = new Map<number, number>() // chatId -> messageId
   let debounceTimer: ReturnType<typeof setTimeout> | undefined
@@ -109,7 +119,7 @@ export function createStatusPanel(
 
   /** 更新或创建面板消息 */
   async function updatePanel(chatId: number): Promise<void> {
-    const text = buildPanelText(registry, statusStore)
+    const text = buildPanelText(registry, statusStore, getAgentLoad)
     const messageId = panels.get(chatId)
 
     if (messageId) {
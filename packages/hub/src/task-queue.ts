@@ -1,6 +1,37 @@
-import type { TaskInfo, TaskAttachment } from "@ccchat/shared"
+import type { TaskInfo, TaskAttachment, TaskAttempt, TaskApproval, TaskPolicyRule, TaskErrorKind, TaskPriority } from "@ccchat/shared"
 import { randomUUID } from "node:crypto"
-import type { TaskRepo } from "./db/index.js"
+import type { TaskRepo, TaskDiffRow } from "./db/index.js"
+
+// 优先级从低到高
+export const TASK_PRIORITIES: ReadonlyArray<TaskPriority> = ["low", "normal", "high", "urgent"]
+
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return typeof value === "string" && (TASK_PRIORITIES as ReadonlyArray<string>).includes(value)
+}
+
+// 注入下游任务内容的单个上游结果最大字符数
+const MAX_UPSTREAM_RESULT_CHARS = 20_000
+// 上游结果追加在原任务内容之后，以此分隔
+export const UPSTREAM_RESULTS_SEPARATOR = "\n\n---\n上游任务结果:\n\n"
+
+// 未指定 maxRetries 时可重试错误的自动重试次数
+export const DEFAULT_MAX_RETRIES = 2
+// 单个任务允许设置的最大重试次数
+export const MAX_TASK_RETRIES = 5
+// 重试退避：30 秒起按 2 的幂增长，最长 10 分钟
+const RETRY_BASE_DELAY_MS = 30_000
+const RETRY_MAX_DELAY_MS = 10 * 60_000
+// 执行记录中保留的错误信息长度
+const ATTEMPT_ERROR_CHARS = 200
+
+/** 第 attempt 次失败后的重试等待时间（attempt 从 1 开始） */
+export function retryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS)
+}
+
+function priorityRank(task: TaskInfo | undefined): number {
+  return TASK_PRIORITIES.indexOf(task?.priority ?? "normal")
+}
 
 // 任务队列状态
 interface TaskQueueState {
@@ -9,6 +40,7 @@ interface TaskQueueState {
   // 对话索引
   readonly tasksByConversation: ReadonlyMap<string, ReadonlyArray<string>>
   readonly taskByResultMessageId: ReadonlyMap<number, string>
+  readonly tasksByPipeline: ReadonlyMap<string, ReadonlyArray<string>>
 }
 
 // 创建任务的参数
@@ -20,8 +52,29 @@ interface CreateTaskParams {
   readonly messageId: number
   readonly conversationId?: string
   readonly parentTaskId?: string
+  readonly workspace?: string
+  readonly priority?: TaskPriority
+  /** 非空时任务以 blocked 状态创建，上游全部完成后进入待分发队列 */
+  readonly dependsOn?: ReadonlyArray<string>
+  readonly pipelineId?: string
+  readonly fanoutParentId?: string
+  readonly maxRetries?: number
+  /** 请求方标记为安全（!safe）的任务 */
+  readonly safe?: boolean
+  /** 群聊请求方身份（上游完成后下游步骤的审批判定需要） */
+  readonly requesterTelegramId?: number
+  readonly requesterUsername?: string
+}
+
+/** 扇出任务的一个目标 */
+export interface FanoutTarget {
+  readonly agentName: string
+  readonly workspace?: string
 }
 
+/** 任务状态变化回调（含上游完成后的解除阻塞） */
+export type TaskStatusCallback = (task: TaskInfo, previousStatus: TaskInfo["status"]) => void
+
 // 活跃对话信息
 export interface ActiveConversation {
   readonly conversationId: string
@@ -40,12 +93,38 @@ export interface TaskQueue {
     result?: string,
   ) => TaskInfo | undefined
   readonly getPendingTasks: (agentName: string) => ReadonlyArray<TaskInfo>
+  /** 已分发、执行中的任务（不含扇出父任务：父任务只用于汇总，从不分发） */
+  readonly getRunningTasks: (agentName?: string) => ReadonlyArray<TaskInfo>
   readonly removePending: (agentName: string, taskId: string) => void
+  /** 在待分发队列中上移/下移一位，已在边界时返回 false */
+  readonly movePending: (agentName: string, taskId: string, direction: "up" | "down") => boolean
+  // 重试
+  /** 记录一次失败的执行 */
+  readonly recordAttempt: (taskId: string, error: string, errorKind: TaskErrorKind) => TaskInfo | undefined
+  /** 运行中或已失败的任务重新进入待分发队列（保持已审批），delayMs 内不会分发 */
+  readonly retryTask: (taskId: string, delayMs?: number) => TaskInfo | undefined
+  // 流水线
+  readonly getTasksByPipeline: (pipelineId: string) => ReadonlyArray<TaskInfo>
+  // 扇出：父任务不进入待分发队列，所有子任务结束后自动汇总结果
+  readonly createFanout: (
+    params: Omit<CreateTaskParams, "to" | "workspace">,
+    label: string,
+    targets: ReadonlyArray<FanoutTarget>,
+  ) => { readonly parent: TaskInfo; readonly children: ReadonlyArray<TaskInfo> }
+  readonly getFanoutChildren: (parentTaskId: string) => ReadonlyArray<TaskInfo>
+  readonly onStatusChange: (callback: TaskStatusCallback) => void
   // 多轮对话
   readonly getTasksByConversation: (conversationId: string) => ReadonlyArray<TaskInfo>
   readonly findTaskByResultMessageId: (messageId: number) => TaskInfo | undefined
   readonly setResultMessageId: (taskId: string, messageId: number) => void
+  readonly setBranch: (taskId: string, branch: string) => void
   readonly updateChatInfo: (taskId: string, chatId: number, messageId: number) => void
+  /** 记录一位审批人的批准（同一人重复批准不计数），返回更新后的任务 */
+  readonly addApproval: (taskId: string, approval: TaskApproval) => TaskInfo | undefined
+  /** 记录自动批准或拒绝此任务的规则 */
+  readonly setPolicyRule: (taskId: string, policyRule: TaskPolicyRule) => void
+  /** 审批人修改任务内容（保留最初的原始内容，清空此前针对旧内容的批准），返回更新后的任务 */
+  readonly amendContent: (taskId: string, content: string, amendedBy: string) => TaskInfo | undefined
   // 对话生命周期
   readonly closeConversation: (conversationId: string) => void
   readonly isConversationClosed: (conversationId: string) => boolean
@@ -59,6 +138,16 @@ export interface TaskQueue {
   readonly setAttachments: (taskId: string, attachments: ReadonlyArray<TaskAttachment>) => void
   readonly getAttachments: (taskId: string) => ReadonlyArray<TaskAttachment> | undefined
   readonly clearAttachments: (taskId: string) => void
+  // 完整结果存档
+  readonly saveArtifact: (taskId: string, content: string) => void
+  readonly getArtifact: (taskId: string) => Promise<string | undefined>
+  // Agent 返回的输出文件
+  readonly saveOutputFiles: (taskId: string, files: ReadonlyArray<TaskAttachment>) => void
+  readonly getOutputFiles: (taskId: string) => Promise<ReadonlyArray<TaskAttachment>>
+  // git patch 模式的改动
+  readonly saveDiff: (taskId: string, diff: string, truncated: boolean) => void
+  readonly getDiff: (taskId: string) => Promise<TaskDiffRow | undefined>
+  readonly setDiffStatus: (taskId: string, status: TaskDiffRow["status"]) => void
   // 持久化
   readonly loadFromRepo: () => Promise<void>
   // 清理
@@ -71,6 +160,16 @@ export interface TaskQueueOptions {
   readonly conversationTimeout?: number
   /** 对话超时关闭时的回调 */
   readonly onConversationClosed?: (conversationId: string, lastTask: TaskInfo) => void
+  /** Agent 的审批有效期（毫秒），返回 undefined 时审批不会过期 */
+  readonly approvalTtlMs?: (agentName: string) => number | undefined
+  /** 定时扫描（超时对话、过期审批、内存清理）的间隔（毫秒），默认 1 分钟 */
+  readonly sweepIntervalMs?: number
+}
+
+const TERMINAL_STATUSES: ReadonlySet<TaskInfo["status"]> = new Set(["completed", "failed", "cancelled", "rejected", "expired"])
+
+function isTerminalStatus(status: TaskInfo["status"]): boolean {
+  return TERMINAL_STATUSES.has(status)
 }
 
 // 创建任务队列实例
@@ -85,12 +184,19 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
   /** 附件最大保留时间（30分钟未 dispatch 则清理） */
   const attachmentRetention = 30 * 60 * 1000
   const attachments = new Map<string, ReadonlyArray<TaskAttachment>>()
+  // 无 DB 时完整结果存于内存（随终态任务一起清理）
+  const artifacts = new Map<string, string>()
+  const outputFiles = new Map<string, ReadonlyArray<TaskAttachment>>()
+  // 改动状态会在任务结束后变化，内存副本保留到任务被清理
+  const diffs = new Map<string, TaskDiffRow>()
+  let statusCallback: TaskStatusCallback | undefined
 
   let state: TaskQueueState = {
     tasks: new Map(),
     pendingByAgent: new Map(),
     tasksByConversation: new Map(),
     taskByResultMessageId: new Map(),
+    tasksByPipeline: new Map(),
   }
 
   // 异步持久化（返回 Promise 供需要顺序依赖的场景 await）
@@ -115,6 +221,13 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     })
   }
 
+  function persistPendingOrder(agentName: string): Promise<void> {
+    if (!repo) return Promise.resolve()
+    return repo.savePendingOrder(agentName, state.pendingByAgent.get(agentName) ?? []).catch((err) => {
+      process.stderr.write(`DB pending order save failed: ${err}\n`)
+    })
+  }
+
   function persistPendingRemove(agentName: string, taskId: string): void {
     if (!repo) return
     repo.removePending(agentName, taskId).catch((err) => {
@@ -132,6 +245,14 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     lastActivityByConversation.set(task.conversationId, Date.now())
   }
 
+  function indexPipeline(task: TaskInfo): void {
+    if (!task.pipelineId) return
+    const existing = state.tasksByPipeline.get(task.pipelineId) ?? []
+    const newIndex = new Map(state.tasksByPipeline)
+    newIndex.set(task.pipelineId, [...existing, task.taskId])
+    state = { ...state, tasksByPipeline: newIndex }
+  }
+
   function indexResultMessageId(taskId: string, msgId: number): void {
     const newIndex = new Map(state.taskByResultMessageId)
     newIndex.set(msgId, taskId)
@@ -146,6 +267,7 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     const newTasks = new Map(state.tasks)
     const newConvIndex = new Map(state.tasksByConversation)
     const newResultMsgIndex = new Map(state.taskByResultMessageId)
+    const newPipelineIndex = new Map(state.tasksByPipeline)
 
     for (const task of tasks) {
       newTasks.set(task.taskId, task)
@@ -156,6 +278,10 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
       if (task.resultMessageId) {
         newResultMsgIndex.set(task.resultMessageId, task.taskId)
       }
+      if (task.pipelineId) {
+        const list = newPipelineIndex.get(task.pipelineId) ?? []
+        newPipelineIndex.set(task.pipelineId, [...list, task.taskId])
+      }
     }
 
     const newPending = new Map(state.pendingByAgent)
@@ -168,29 +294,43 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
       pendingByAgent: newPending,
       tasksByConversation: newConvIndex,
       taskByResultMessageId: newResultMsgIndex,
+      tasksByPipeline: newPipelineIndex,
     }
     process.stdout.write(`Loaded ${tasks.length} tasks from DB\n`)
   }
 
-  function createTask(params: CreateTaskParams): { readonly task: TaskInfo; readonly persisted: Promise<void> } {
-    const taskId = randomUUID()
+  function createTask(
+    params: CreateTaskParams & { readonly fanoutChildIds?: ReadonlyArray<string> },
+    taskId: string = randomUUID(),
+  ): { readonly task: TaskInfo; readonly persisted: Promise<void> } {
     const conversationId = params.conversationId ?? randomUUID()
     const task: TaskInfo = {
       taskId,
       from: params.from,
       to: params.to,
       content: params.content,
-      status: "pending",
+      status: params.dependsOn?.length ? "blocked" : "pending",
       createdAt: new Date().toISOString(),
       chatId: params.chatId,
       messageId: params.messageId,
       conversationId,
       parentTaskId: params.parentTaskId,
+      ...(params.workspace ? { workspace: params.workspace } : {}),
+      priority: params.priority ?? "normal",
+      ...(params.dependsOn?.length ? { dependsOn: params.dependsOn } : {}),
+      ...(params.pipelineId ? { pipelineId: params.pipelineId } : {}),
+      ...(params.fanoutParentId ? { fanoutParentId: params.fanoutParentId } : {}),
+      ...(params.fanoutChildIds ? { fanoutChildIds: params.fanoutChildIds } : {}),
+      ...(params.maxRetries !== undefined ? { maxRetries: params.maxRetries } : {}),
+      ...(params.safe ? { safe: true } : {}),
+      ...(params.requesterTelegramId !== undefined ? { requesterTelegramId: params.requesterTelegramId } : {}),
+      ...(params.requesterUsername ? { requesterUsername: params.requesterUsername } : {}),
     }
     const newTasks = new Map(state.tasks)
     newTasks.set(taskId, task)
     state = { ...state, tasks: newTasks }
     indexConversation(task)
+    indexPipeline(task)
     const persisted = persistTask(task)
     return { task, persisted }
   }
@@ -207,12 +347,17 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     const existing = state.tasks.get(taskId)
     if (!existing) return undefined
 
-    const isTerminal = status === "completed" || status === "failed" || status === "cancelled" || status === "rejected"
+    const isTerminal = isTerminalStatus(status)
+    // 进入审批时确定截止时间（之后修改 Agent 的有效期不影响已在等待的任务）
+    const ttl = status === "awaiting_approval" && existing.status !== "awaiting_approval"
+      ? options?.approvalTtlMs?.(existing.to)
+      : undefined
     const updated: TaskInfo = {
       ...existing,
       status,
       ...(result !== undefined ? { result } : {}),
       ...(isTerminal ? { completedAt: new Date().toISOString() } : {}),
+      ...(ttl !== undefined ? { approvalExpiresAt: new Date(Date.now() + ttl).toISOString() } : {}),
     }
     const newTasks = new Map(state.tasks)
     newTasks.set(taskId, updated)
@@ -225,20 +370,172 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     if (isTerminal && existing.conversationId) {
       lastActivityByConversation.set(existing.conversationId, Date.now())
     }
+    notifyStatusChange(updated, existing.status)
+    if (isTerminal) {
+      resolveDependents(updated).catch((err) => {
+        process.stderr.write(`Resolve dependents failed: ${err}\n`)
+      })
+    }
+    if (isTerminal && updated.fanoutParentId) {
+      resolveFanoutParent(updated.fanoutParentId).catch((err) => {
+        process.stderr.write(`Resolve fanout parent failed: ${err}\n`)
+      })
+    }
+    return updated
+  }
+
+  function notifyStatusChange(task: TaskInfo, previousStatus: TaskInfo["status"]): void {
+    if (task.status === previousStatus) return
+    try {
+      statusCallback?.(task, previousStatus)
+    } catch (err) {
+      process.stderr.write(`Task status callback error: ${err}\n`)
+    }
+  }
+
+  // 上游任务可能已完成并移出内存，回退到 DB 查询
+  async function findTask(taskId: string): Promise<TaskInfo | undefined> {
+    return state.tasks.get(taskId) ?? repo?.findById(taskId)
+  }
+
+  // 上游任务结束：全部完成则注入结果并解除阻塞，任一未成功则级联取消下游
+  async function resolveDependents(upstream: TaskInfo): Promise<void> {
+    const dependents = [...state.tasks.values()]
+      .filter((t) => t.status === "blocked" && t.dependsOn?.includes(upstream.taskId))
+    for (const dependent of dependents) {
+      if (upstream.status !== "completed") {
+        updateStatus(dependent.taskId, "cancelled", `上游任务 ${upstream.taskId.slice(0, 8)} (${upstream.to}) 未完成: ${upstream.status}`)
+        continue
+      }
+      const upstreamTasks = await Promise.all((dependent.dependsOn ?? []).map(findTask))
+      if (upstreamTasks.some((t) => t?.status !== "completed")) continue
+
+      const sections = await Promise.all(upstreamTasks.map(async (t) => {
+        const full = (await getArtifact(t!.taskId)) ?? t!.result ?? ""
+        const result = full.length > MAX_UPSTREAM_RESULT_CHARS
+          ? `${full.slice(0, MAX_UPSTREAM_RESULT_CHARS)}\n...(结果已截断)`
+          : full
+        return `### ${t!.to} (${t!.taskId.slice(0, 8)})\n${result}`
+      }))
+      // 等待期间可能已被取消或由另一个上游解除阻塞
+      const current = state.tasks.get(dependent.taskId)
+      if (current?.status !== "blocked") continue
+      unblock(current, `${current.content}${UPSTREAM_RESULTS_SEPARATOR}${sections.join("\n\n")}`)
+    }
+  }
+
+  function createFanout(
+    params: Omit<CreateTaskParams, "to" | "workspace">,
+    label: string,
+    targets: ReadonlyArray<FanoutTarget>,
+  ): { readonly parent: TaskInfo; readonly children: ReadonlyArray<TaskInfo> } {
+    const parentId = randomUUID()
+    const children = targets.map((target) => {
+      const { task, persisted } = createTask({
+        ...params,
+        to: target.agentName,
+        workspace: target.workspace,
+        fanoutParentId: parentId,
+      })
+      addPending(target.agentName, task.taskId, persisted)
+      return task
+    })
+    createTask({ ...params, to: label, fanoutChildIds: children.map((c) => c.taskId) }, parentId)
+    // 父任务只用于汇总，创建后即视为执行中
+    const parent = updateStatus(parentId, "running")!
+    return { parent, children }
+  }
+
+  function getFanoutChildren(parentTaskId: string): ReadonlyArray<TaskInfo> {
+    const parent = state.tasks.get(parentTaskId)
+    return (parent?.fanoutChildIds ?? [])
+      .map((id) => state.tasks.get(id))
+      .filter((t): t is TaskInfo => t !== undefined)
+  }
+
+  // 子任务结束：全部结束后汇总结果，至少一个完成时父任务为 completed
+  async function resolveFanoutParent(parentTaskId: string): Promise<void> {
+    const parent = state.tasks.get(parentTaskId)
+    if (!parent || parent.status !== "running") return
+    const children = await Promise.all((parent.fanoutChildIds ?? []).map(findTask))
+    const isDone = (t: TaskInfo | undefined) => t !== undefined && isTerminalStatus(t.status)
+    if (!children.every(isDone)) return
+
+    const sections = await Promise.all(children.map(async (t) => {
+      const result = (await getArtifact(t!.taskId)) ?? t!.result ?? ""
+      return `### ${t!.to} (${t!.status})\n${result}`
+    }))
+    if (state.tasks.get(parentTaskId)?.status !== "running") return
+    const completed = children.filter((t) => t!.status === "completed").length
+    saveArtifact(parentTaskId, sections.join("\n\n"))
+    updateStatus(
+      parentTaskId,
+      completed > 0 ? "completed" : "failed",
+      `${completed}/${children.length} 个 Agent 完成`,
+    )
+  }
+
+  function unblock(task: TaskInfo, content: string): void {
+    const updated: TaskInfo = { ...task, content, status: "pending" }
+    const newTasks = new Map(state.tasks)
+    newTasks.set(task.taskId, updated)
+    state = { ...state, tasks: newTasks }
+    persistTaskUpdate(updated)
+    addPending(task.to, task.taskId)
+    notifyStatusChange(updated, "blocked")
+  }
+
+  function recordAttempt(taskId: string, error: string, errorKind: TaskErrorKind): TaskInfo | undefined {
+    const existing = state.tasks.get(taskId)
+    if (!existing) return undefined
+    const previous = existing.attempts ?? []
+    const attempt: TaskAttempt = {
+      attempt: previous.length + 1,
+      error: error.length > ATTEMPT_ERROR_CHARS ? `${error.slice(0, ATTEMPT_ERROR_CHARS)}...` : error,
+      errorKind,
+      endedAt: new Date().toISOString(),
+    }
+    const updated: TaskInfo = { ...existing, attempts: [...previous, attempt] }
+    const newTasks = new Map(state.tasks)
+    newTasks.set(taskId, updated)
+    state = { ...state, tasks: newTasks }
+    persistTaskUpdate(updated)
+    return updated
+  }
+
+  function retryTask(taskId: string, delayMs = 0): TaskInfo | undefined {
+    const existing = state.tasks.get(taskId)
+    if (!existing || (existing.status !== "running" && existing.status !== "failed")) return undefined
+    // 清除上次失败的结束时间，避免被当作终态任务清理
+    const { completedAt: _completedAt, retryAt: _retryAt, ...rest } = existing
+    const updated: TaskInfo = {
+      ...rest,
+      status: "approved",
+      ...(delayMs > 0 ? { retryAt: new Date(Date.now() + delayMs).toISOString() } : {}),
+    }
+    const newTasks = new Map(state.tasks)
+    newTasks.set(taskId, updated)
+    state = { ...state, tasks: newTasks }
+    persistTaskUpdate(updated)
+    if (!(state.pendingByAgent.get(existing.to) ?? []).includes(taskId)) addPending(existing.to, taskId)
+    notifyStatusChange(updated, existing.status)
     return updated
   }
 
+  // 按优先级插入：排在所有不低于它的任务之后（同优先级保持 FIFO）
   function addPending(agentName: string, taskId: string, afterPersist?: Promise<void>): void {
     const existing = state.pendingByAgent.get(agentName) ?? []
+    const rank = priorityRank(state.tasks.get(taskId))
+    const insertAt = existing.findIndex((id) => priorityRank(state.tasks.get(id)) < rank)
+    const atTail = insertAt === -1
     const newPending = new Map(state.pendingByAgent)
-    newPending.set(agentName, [...existing, taskId])
+    newPending.set(agentName, atTail
+      ? [...existing, taskId]
+      : [...existing.slice(0, insertAt), taskId, ...existing.slice(insertAt)])
     state = { ...state, pendingByAgent: newPending }
-    // 等 task 写入 DB 后再写 pending（外键依赖）
-    if (afterPersist) {
-      afterPersist.then(() => persistPendingAdd(agentName, taskId))
-    } else {
-      persistPendingAdd(agentName, taskId)
-    }
+    // 等 task 写入 DB 后再写 pending（外键依赖）；插队时再重写顺序
+    const saved = (afterPersist ?? Promise.resolve()).then(() => persistPendingAdd(agentName, taskId))
+    if (!atTail) saved.then(() => persistPendingOrder(agentName))
   }
 
   function getPendingTasks(agentName: string): ReadonlyArray<TaskInfo> {
@@ -248,6 +545,11 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
       .filter((t): t is TaskInfo => t !== undefined)
   }
 
+  function getRunningTasks(agentName?: string): ReadonlyArray<TaskInfo> {
+    return [...state.tasks.values()].filter((t) =>
+      t.status === "running" && !t.fanoutChildIds && (agentName === undefined || t.to === agentName))
+  }
+
   function removePending(agentName: string, taskId: string): void {
     const existing = state.pendingByAgent.get(agentName) ?? []
     const filtered = existing.filter((id) => id !== taskId)
@@ -257,6 +559,28 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     persistPendingRemove(agentName, taskId)
   }
 
+  function movePending(agentName: string, taskId: string, direction: "up" | "down"): boolean {
+    const existing = state.pendingByAgent.get(agentName) ?? []
+    const index = existing.indexOf(taskId)
+    const target = direction === "up" ? index - 1 : index + 1
+    if (index === -1 || target < 0 || target >= existing.length) return false
+    const reordered = [...existing]
+    reordered[index] = existing[target]
+    reordered[target] = taskId
+    const newPending = new Map(state.pendingByAgent)
+    newPending.set(agentName, reordered)
+    state = { ...state, pendingByAgent: newPending }
+    persistPendingOrder(agentName)
+    return true
+  }
+
+  function getTasksByPipeline(pipelineId: string): ReadonlyArray<TaskInfo> {
+    const taskIds = state.tasksByPipeline.get(pipelineId) ?? []
+    return taskIds
+      .map((id) => state.tasks.get(id))
+      .filter((t): t is TaskInfo => t !== undefined)
+  }
+
   function getTasksByConversation(conversationId: string): ReadonlyArray<TaskInfo> {
     const taskIds = state.tasksByConversation.get(conversationId) ?? []
     return taskIds
@@ -281,6 +605,16 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     persistTaskUpdate(updated)
   }
 
+  function setBranch(taskId: string, branch: string): void {
+    const task = state.tasks.get(taskId)
+    if (!task) return
+    const updated: TaskInfo = { ...task, branch }
+    const newTasks = new Map(state.tasks)
+    newTasks.set(taskId, updated)
+    state = { ...state, tasks: newTasks }
+    persistTaskUpdate(updated)
+  }
+
   function updateChatInfo(taskId: string, chatId: number, messageId: number): void {
     const task = state.tasks.get(taskId)
     if (!task) return
@@ -291,6 +625,46 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     persistTaskUpdate(updated)
   }
 
+  function addApproval(taskId: string, approval: TaskApproval): TaskInfo | undefined {
+    const task = state.tasks.get(taskId)
+    if (!task) return undefined
+    if (task.approvals?.some((a) => a.userId === approval.userId)) return task
+    const updated: TaskInfo = { ...task, approvals: [...(task.approvals ?? []), approval] }
+    const newTasks = new Map(state.tasks)
+    newTasks.set(taskId, updated)
+    state = { ...state, tasks: newTasks }
+    persistTaskUpdate(updated)
+    return updated
+  }
+
+  function setPolicyRule(taskId: string, policyRule: TaskPolicyRule): void {
+    const task = state.tasks.get(taskId)
+    if (!task) return
+    const updated: TaskInfo = { ...task, policyRule }
+    const newTasks = new Map(state.tasks)
+    newTasks.set(taskId, updated)
+    state = { ...state, tasks: newTasks }
+    persistTaskUpdate(updated)
+  }
+
+  function amendContent(taskId: string, content: string, amendedBy: string): TaskInfo | undefined {
+    const task = state.tasks.get(taskId)
+    if (!task) return undefined
+    // 之前的批准针对的是旧内容，修改后需要重新批准
+    const updated: TaskInfo = {
+      ...task,
+      content,
+      originalContent: task.originalContent ?? task.content,
+      amendedBy,
+      approvals: undefined,
+    }
+    const newTasks = new Map(state.tasks)
+    newTasks.set(taskId, updated)
+    state = { ...state, tasks: newTasks }
+    persistTaskUpdate(updated)
+    return updated
+  }
+
   function closeConversation(conversationId: string): void {
     closedConversations.set(conversationId, Date.now())
   }
@@ -360,13 +734,79 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     attachmentCreatedAt.delete(taskId)
   }
 
+  function saveArtifact(taskId: string, content: string): void {
+    artifacts.set(taskId, content)
+    if (!repo) return
+    // 写入 DB 成功后释放内存副本；失败则保留，保证本次运行内仍可下载
+    repo.saveArtifact(taskId, content)
+      .then(() => artifacts.delete(taskId))
+      .catch((err) => {
+        process.stderr.write(`DB artifact save failed: ${err}\n`)
+      })
+  }
+
+  async function getArtifact(taskId: string): Promise<string | undefined> {
+    const cached = artifacts.get(taskId)
+    if (cached !== undefined) return cached
+    if (!repo) return undefined
+    return repo.findArtifact(taskId)
+  }
+
+  function saveOutputFiles(taskId: string, files: ReadonlyArray<TaskAttachment>): void {
+    outputFiles.set(taskId, files)
+    if (!repo) return
+    repo.saveOutputFiles(taskId, files)
+      .then(() => outputFiles.delete(taskId))
+      .catch((err) => {
+        process.stderr.write(`DB output files save failed: ${err}\n`)
+      })
+  }
+
+  async function getOutputFiles(taskId: string): Promise<ReadonlyArray<TaskAttachment>> {
+    const cached = outputFiles.get(taskId)
+    if (cached) return cached
+    if (!repo) return []
+    return repo.findOutputFiles(taskId)
+  }
+
+  function saveDiff(taskId: string, diff: string, truncated: boolean): void {
+    const row: TaskDiffRow = { taskId, diff, truncated, status: "pending" }
+    diffs.set(taskId, row)
+    repo?.saveDiff(row).catch((err) => {
+      process.stderr.write(`DB diff save failed: ${err}\n`)
+    })
+  }
+
+  async function getDiff(taskId: string): Promise<TaskDiffRow | undefined> {
+    const cached = diffs.get(taskId)
+    if (cached) return cached
+    if (!repo) return undefined
+    return repo.findDiff(taskId)
+  }
+
+  function setDiffStatus(taskId: string, status: TaskDiffRow["status"]): void {
+    const cached = diffs.get(taskId)
+    if (cached) diffs.set(taskId, { ...cached, status })
+    repo?.updateDiffStatus(taskId, status).catch((err) => {
+      process.stderr.write(`DB diff update failed: ${err}\n`)
+    })
+  }
+
   /** 终态任务内存保留时间（2 小时） */
   const terminalTaskRetention = 2 * 60 * 60 * 1000
 
-  // 定时扫描：超时对话 + 内存清理（每分钟检查一次）
+  // 定时扫描：超时对话 + 过期审批 + 内存清理（默认每分钟检查一次）
   const sweepInterval = setInterval(() => {
     const now = Date.now()
 
+    // 0. 审批超时的任务变为 expired（通过 onStatusChange 通知 bot 更新审批消息）
+    for (const task of [...state.tasks.values()]) {
+      if (task.status !== "awaiting_approval" || !task.approvalExpiresAt) continue
+      if (now >= new Date(task.approvalExpiresAt).getTime()) {
+        updateStatus(task.taskId, "expired", "审批超时，任务已过期")
+      }
+    }
+
     // 1. 清理过期的 closedConversations 条目（释放内存）
     for (const [convId, closedAt] of closedConversations) {
       if (now - closedAt >= closedRetention) {
@@ -389,8 +829,7 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     // 3. 清理终态任务（已完成/失败/取消超过 TTL 的从内存中移除）
     const tasksToRemove: string[] = []
     for (const [taskId, task] of state.tasks) {
-      const isTerminal = task.status === "completed" || task.status === "failed" || task.status === "cancelled" || task.status === "rejected"
-      if (!isTerminal || !task.completedAt) continue
+      if (!isTerminalStatus(task.status) || !task.completedAt) continue
       if (now - new Date(task.completedAt).getTime() >= terminalTaskRetention) {
         tasksToRemove.push(taskId)
       }
@@ -398,14 +837,23 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     if (tasksToRemove.length > 0) {
       const newTasks = new Map(state.tasks)
       const newResultMsgIndex = new Map(state.taskByResultMessageId)
+      const newPipelineIndex = new Map(state.tasksByPipeline)
       for (const taskId of tasksToRemove) {
         const task = newTasks.get(taskId)
         if (task?.resultMessageId) {
           newResultMsgIndex.delete(task.resultMessageId)
         }
+        // 流水线全部任务都已清理时移除索引
+        if (task?.pipelineId) {
+          const remaining = (newPipelineIndex.get(task.pipelineId) ?? []).filter((id) => id !== taskId && newTasks.has(id))
+          if (remaining.length === 0) newPipelineIndex.delete(task.pipelineId)
+        }
         newTasks.delete(taskId)
+        artifacts.delete(taskId)
+        outputFiles.delete(taskId)
+        diffs.delete(taskId)
       }
-      state = { ...state, tasks: newTasks, taskByResultMessageId: newResultMsgIndex }
+      state = { ...state, tasks: newTasks, taskByResultMessageId: newResultMsgIndex, tasksByPipeline: newPipelineIndex }
     }
 
     // 4. 扫描超时的活跃对话
@@ -427,23 +875,37 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
         }
       }
     }
-  }, 60_000)
+  }, options?.sweepIntervalMs ?? 60_000)
   sweepInterval.unref()
 
   return {
     createTask: (params: CreateTaskParams) => {
       const { task, persisted } = createTask(params)
-      addPending(params.to, task.taskId, persisted)
+      if (task.status === "pending") addPending(params.to, task.taskId, persisted)
       return task
     },
     getTask,
     updateStatus,
     getPendingTasks,
+    getRunningTasks,
     removePending,
+    movePending,
+    recordAttempt,
+    retryTask,
+    getTasksByPipeline,
+    createFanout,
+    getFanoutChildren,
+    onStatusChange: (callback: TaskStatusCallback) => {
+      statusCallback = callback
+    },
     getTasksByConversation,
     findTaskByResultMessageId,
     setResultMessageId,
+    setBranch,
     updateChatInfo,
+    addApproval,
+    setPolicyRule,
+    amendContent,
     closeConversation,
     isConversationClosed,
     getActiveConversations,
@@ -451,6 +913,13 @@ export function createTaskQueue(options?: TaskQueueOptions): TaskQueue {
     setAttachments,
     getAttachments,
     clearAttachments,
+    saveArtifact,
+    getArtifact,
+    saveOutputFiles,
+    getOutputFiles,
+    saveDiff,
+    getDiff,
+    setDiffStatus,
     loadFromRepo,
     stop: () => clearInterval(sweepInterval),
   }
@@ -2,21 +2,87 @@ import { WebSocketServer, WebSocket } from "ws"
 import type { IncomingMessage } from "node:http"
 import type { Server as HttpServer } from "node:http"
 import {
+  classifyTaskError,
   parseAgentMessage,
+  parseCapabilities,
   serialize,
+  LEGACY_AGENT_CAPABILITIES,
+  LEGACY_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  type AckMessage,
+  type AgentCapability,
   type AgentToHubMessage,
   type HubToAgentMessage,
   type TaskMessage,
   type CancelTaskMessage,
+  type RevertTaskChangesMessage,
+  type ChatMessage,
+  type MessageReceiptMessage,
+  type TaskAttachment,
+  type TaskErrorKind,
+  type TaskInfo,
+  type RegisterMessage,
 } from "@ccchat/shared"
 import type { Registry } from "./registry.js"
-import type { TaskQueue } from "./task-queue.js"
+import { DEFAULT_MAX_RETRIES, retryDelay, type TaskQueue } from "./task-queue.js"
 import type { AgentStatusStore } from "./agent-status-store.js"
+import { createMessageInbox, type MessageInbox } from "./message-inbox.js"
+import type { InboxMessageRow } from "./db/index.js"
+import { createOutputBuffer, type OutputBuffer } from "./output-buffer.js"
 import { createRateLimiter } from "./rate-limiter.js"
 
 // 心跳间隔 30 秒
 const HEARTBEAT_INTERVAL = 30_000
 
+// TaskInfo.result 中保留的结果预览长度（完整结果存入 artifact）
+const RESULT_PREVIEW_CHARS = 4000
+
+// 单个结果最多分片数（防止恶意的超大 total）
+const MAX_RESULT_CHUNKS = 200
+
+// 注册时接受的命名工作区上限
+const MAX_WORKSPACES = 50
+
+// 未上报并发上限的旧版 daemon 按 1 个槽位调度
+const DEFAULT_AGENT_CAPACITY = 1
+// 注册时接受的并发上限
+const MAX_AGENT_CAPACITY = 32
+// 注册时接受的 daemon 本地排队上限
+const MAX_AGENT_QUEUE_DEPTH = 32
+
+// 已发送的 Agent 消息等待确认收到的时间，超时后按未送达回复发送方（消息留在收件箱，下次上线时补发）
+const MESSAGE_ACK_TIMEOUT_MS = 10_000
+// 每个 Agent 保留的最近送达消息数（Agent 因未读上限丢弃消息时据此找到发送方）
+const RECENT_DELIVERED_LIMIT = 200
+
+// 单条 Agent 消息的投递结果：已确认送达，或仍留在收件箱中
+type MessageDeliveryStatus = "delivered" | "queued"
+
+// 断线后等待重连的时间，超时仍未上报的运行中任务视为丢失
+const DEFAULT_STALE_TASK_GRACE_MS = 2 * 60_000
+
+// 已发送的任务等待 daemon 确认收到的时间，超时后重新投递
+const TASK_ACK_TIMEOUT_MS = 30_000
+
+// 需要 Agent 声明对应功能才会发送的消息类型（旧版 daemon 无法处理）
+const REQUIRED_CAPABILITY: Partial<Record<HubToAgentMessage["type"], AgentCapability>> = {
+  revert_task_changes: "git_patch",
+  ack: "journal",
+  chat_message: "messaging",
+  message_receipt: "messaging",
+}
+
+// 丢失任务的错误信息
+const AGENT_LOST_ERROR = "Agent 连接中断，任务结果丢失 (agent lost)"
+// 只读任务遇到不支持 safe_mode 的 daemon 时的错误信息
+const SAFE_MODE_UNSUPPORTED_ERROR = "Agent 的 daemon 版本过旧，无法限制工具，只读任务 (!safe) 未分发"
+
+/** 生成结果预览（超长时截取开头） */
+function previewResult(result: string): string {
+  if (result.length <= RESULT_PREVIEW_CHARS) return result
+  return `${result.slice(0, RESULT_PREVIEW_CHARS)}\n...(结果已截断，完整内容见结果存档)`
+}
+
 // 回调类型
 export type TaskResultCallback = (
   taskId: string,
@@ -37,15 +103,58 @@ export type TaskProgressCallback = (
   elapsedMs: number,
 ) => void
 
+export type TaskOutputCallback = (taskId: string) => void
+
+export type ChangesRevertedCallback = (taskId: string, success: boolean, error?: string) => void
+
+/** 可重试的失败已重新排队（attempt 为刚失败的执行次数，从 1 开始） */
+export type TaskRetryCallback = (
+  taskId: string,
+  attempt: number,
+  maxRetries: number,
+  delayMs: number,
+  error: string,
+) => void
+
+/** 丢失任务的处理方式：retry 按任务的重试次数重新排队，fail 直接标记失败 */
+export type OrphanTaskPolicy = "retry" | "fail"
+
+export interface WsServerOptions {
+  readonly orphanTaskPolicy?: OrphanTaskPolicy
+  /** Hub 启动或 Agent 断线后，等待 daemon 重连上报运行中任务的时间（毫秒） */
+  readonly staleTaskGraceMs?: number
+}
+
+/** Agent 调度负载 */
+export interface AgentLoad {
+  /** 已分发、尚未返回结果的任务数 */
+  readonly inFlight: number
+  /** 并发上限（注册时上报） */
+  readonly capacity: number
+  /** 超出并发后仍可交给 daemon 本地排队的任务数（注册时上报，未上报为 0） */
+  readonly queueDepth: number
+  /** 已审批、等待空闲槽位的任务数 */
+  readonly queued: number
+}
+
 // WsServer 对外 API
 export interface WsServer {
   readonly sendToAgent: (agentName: string, msg: HubToAgentMessage) => boolean
   readonly cancelTask: (agentName: string, taskId: string) => boolean
+  readonly revertTaskChanges: (agentName: string, taskId: string) => boolean
+  /** 在 Agent 有空闲槽位时按顺序分发已审批的待处理任务 */
+  readonly dispatchPending: (agentName: string) => void
+  /** 任务已发送给 Agent（执行中，或等待 daemon 确认收到） */
+  readonly isDispatched: (taskId: string) => boolean
+  readonly getAgentLoad: (agentName: string) => AgentLoad
   readonly onTaskResult: (callback: TaskResultCallback) => void
   readonly onTaskCancelled: (callback: TaskCancelledCallback) => void
   readonly onAgentOnline: (callback: AgentStatusCallback) => void
   readonly onAgentOffline: (callback: AgentStatusCallback) => void
   readonly onTaskProgress: (callback: TaskProgressCallback) => void
+  readonly onTaskOutput: (callback: TaskOutputCallback) => void
+  readonly onChangesReverted: (callback: ChangesRevertedCallback) => void
+  readonly onTaskRetry: (callback: TaskRetryCallback) => void
   readonly close: () => void
 }
 
@@ -55,7 +164,14 @@ export function createWsServer(
   registry: Registry,
   taskQueue: TaskQueue,
   agentStatusStore?: AgentStatusStore,
+  messageInbox?: MessageInbox,
+  taskOutputBuffer?: OutputBuffer,
+  options?: WsServerOptions,
 ): WsServer {
+  const orphanTaskPolicy = options?.orphanTaskPolicy ?? "retry"
+  const staleTaskGraceMs = options?.staleTaskGraceMs ?? DEFAULT_STALE_TASK_GRACE_MS
+  const inbox = messageInbox ?? createMessageInbox()
+  const outputBuffer = taskOutputBuffer ?? createOutputBuffer()
   // 8MB maxPayload: 5MB Telegram 文件 → ~6.67MB base64 + 消息开销
   const wss = new WebSocketServer({ server: httpServer, maxPayload: 8_388_608 })
   // 速率限制：连接 per IP (20/60s)，消息 per agent (100/10s)
@@ -64,26 +180,53 @@ export function createWsServer(
   let taskResultCallback: TaskResultCallback | undefined
   let taskCancelledCallback: TaskCancelledCallback | undefined
   let taskProgressCallback: TaskProgressCallback | undefined
+  let taskOutputCallback: TaskOutputCallback | undefined
+  let changesRevertedCallback: ChangesRevertedCallback | undefined
+  let taskRetryCallback: TaskRetryCallback | undefined
   let agentOnlineCallback: AgentStatusCallback | undefined
   let agentOfflineCallback: AgentStatusCallback | undefined
   let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+  // 分片结果缓冲：taskId → 各分片文本（断线或任务丢失时清理，daemon 重连后会重发完整结果）
+  const resultChunks = new Map<string, string[]>()
+  // 已分发、尚未返回结果的任务：agentName → taskId 集合（调度器据此计算空闲槽位）
+  const inFlight = new Map<string, Set<string>>()
+  // 已发送、等待 daemon 确认收到的任务：taskId → 投递信息（仍为 approved 状态并留在待分发队列中）
+  const awaitingAck = new Map<string, { readonly agentName: string; readonly seq: number; readonly timer: ReturnType<typeof setTimeout> }>()
+  // 任务投递序号
+  let nextSeq = 1
+  // 重试退避结束后唤醒分发：agentName → 定时器及触发时间
+  const retryWakeups = new Map<string, { readonly timer: ReturnType<typeof setTimeout>; readonly dueAt: number }>()
+  // 断线 Agent 的丢失任务检查：agentName → 定时器（重连时取消）
+  const orphanChecks = new Map<string, ReturnType<typeof setTimeout>>()
   const lastOnlineNotify = new Map<string, number>()
   const ONLINE_NOTIFY_DEBOUNCE = 5_000 // 5 秒内不重复通知（状态面板自带 2s 防抖）
+  // 已发送、等待 Agent 确认收到的消息：messageId → 投递信息（确认后才标记送达）
+  const awaitingMessageAck = new Map<string, {
+    readonly message: InboxMessageRow
+    readonly settle: (status: MessageDeliveryStatus) => void
+    readonly timer: ReturnType<typeof setTimeout>
+  }>()
+  // 最近确认收到的消息：agentName → 消息（按时间顺序）
+  const recentDelivered = new Map<string, ReadonlyArray<InboxMessageRow>>()
 
   // 发送消息给指定 Agent
   function sendToAgent(agentName: string, msg: HubToAgentMessage): boolean {
     const conn = registry.getConnection(agentName)
     if (!conn || conn.ws.readyState !== WebSocket.OPEN) return false
+    const required = REQUIRED_CAPABILITY[msg.type]
+    if (required && !supports(agentName, required)) return false
     conn.ws.send(serialize(msg))
     return true
   }
 
-  // 处理注册消息
-  function handleRegister(
-    ws: WebSocket,
-    agentName: string,
-    token: string,
-  ): void {
+  // Agent 是否支持某项功能（注册时协商）
+  function supports(agentName: string, capability: AgentCapability): boolean {
+    return registry.getConnection(agentName)?.info.capabilities?.includes(capability) ?? false
+  }
+
+  // 处理注册消息：校验 token，协商协议版本和功能
+  function handleRegister(ws: WebSocket, msg: RegisterMessage): void {
+    const { agentName, token, workspaces, maxConcurrentTasks, maxQueuedTasks, runningTaskIds } = msg
     if (!registry.validateAgentToken(agentName, token)) {
       ws.send(serialize({ type: "register_ack", success: false, error: "无效的 token" }))
       ws.close()
@@ -95,8 +238,24 @@ export function createWsServer(
       existing.ws.close()
       registry.unregister(agentName)
     }
-    registry.register(agentName, ws)
-    ws.send(serialize({ type: "register_ack", success: true }))
+    const capacity = maxConcurrentTasks !== undefined && Number.isInteger(maxConcurrentTasks) && maxConcurrentTasks > 0
+      ? Math.min(maxConcurrentTasks, MAX_AGENT_CAPACITY)
+      : undefined
+    const queueDepth = maxQueuedTasks !== undefined && Number.isInteger(maxQueuedTasks) && maxQueuedTasks > 0
+      ? Math.min(maxQueuedTasks, MAX_AGENT_QUEUE_DEPTH)
+      : undefined
+    const capabilities = msg.capabilities ? parseCapabilities(msg.capabilities) : LEGACY_AGENT_CAPABILITIES
+    const protocolVersion = msg.protocolVersion ?? LEGACY_PROTOCOL_VERSION
+    registry.register(agentName, ws, workspaces?.slice(0, MAX_WORKSPACES), { maxConcurrentTasks: capacity, maxQueuedTasks: queueDepth }, {
+      protocolVersion,
+      ...(msg.daemonVersion ? { daemonVersion: msg.daemonVersion.slice(0, 32) } : {}),
+      capabilities,
+    })
+    if (protocolVersion < PROTOCOL_VERSION) {
+      process.stdout.write(`Agent ${agentName} uses outdated protocol v${protocolVersion} (hub v${PROTOCOL_VERSION})\n`)
+    }
+    ws.send(serialize({ type: "register_ack", success: true, protocolVersion: PROTOCOL_VERSION, capabilities }))
+    reconcileRunningTasks(agentName, runningTaskIds)
     const now = Date.now()
     const lastNotify = lastOnlineNotify.get(agentName) ?? 0
     if (now - lastNotify > ONLINE_NOTIFY_DEBOUNCE) {
@@ -105,14 +264,175 @@ export function createWsServer(
     }
     // 发送离线期间积累的待处理任务
     deliverPendingTasks(agentName)
+    // 补发离线期间收到的和上次连接未确认的 Agent 消息
+    clearMessageAcks(agentName)
+    deliverInbox(agentName)
+  }
+
+  // 对账：daemon 仍在执行的任务继续占用槽位，其余运行中的任务视为丢失
+  function reconcileRunningTasks(agentName: string, runningTaskIds: ReadonlyArray<string> | undefined): void {
+    const check = orphanChecks.get(agentName)
+    if (check) clearTimeout(check)
+    orphanChecks.delete(agentName)
+    // 上次连接未确认的投递作废，由 deliverPendingTasks 重新投递
+    clearAwaitingAck(agentName)
+    const running = taskQueue.getRunningTasks(agentName)
+    // 未上报的旧版 daemon：无法判断，视为仍在执行
+    const alive = runningTaskIds === undefined
+      ? running
+      : running.filter((t) => runningTaskIds.includes(t.taskId))
+    inFlight.set(agentName, new Set(alive.map((t) => t.taskId)))
+    for (const task of running) {
+      if (!alive.includes(task)) handleOrphanTask(task)
+    }
+  }
+
+  // 断线超过宽限期仍未重连：该 Agent 运行中的任务全部视为丢失
+  function scheduleOrphanCheck(agentName: string): void {
+    const existing = orphanChecks.get(agentName)
+    if (existing) clearTimeout(existing)
+    const timer = setTimeout(() => {
+      orphanChecks.delete(agentName)
+      if (registry.isOnline(agentName)) return
+      for (const task of taskQueue.getRunningTasks(agentName)) handleOrphanTask(task)
+    }, staleTaskGraceMs)
+    timer.unref()
+    orphanChecks.set(agentName, timer)
+  }
+
+  // Hub 重启前分发的任务：宽限期内未被重连的 daemon 认领的视为丢失
+  function sweepStaleTasks(): void {
+    for (const task of taskQueue.getRunningTasks()) {
+      if (!inFlight.get(task.to)?.has(task.taskId)) handleOrphanTask(task)
+    }
   }
 
-  // 发送积压的待处理任务（仅分发已审批的任务）
+  // 丢失的任务：按策略重新排队，否则标记失败并通知请求方
+  function handleOrphanTask(task: TaskInfo): void {
+    process.stderr.write(`Task ${task.taskId} lost on ${task.to}, policy: ${orphanTaskPolicy}\n`)
+    resultChunks.delete(task.taskId)
+    const errorKind = orphanTaskPolicy === "retry" ? "retryable" : "terminal"
+    if (retryIfRetryable(task.to, task, AGENT_LOST_ERROR, errorKind)) return
+    taskQueue.updateStatus(task.taskId, "failed", AGENT_LOST_ERROR)
+    outputBuffer.finish(task.taskId, "failed")
+    inFlight.get(task.to)?.delete(task.taskId)
+    taskResultCallback?.(task.taskId, AGENT_LOST_ERROR, "error", task.chatId, task.messageId)
+  }
+
+  // 只读任务不能交给无法限制工具的 daemon：直接标记失败并通知请求方
+  function rejectUnsafeDelivery(agentName: string, task: TaskInfo): void {
+    process.stderr.write(`Task ${task.taskId} is safe-only but ${agentName} lacks safe_mode, failing\n`)
+    taskQueue.removePending(agentName, task.taskId)
+    taskQueue.updateStatus(task.taskId, "failed", SAFE_MODE_UNSUPPORTED_ERROR)
+    outputBuffer.finish(task.taskId, "failed")
+    taskResultCallback?.(task.taskId, SAFE_MODE_UNSUPPORTED_ERROR, "error", task.chatId, task.messageId)
+  }
+
+  function isAgentFull(agentName: string): boolean {
+    return agentStatusStore?.get(agentName)?.queueFull ?? false
+  }
+
+  function getCapacity(agentName: string): number {
+    return registry.getConnection(agentName)?.info.maxConcurrentTasks ?? DEFAULT_AGENT_CAPACITY
+  }
+
+  function getQueueDepth(agentName: string): number {
+    return registry.getConnection(agentName)?.info.maxQueuedTasks ?? 0
+  }
+
+  // 已分发任务数未超过并发上限加 daemon 排队上限，且 daemon 本地队列未满时才继续分发
+  function hasFreeSlot(agentName: string): boolean {
+    if (isAgentFull(agentName)) return false
+    return (inFlight.get(agentName)?.size ?? 0) < getCapacity(agentName) + getQueueDepth(agentName)
+  }
+
+  function getAgentLoad(agentName: string): AgentLoad {
+    return {
+      inFlight: inFlight.get(agentName)?.size ?? 0,
+      capacity: getCapacity(agentName),
+      queueDepth: getQueueDepth(agentName),
+      queued: taskQueue.getPendingTasks(agentName)
+        .filter((t) => t.status === "approved" && !awaitingAck.has(t.taskId)).length,
+    }
+  }
+
+  // 放弃该 Agent 所有未确认的投递（断线/重新注册），任务仍留在待分发队列中
+  function clearAwaitingAck(agentName: string): void {
+    for (const [taskId, entry] of awaitingAck) {
+      if (entry.agentName !== agentName) continue
+      clearTimeout(entry.timer)
+      awaitingAck.delete(taskId)
+    }
+  }
+
+  // 超时未确认：释放槽位并重新投递（daemon 按 taskId 去重，重复投递不会重复执行）
+  function handleAckTimeout(agentName: string, taskId: string, seq: number): void {
+    const entry = awaitingAck.get(taskId)
+    if (!entry || entry.seq !== seq) return
+    awaitingAck.delete(taskId)
+    process.stderr.write(`Task ${taskId} not acked by ${agentName}, redelivering\n`)
+    releaseSlot(agentName, taskId)
+  }
+
+  // 已送达：移出待分发队列并标记执行中
+  function markRunning(agentName: string, taskId: string): void {
+    taskQueue.removePending(agentName, taskId)
+    // 附件保留到任务结束，重试时重新发送
+    taskQueue.updateStatus(taskId, "running")
+  }
+
+  // daemon 确认收到任务
+  function handleTaskAck(agentName: string, taskId: string, seq: number): void {
+    const entry = awaitingAck.get(taskId)
+    // 过期的确认（已超时重新投递，或属于上一次连接）忽略，等待最新一次投递的确认
+    if (!entry || entry.agentName !== agentName || entry.seq !== seq) return
+    clearTimeout(entry.timer)
+    awaitingAck.delete(taskId)
+    const task = taskQueue.getTask(taskId)
+    // 等待确认期间已被取消：通知 daemon 停止执行并释放槽位
+    if (!task || task.status !== "approved") {
+      cancelTask(agentName, taskId)
+      releaseSlot(agentName, taskId)
+      return
+    }
+    markRunning(agentName, taskId)
+  }
+
+  // 收到结果时 task_ack 仍未到达（确认超时后已重新投递）：结果本身即说明已送达
+  function confirmDelivery(agentName: string, taskId: string): void {
+    const entry = awaitingAck.get(taskId)
+    if (!entry || entry.agentName !== agentName) return
+    clearTimeout(entry.timer)
+    awaitingAck.delete(taskId)
+    if (taskQueue.getTask(taskId)?.status === "approved") markRunning(agentName, taskId)
+  }
+
+  // 任务结束，释放槽位并分发下一个待处理任务
+  function releaseSlot(agentName: string, taskId: string): void {
+    inFlight.get(agentName)?.delete(taskId)
+    deliverPendingTasks(agentName)
+  }
+
+  // 在最早的重试退避结束时重新分发（已有更早的唤醒时不重复设置）
+  function scheduleRetryWakeup(agentName: string, dueAt: number): void {
+    const existing = retryWakeups.get(agentName)
+    if (existing && existing.dueAt <= dueAt) return
+    if (existing) clearTimeout(existing.timer)
+    const timer = setTimeout(() => {
+      retryWakeups.delete(agentName)
+      deliverPendingTasks(agentName)
+    }, Math.max(dueAt - Date.now(), 0))
+    timer.unref()
+    retryWakeups.set(agentName, { timer, dueAt })
+  }
+
+  // 按顺序分发积压的待处理任务（仅分发已审批的任务，槽位用尽时停止）
   function deliverPendingTasks(agentName: string): void {
     const pending = taskQueue.getPendingTasks(agentName)
     for (const task of pending) {
-      // 跳过已取消/已拒绝的任务
-      if (task.status === "cancelled" || task.status === "rejected" || task.status === "completed" || task.status === "failed") {
+      if (!hasFreeSlot(agentName)) break
+      // 跳过已取消/已拒绝/审批过期的任务
+      if (task.status === "cancelled" || task.status === "rejected" || task.status === "expired" || task.status === "completed" || task.status === "failed") {
         taskQueue.removePending(agentName, task.taskId)
         continue
       }
@@ -120,6 +440,19 @@ export function createWsServer(
       if (task.status !== "approved") {
         continue
       }
+      // 已发送、等待确认的任务不重复发送
+      if (awaitingAck.has(task.taskId)) continue
+      // 重试退避中的任务留在队列中，不阻塞后面的任务
+      const retryAt = task.retryAt ? Date.parse(task.retryAt) : 0
+      if (retryAt > Date.now()) {
+        scheduleRetryWakeup(agentName, retryAt)
+        continue
+      }
+      // 在线 daemon 不支持 safe_mode 时拒绝分发只读任务（离线时留在队列中，等重连后按新版本判断）
+      if (task.safe && registry.getConnection(agentName) && !supports(agentName, "safe_mode")) {
+        rejectUnsafeDelivery(agentName, task)
+        continue
+      }
       const taskAttachments = taskQueue.getAttachments(task.taskId)
       const msg: TaskMessage = {
         type: "task",
@@ -130,40 +463,261 @@ export function createWsServer(
         messageId: task.messageId,
         ...(task.conversationId ? { conversationId: task.conversationId } : {}),
         ...(task.parentTaskId ? { parentTaskId: task.parentTaskId } : {}),
+        ...(task.workspace ? { workspace: task.workspace } : {}),
         ...(taskAttachments ? { attachments: taskAttachments } : {}),
+        ...(task.safe ? { safe: true } : {}),
+        seq: nextSeq++,
       }
       const sent = sendToAgent(agentName, msg)
-      if (sent) {
-        taskQueue.removePending(agentName, task.taskId)
-        taskQueue.updateStatus(task.taskId, "running")
-        taskQueue.clearAttachments(task.taskId)
+      if (!sent) break
+      inFlight.get(agentName)?.add(task.taskId)
+      if (!supports(agentName, "task_ack")) {
+        markRunning(agentName, task.taskId)
+        continue
+      }
+      // 收到 task_ack 后才标记执行中；断线或超时未确认时重新投递
+      const seq = msg.seq ?? 0
+      const timer = setTimeout(() => handleAckTimeout(agentName, task.taskId, seq), TASK_ACK_TIMEOUT_MS)
+      timer.unref()
+      awaitingAck.set(task.taskId, { agentName, seq, timer })
+    }
+  }
+
+  /**
+   * 投递单条 Agent 消息，未能发送时返回 false
+   * 支持 message_ack 的 Agent 确认收到后才标记送达，超时未确认时消息留在收件箱；旧版 Agent 发送即视为送达
+   */
+  function deliverChatMessage(message: InboxMessageRow, settle: (status: MessageDeliveryStatus) => void): boolean {
+    const chatMsg: ChatMessage = {
+      type: "chat_message",
+      messageId: message.messageId,
+      from: message.from,
+      content: message.content,
+      sentAt: message.createdAt,
+    }
+    if (!sendToAgent(message.to, chatMsg)) return false
+    if (!supports(message.to, "message_ack")) {
+      inbox.markDelivered(message.to, message.messageId)
+      settle("delivered")
+      return true
+    }
+    const timer = setTimeout(() => {
+      awaitingMessageAck.delete(message.messageId)
+      settle("queued")
+    }, MESSAGE_ACK_TIMEOUT_MS)
+    timer.unref()
+    awaitingMessageAck.set(message.messageId, { message, settle, timer })
+    return true
+  }
+
+  // 放弃该 Agent 未确认的消息（断线/重新注册），消息仍在收件箱中，上线后补发
+  function clearMessageAcks(agentName: string): void {
+    for (const [messageId, entry] of awaitingMessageAck) {
+      if (entry.message.to !== agentName) continue
+      clearTimeout(entry.timer)
+      awaitingMessageAck.delete(messageId)
+      entry.settle("queued")
+    }
+  }
+
+  // 通知在线的发送方：消息已送达
+  function sendDeliveredReceipt(message: InboxMessageRow): void {
+    sendToAgent(message.from, {
+      type: "message_receipt",
+      messageId: message.messageId,
+      targetAgent: message.to,
+      status: "delivered",
+    })
+  }
+
+  // Agent 确认收到消息，或报告已收到的消息因未读上限被丢弃
+  function handleMessageAck(agentName: string, messageId: string, status: "received" | "dropped"): void {
+    if (status === "dropped") {
+      const message = recentDelivered.get(agentName)?.find((m) => m.messageId === messageId)
+      // 旧版发送方不认识 dropped 回执
+      if (!message || !supports(message.from, "message_ack")) return
+      sendToAgent(message.from, {
+        type: "message_receipt",
+        messageId,
+        targetAgent: agentName,
+        status: "dropped",
+        error: `${agentName} 的未读消息超出上限，消息未被处理即被丢弃`,
+      })
+      return
+    }
+    const entry = awaitingMessageAck.get(messageId)
+    // 超时后才到达的确认：消息仍在收件箱中时同样标记送达
+    const message = entry?.message ?? inbox.getUndelivered(agentName).find((m) => m.messageId === messageId)
+    if (!message || message.to !== agentName) return
+    if (entry) {
+      clearTimeout(entry.timer)
+      awaitingMessageAck.delete(messageId)
+    }
+    inbox.markDelivered(agentName, messageId)
+    recentDelivered.set(agentName, [...(recentDelivered.get(agentName) ?? []), message].slice(-RECENT_DELIVERED_LIMIT))
+    if (entry) entry.settle("delivered")
+    else sendDeliveredReceipt(message)
+  }
+
+  // 补发收件箱中的消息，送达后通知在线的发送方
+  function deliverInbox(agentName: string): void {
+    for (const message of inbox.getUndelivered(agentName)) {
+      const sent = deliverChatMessage(message, (status) => {
+        if (status === "delivered") sendDeliveredReceipt(message)
+      })
+      if (!sent) break
+    }
+  }
+
+  // 处理 Agent 间消息：在线直接投递，离线存入收件箱
+  function handleSendMessage(
+    ws: WebSocket,
+    agentName: string,
+    targetAgent: string,
+    content: string,
+    requestId?: string,
+  ): void {
+    const reply = (receipt: Omit<MessageReceiptMessage, "type" | "requestId" | "targetAgent">): void => {
+      const msg: MessageReceiptMessage = {
+        type: "message_receipt",
+        ...receipt,
+        targetAgent,
+        ...(requestId ? { requestId } : {}),
       }
+      // 等待目标确认期间发送方可能已断开
+      if (ws.readyState === WebSocket.OPEN) ws.send(serialize(msg))
     }
+
+    if (!registry.getCredential(targetAgent)) {
+      reply({ messageId: "", status: "rejected", error: `Agent "${targetAgent}" 未注册` })
+      return
+    }
+    const message = inbox.create({ from: agentName, to: targetAgent, content })
+    if (!message) {
+      reply({ messageId: "", status: "rejected", error: `${targetAgent} 的收件箱已满` })
+      return
+    }
+    // 目标支持 message_ack 时确认收到后才回复 delivered
+    const sent = deliverChatMessage(message, (status) => reply({ messageId: message.messageId, status }))
+    if (!sent) reply({ messageId: message.messageId, status: "queued" })
+  }
+
+  // 缓冲结果分片
+  function handleResultChunk(agentName: string, taskId: string, index: number, total: number, text: string): void {
+    confirmDelivery(agentName, taskId)
+    const task = taskQueue.getTask(taskId)
+    // 已处理过结果的任务（daemon 重放日志）不再缓冲分片
+    if (!task || task.to !== agentName || task.status !== "running") return
+    if (total > MAX_RESULT_CHUNKS || index < 0 || index >= total) return
+    const parts = resultChunks.get(taskId) ?? new Array<string>(total).fill("")
+    parts[index] = text
+    resultChunks.set(taskId, parts)
+  }
+
+  // 断线时丢弃该 Agent 未收齐的分片
+  function dropResultChunks(agentName: string): void {
+    for (const taskId of resultChunks.keys()) {
+      const task = taskQueue.getTask(taskId)
+      if (!task || task.to === agentName) resultChunks.delete(taskId)
+    }
+  }
+
+  // 拼接分片结果
+  function assembleChunks(taskId: string, totalChunks: number): string {
+    const parts = resultChunks.get(taskId) ?? []
+    resultChunks.delete(taskId)
+    const received = parts.filter((p) => p.length > 0).length
+    const joined = parts.join("")
+    if (received < totalChunks) {
+      process.stderr.write(`Task ${taskId} result incomplete: ${received}/${totalChunks} chunks\n`)
+      return `${joined}\n\n(部分结果丢失: 收到 ${received}/${totalChunks} 个分片)`
+    }
+    return joined
+  }
+
+  // 确认已处理任务的结果/取消通知，daemon 据此清理本地日志（已清理或不存在的任务同样确认）
+  function ackToAgent(agentName: string, taskId: string): void {
+    const msg: AckMessage = { type: "ack", taskId }
+    sendToAgent(agentName, msg)
   }
 
   // 处理任务结果
   function handleTaskResult(
     agentName: string,
     taskId: string,
-    result: string,
+    rawResult: string,
     status: "success" | "error",
+    totalChunks?: number,
+    attachments?: ReadonlyArray<TaskAttachment>,
+    diff?: string,
+    diffTruncated?: boolean,
+    branch?: string,
+    errorKind?: TaskErrorKind,
   ): void {
+    confirmDelivery(agentName, taskId)
     const task = taskQueue.getTask(taskId)
     if (!task) return
     // 任务归属检查：只有任务的目标 agent 才能提交结果
     if (task.to !== agentName) return
+    // 按 taskId 去重：只接受执行中任务的结果，daemon 重放的已处理结果直接忽略
+    if (task.status !== "running") {
+      resultChunks.delete(taskId)
+      return
+    }
+    const result = totalChunks ? assembleChunks(taskId, totalChunks) : rawResult
+    if (status === "error" && retryIfRetryable(agentName, task, result, errorKind)) return
     const finalStatus = status === "success" ? "completed" : "failed"
-    taskQueue.updateStatus(taskId, finalStatus, result)
+    // 完整结果存档，TaskInfo 只保留预览
+    taskQueue.saveArtifact(taskId, result)
+    if (attachments && attachments.length > 0) {
+      taskQueue.saveOutputFiles(taskId, attachments)
+    }
+    if (diff) {
+      taskQueue.saveDiff(taskId, diff, diffTruncated ?? false)
+    }
+    if (branch) {
+      taskQueue.setBranch(taskId, branch)
+    }
+    taskQueue.updateStatus(taskId, finalStatus, previewResult(result))
+    outputBuffer.finish(taskId, finalStatus)
     agentStatusStore?.incrementCompleted(agentName)
+    releaseSlot(agentName, taskId)
     taskResultCallback?.(taskId, result, status, task.chatId, task.messageId)
   }
 
+  // 记录失败；可重试且未超过重试次数时退避后重新排队，返回是否已重试
+  function retryIfRetryable(
+    agentName: string,
+    task: TaskInfo,
+    error: string,
+    errorKind: TaskErrorKind | undefined,
+  ): boolean {
+    // 未上报错误类型的旧版 daemon 按结果文本判断
+    const kind = errorKind ?? classifyTaskError(error)
+    const attempt = taskQueue.recordAttempt(task.taskId, error, kind)?.attempts?.length ?? 1
+    const maxRetries = task.maxRetries ?? DEFAULT_MAX_RETRIES
+    if (kind !== "retryable" || attempt > maxRetries || task.status !== "running") return false
+
+    const delayMs = retryDelay(attempt)
+    if (!taskQueue.retryTask(task.taskId, delayMs)) return false
+    outputBuffer.reset(task.taskId)
+    releaseSlot(agentName, task.taskId)
+    taskRetryCallback?.(task.taskId, attempt, maxRetries, delayMs, error)
+    return true
+  }
+
   // 发送取消指令给 Agent
   function cancelTask(agentName: string, taskId: string): boolean {
     const msg: CancelTaskMessage = { type: "cancel_task", taskId }
     return sendToAgent(agentName, msg)
   }
 
+  // 发送回滚改动指令给 Agent（git patch 模式）
+  function revertTaskChanges(agentName: string, taskId: string): boolean {
+    const msg: RevertTaskChangesMessage = { type: "revert_task_changes", taskId }
+    return sendToAgent(agentName, msg)
+  }
+
   // 处理列出 Agent 请求
   function handleListAgents(ws: WebSocket, requestId: string): void {
     const agents = registry.listAgents()
@@ -186,13 +740,25 @@ export function createWsServer(
 
     switch (msg.type) {
       case "register":
-        handleRegister(ws, msg.agentName, msg.token)
+        handleRegister(ws, msg)
+        return
+      case "message_ack":
+        if (agentName) handleMessageAck(agentName, msg.messageId, msg.status)
+        return
+      case "task_ack":
+        if (agentName) handleTaskAck(agentName, msg.taskId, msg.seq)
         return
       case "pong":
         if (agentName) registry.updateLastSeen(agentName)
         return
       case "task_result":
-        if (agentName) handleTaskResult(agentName, msg.taskId, msg.result, msg.status)
+        if (agentName) {
+          handleTaskResult(agentName, msg.taskId, msg.result, msg.status, msg.totalChunks, msg.attachments, msg.diff, msg.diffTruncated, msg.branch, msg.errorKind)
+          ackToAgent(agentName, msg.taskId)
+        }
+        return
+      case "task_result_chunk":
+        if (agentName) handleResultChunk(agentName, msg.taskId, msg.index, msg.total, msg.text)
         return
       case "list_agents":
         if (agentName) handleListAgents(ws, msg.requestId)
@@ -204,19 +770,35 @@ export function createWsServer(
         if (agentName) {
           // 任务归属检查：只有任务的目标 agent 才能取消
           const cancelTask = taskQueue.getTask(msg.taskId)
-          if (!cancelTask || cancelTask.to !== agentName) return
+          ackToAgent(agentName, msg.taskId)
+          // 重放的取消通知：任务已不在执行中时忽略
+          if (!cancelTask || cancelTask.to !== agentName || cancelTask.status !== "running") return
           taskQueue.updateStatus(msg.taskId, "cancelled")
+          outputBuffer.finish(msg.taskId, "cancelled")
           agentStatusStore?.incrementCompleted(agentName)
+          releaseSlot(agentName, msg.taskId)
           taskCancelledCallback?.(msg.taskId, agentName)
         }
         return
       case "status_report":
         if (agentName && agentStatusStore) {
+          const wasFull = isAgentFull(agentName)
           agentStatusStore.update(agentName, {
             runningTasks: msg.runningTasks,
             currentTaskId: msg.currentTaskId,
             idleSince: msg.idleSince,
+            queuedTasks: msg.queuedTasks,
+            queueFull: msg.queueFull,
           })
+          // 队列腾出空位：恢复分发积压任务
+          if (wasFull && !isAgentFull(agentName)) deliverPendingTasks(agentName)
+        }
+        return
+      case "task_queued":
+        if (agentName) {
+          const queuedTask = taskQueue.getTask(msg.taskId)
+          if (!queuedTask || queuedTask.to !== agentName) return
+          taskProgressCallback?.(msg.taskId, "queued", String(msg.position), 0)
         }
         return
       case "task_progress":
@@ -225,8 +807,25 @@ export function createWsServer(
           taskProgressCallback?.(progressMsg.taskId, progressMsg.status, progressMsg.detail, progressMsg.elapsedMs)
         }
         return
+      case "task_output_chunk":
+        if (agentName) {
+          const outputTask = taskQueue.getTask(msg.taskId)
+          if (!outputTask || outputTask.to !== agentName) return
+          if (outputBuffer.append(msg.taskId, msg.seq, msg.text)) {
+            taskOutputCallback?.(msg.taskId)
+          }
+        }
+        return
+      case "changes_reverted":
+        if (agentName) {
+          const revertedTask = taskQueue.getTask(msg.taskId)
+          if (!revertedTask || revertedTask.to !== agentName) return
+          if (msg.success) taskQueue.setDiffStatus(msg.taskId, "reverted")
+          changesRevertedCallback?.(msg.taskId, msg.success, msg.error)
+        }
+        return
       case "send_message":
-        // Agent 间消息传递（暂不处理，预留扩展）
+        if (agentName) handleSendMessage(ws, agentName, msg.targetAgent, msg.content, msg.requestId)
         return
     }
   }
@@ -262,6 +861,11 @@ export function createWsServer(
       const agentName = registry.getAgentByWs(ws)
       if (agentName) {
         registry.unregister(agentName)
+        inFlight.delete(agentName)
+        clearAwaitingAck(agentName)
+        clearMessageAcks(agentName)
+        dropResultChunks(agentName)
+        scheduleOrphanCheck(agentName)
         agentOfflineCallback?.(agentName)
       }
     })
@@ -270,6 +874,11 @@ export function createWsServer(
       const agentName = registry.getAgentByWs(ws)
       if (agentName) {
         registry.unregister(agentName)
+        inFlight.delete(agentName)
+        clearAwaitingAck(agentName)
+        clearMessageAcks(agentName)
+        dropResultChunks(agentName)
+        scheduleOrphanCheck(agentName)
         agentOfflineCallback?.(agentName)
       }
     })
@@ -288,10 +897,16 @@ export function createWsServer(
   // 初始化
   wss.on("connection", handleConnection)
   startHeartbeat()
+  const staleSweepTimer = setTimeout(sweepStaleTasks, staleTaskGraceMs)
+  staleSweepTimer.unref()
 
   return {
     sendToAgent,
     cancelTask,
+    revertTaskChanges,
+    dispatchPending: deliverPendingTasks,
+    isDispatched: (taskId: string) => awaitingAck.has(taskId) || taskQueue.getTask(taskId)?.status === "running",
+    getAgentLoad,
     onTaskResult: (callback: TaskResultCallback) => {
       taskResultCallback = callback
     },
@@ -307,8 +922,21 @@ export function createWsServer(
     onTaskProgress: (callback: TaskProgressCallback) => {
       taskProgressCallback = callback
     },
+    onTaskOutput: (callback: TaskOutputCallback) => {
+      taskOutputCallback = callback
+    },
+    onChangesReverted: (callback: ChangesRevertedCallback) => {
+      changesRevertedCallback = callback
+    },
+    onTaskRetry: (callback: TaskRetryCallback) => {
+      taskRetryCallback = callback
+    },
     close: () => {
       if (heartbeatTimer) clearInterval(heartbeatTimer)
+      for (const { timer } of retryWakeups.values()) clearTimeout(timer)
+      for (const timer of orphanChecks.values()) clearTimeout(timer)
+      for (const { timer } of awaitingAck.values()) clearTimeout(timer)
+      clearTimeout(staleSweepTimer)
       connRateLimiter.destroy()
       msgRateLimiter.destroy()
       wss.close()
@@ -8,17 +8,25 @@
 import { createServer } from "node:http"
 import { WebSocket } from "ws"
 import { createRegistry } from "../src/registry.js"
-import { createTaskQueue } from "../src/task-queue.js"
+import { createTaskQueue, retryDelay, UPSTREAM_RESULTS_SEPARATOR } from "../src/task-queue.js"
 import { createWsServer } from "../src/ws-server.js"
 import { createAgentStatusStore } from "../src/agent-status-store.js"
-import { createApiHandler } from "../src/api.js"
+import { apiTaskFrom, createApiHandler } from "../src/api.js"
 import { formatResult, formatResultPlain } from "../src/formatter.js"
 import { createPaginator } from "../src/paginator.js"
+import { createGroupStore } from "../src/group-store.js"
+import { createAclStore, type AclRequester } from "../src/acl-store.js"
+import { createApproverStore } from "../src/approver-store.js"
+import { createRuleStore, describeRule, parseRuleSpec } from "../src/rule-store.js"
+import { computeNextRun, nextCronTime, parseCron, parseScheduleSpec } from "../src/cron.js"
 import {
   serialize,
+  classifyTaskError,
   parseHubMessage,
+  PROTOCOL_VERSION,
   type AgentToHubMessage,
   type HubToAgentMessage,
+  type TaskPriority,
 } from "@ccchat/shared"
 
 // ─── 测试工具 ───
@@ -56,6 +64,26 @@ async function waitFor(fn: () => boolean, timeoutMs = 3000): Promise<boolean> {
   return false
 }
 
+/** 以 daemon 身份连接并注册，收集 Hub 发来的消息 */
+async function connectAgent(
+  url: string,
+  register: Omit<Extract<AgentToHubMessage, { type: "register" }>, "type" | "protocolVersion">,
+): Promise<{ ws: WebSocket; messages: HubToAgentMessage[] }> {
+  const ws = new WebSocket(url)
+  const messages: HubToAgentMessage[] = []
+  ws.on("message", (data: Buffer) => {
+    const msg = parseHubMessage(data.toString())
+    if (msg) messages.push(msg)
+  })
+  await new Promise<void>((resolve, reject) => {
+    ws.on("open", resolve)
+    ws.on("error", reject)
+  })
+  ws.send(serialize({ type: "register", protocolVersion: PROTOCOL_VERSION, ...register }))
+  await waitFor(() => messages.some((m) => m.type === "register_ack"))
+  return { ws, messages }
+}
+
 // ─── 主测试流程 ───
 
 async function main(): Promise<void> {
@@ -102,7 +130,7 @@ async function main(): Promise<void> {
     section("2. 凭证注册 + HTTP API 认证")
     // ═══════════════════════════════════════
     const agentToken = registry.issueToken("test-agent", 123456)
-    registry.issueToken("helper-agent", 789012)
+    const helperToken = registry.issueToken("helper-agent", 789012)
 
     assert(typeof agentToken === "string" && agentToken.startsWith("agt_"), "issueToken 返回有效 token")
     assert(registry.validateAgentToken("test-agent", agentToken), "validateAgentToken 验证通过")
@@ -145,6 +173,8 @@ async function main(): Promise<void> {
       type: "register",
       agentName: "test-agent",
       token: agentToken,
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: ["messaging", "not_a_capability"],
     }
     ws.send(serialize(registerMsg))
 
@@ -153,6 +183,11 @@ async function main(): Promise<void> {
     const ack = wsMessages[0]
     assert(ack?.type === "register_ack", `收到 register_ack (got ${ack?.type})`)
     assert(ack?.type === "register_ack" && ack.success === true, "注册成功")
+    assert(ack?.type === "register_ack" && ack.protocolVersion === PROTOCOL_VERSION, "register_ack 返回协议版本")
+    assert(
+      ack?.type === "register_ack" && ack.capabilities?.join(",") === "messaging",
+      "register_ack 返回协商后的功能（忽略未知功能）",
+    )
 
     // 检查在线状态
     await waitFor(() => events.includes("online:test-agent"))
@@ -478,7 +513,104 @@ async function main(): Promise<void> {
     }
 
     // ═══════════════════════════════════════
-    section("14. WS 断开 → 触发 offline")
+    section("14. Agent 间消息 + 离线收件箱")
+    // ═══════════════════════════════════════
+    {
+      // helper-agent 离线：消息进入收件箱
+      wsMessages.length = 0
+      const sendMsg: AgentToHubMessage = {
+        type: "send_message",
+        targetAgent: "helper-agent",
+        content: "接口文档更新了",
+        requestId: "req-1",
+      }
+      ws.send(serialize(sendMsg))
+      await waitFor(() => wsMessages.some((m) => m.type === "message_receipt"))
+      const queued = wsMessages.find((m) => m.type === "message_receipt")
+      assert(
+        queued?.type === "message_receipt" && queued.status === "queued" && queued.requestId === "req-1",
+        "目标离线 → 回执 queued",
+      )
+
+      // 未注册的目标直接拒绝
+      wsMessages.length = 0
+      ws.send(serialize({ type: "send_message", targetAgent: "nobody", content: "hi", requestId: "req-2" }))
+      await waitFor(() => wsMessages.some((m) => m.type === "message_receipt"))
+      const rejected = wsMessages.find((m) => m.type === "message_receipt")
+      assert(rejected?.type === "message_receipt" && rejected.status === "rejected", "目标未注册 → 回执 rejected")
+
+      // helper-agent 上线：收到收件箱消息，发送方收到 delivered 回执
+      wsMessages.length = 0
+      const helperMessages: HubToAgentMessage[] = []
+      const helperWs = new WebSocket(`ws://localhost:${PORT}`)
+      await new Promise<void>((resolve, reject) => {
+        helperWs.on("open", resolve)
+        helperWs.on("error", reject)
+      })
+      helperWs.on("message", (data: Buffer) => {
+        const parsed = parseHubMessage(data.toString())
+        if (parsed) helperMessages.push(parsed)
+      })
+      helperWs.send(serialize({
+        type: "register",
+        agentName: "helper-agent",
+        token: helperToken,
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: ["messaging"],
+      }))
+
+      await waitFor(() => helperMessages.some((m) => m.type === "chat_message"))
+      const chat = helperMessages.find((m) => m.type === "chat_message")
+      assert(
+        chat?.type === "chat_message" && chat.from === "test-agent" && chat.content === "接口文档更新了",
+        "上线后收到离线消息",
+      )
+      await waitFor(() => wsMessages.some((m) => m.type === "message_receipt"))
+      const delivered = wsMessages.find((m) => m.type === "message_receipt")
+      assert(delivered?.type === "message_receipt" && delivered.status === "delivered", "发送方收到 delivered 回执")
+
+      helperWs.close()
+      await waitFor(() => !registry.isOnline("helper-agent"))
+
+      // 支持 message_ack 的 Agent：确认收到后才回复 delivered
+      const reader = await connectAgent(`ws://localhost:${PORT}`, {
+        agentName: "helper-agent",
+        token: helperToken,
+        capabilities: ["messaging", "message_ack"],
+      })
+      wsMessages.length = 0
+      ws.send(serialize({ type: "send_message", targetAgent: "helper-agent", content: "请确认", requestId: "req-3" }))
+      await waitFor(() => reader.messages.some((m) => m.type === "chat_message"))
+      const unacked = reader.messages.find((m) => m.type === "chat_message")
+      await new Promise((r) => setTimeout(r, 100))
+      assert(!wsMessages.some((m) => m.type === "message_receipt"), "确认收到前不回复 delivered")
+      if (unacked?.type === "chat_message") {
+        reader.ws.send(serialize({ type: "message_ack", messageId: unacked.messageId, status: "received" }))
+      }
+      await waitFor(() => wsMessages.some((m) => m.type === "message_receipt"))
+      const acked = wsMessages.find((m) => m.type === "message_receipt")
+      assert(acked?.type === "message_receipt" && acked.status === "delivered" && acked.requestId === "req-3", "确认收到后回复 delivered")
+
+      // 已收到的消息因未读上限被丢弃：通知支持 message_ack 的发送方
+      reader.messages.length = 0
+      reader.ws.send(serialize({ type: "send_message", targetAgent: "helper-agent", content: "备忘", requestId: "req-4" }))
+      await waitFor(() => reader.messages.some((m) => m.type === "chat_message"))
+      const note = reader.messages.find((m) => m.type === "chat_message")
+      if (note?.type === "chat_message") {
+        reader.ws.send(serialize({ type: "message_ack", messageId: note.messageId, status: "received" }))
+        await waitFor(() => reader.messages.some((m) => m.type === "message_receipt" && m.requestId === "req-4"))
+        reader.ws.send(serialize({ type: "message_ack", messageId: note.messageId, status: "dropped" }))
+      }
+      await waitFor(() => reader.messages.some((m) => m.type === "message_receipt" && m.status === "dropped"))
+      const dropped = reader.messages.find((m) => m.type === "message_receipt" && m.status === "dropped")
+      assert(dropped?.type === "message_receipt" && dropped.messageId === note?.messageId, "消息被丢弃时发送方收到 dropped 回执")
+
+      reader.ws.close()
+      await waitFor(() => !registry.isOnline("helper-agent"))
+    }
+
+    // ═══════════════════════════════════════
+    section("15. WS 断开 → 触发 offline")
     // ═══════════════════════════════════════
     {
       events.length = 0
@@ -488,6 +620,589 @@ async function main(): Promise<void> {
       assert(!registry.isOnline("test-agent"), "Agent 已标记为离线")
     }
 
+    // ═══════════════════════════════════════
+    section("16. 实时输出 SSE 接口")
+    // ═══════════════════════════════════════
+    const outsiderToken = registry.issueToken("outsider-agent", 456)
+    const authOf = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } })
+    {
+      const task = taskQueue.createTask({ from: apiTaskFrom("test-agent"), to: "helper-agent", content: "跑一下测试", chatId: 0, messageId: 0 })
+      taskQueue.updateStatus(task.taskId, "completed", "测试通过")
+      const url = `${BASE}/api/tasks/${task.taskId}/stream`
+      const resp = await fetch(url, authOf(agentToken))
+      const text = await resp.text()
+      assert(resp.status === 200 && resp.headers.get("content-type") === "text/event-stream", `请求方订阅 → 200 SSE (got ${resp.status})`)
+      assert(text.includes("event: done") && text.includes("测试通过"), "已结束的任务直接推送 done 事件")
+      const target = await fetch(url, authOf(helperToken))
+      await target.text()
+      assert(target.status === 200, `执行任务的 Agent 订阅 → 200 (got ${target.status})`)
+      const { status: forbidden } = await fetchJson(url, authOf(outsiderToken))
+      assert(forbidden === 403, `其他 Agent 订阅 → 403 (got ${forbidden})`)
+      const { status: missing } = await fetchJson(`${BASE}/api/tasks/00000000-0000-0000-0000-000000000000/stream`, authOf(agentToken))
+      assert(missing === 404, `任务不存在 → 404 (got ${missing})`)
+    }
+
+    // ═══════════════════════════════════════
+    section("17. 完整结果接口")
+    // ═══════════════════════════════════════
+    {
+      const task = taskQueue.createTask({ from: apiTaskFrom("test-agent"), to: "helper-agent", content: "生成报告", chatId: 0, messageId: 0 })
+      const url = `${BASE}/api/tasks/${task.taskId}/result`
+      const { status: pending } = await fetchJson(url, authOf(agentToken))
+      assert(pending === 404, `任务未完成 → 404 (got ${pending})`)
+
+      const fullResult = "报告".repeat(3000)
+      taskQueue.saveArtifact(task.taskId, fullResult)
+      taskQueue.updateStatus(task.taskId, "completed", "报告（预览）")
+      const { status, body } = await fetchJson(url, authOf(agentToken))
+      assert(status === 200 && body.result === fullResult && body.status === "completed", `请求方读取完整结果 → 200 (got ${status})`)
+      const { status: forbidden } = await fetchJson(url, authOf(outsiderToken))
+      assert(forbidden === 403, `其他 Agent 读取结果 → 403 (got ${forbidden})`)
+    }
+
+    // ═══════════════════════════════════════
+    section("18. 输出文件接口")
+    // ═══════════════════════════════════════
+    {
+      const task = taskQueue.createTask({ from: apiTaskFrom("test-agent"), to: "helper-agent", content: "导出数据", chatId: 0, messageId: 0 })
+      const data = Buffer.from("id,name\n1,测试\n")
+      taskQueue.saveOutputFiles(task.taskId, [
+        { filename: "out/数据.csv", mimeType: "text/csv", data: data.toString("base64"), size: data.length },
+      ])
+      taskQueue.updateStatus(task.taskId, "completed", "已导出")
+
+      const { status, body } = await fetchJson(`${BASE}/api/tasks/${task.taskId}/files`, authOf(helperToken))
+      const files = body.files as ReadonlyArray<Record<string, unknown>>
+      assert(status === 200 && files.length === 1 && files[0].filename === "out/数据.csv" && files[0].data === undefined, `执行任务的 Agent 列出文件（不含内容） → 200 (got ${status})`)
+
+      const fileUrl = `${BASE}/api/tasks/${task.taskId}/files/${encodeURIComponent("out/数据.csv")}`
+      const download = await fetch(fileUrl, authOf(agentToken))
+      const downloaded = Buffer.from(await download.arrayBuffer())
+      assert(download.status === 200 && downloaded.equals(data), `请求方下载文件 → 200 (got ${download.status})`)
+      assert(download.headers.get("content-disposition")?.includes(encodeURIComponent("数据.csv")) === true, "下载文件名只保留文件名部分")
+
+      const { status: missing } = await fetchJson(`${BASE}/api/tasks/${task.taskId}/files/nope.txt`, authOf(agentToken))
+      assert(missing === 404, `文件不存在 → 404 (got ${missing})`)
+      const { status: forbiddenList } = await fetchJson(`${BASE}/api/tasks/${task.taskId}/files`, authOf(outsiderToken))
+      const { status: forbiddenFile } = await fetchJson(fileUrl, authOf(outsiderToken))
+      assert(forbiddenList === 403 && forbiddenFile === 403, `其他 Agent 列出或下载文件 → 403 (got ${forbiddenList}, ${forbiddenFile})`)
+    }
+
+    // ═══════════════════════════════════════
+    section("19. 按并发与 daemon 排队上限分发")
+    // ═══════════════════════════════════════
+    {
+      const token = registry.issueToken("queue-agent", 111)
+      const { ws: queueWs, messages } = await connectAgent(`ws://localhost:${PORT}`, {
+        agentName: "queue-agent",
+        token,
+        maxConcurrentTasks: 1,
+        maxQueuedTasks: 2,
+        capabilities: [],
+      })
+      assert(registry.getConnection("queue-agent")?.info.maxQueuedTasks === 2, "注册时记录 daemon 排队上限")
+      const tasks = ["一", "二", "三", "四"].map((content) => {
+        const task = taskQueue.createTask({ from: "user1", to: "queue-agent", content, chatId: 100, messageId: 0 })
+        taskQueue.updateStatus(task.taskId, "approved")
+        return task
+      })
+      wsServer.dispatchPending("queue-agent")
+      const received = () => messages.filter((m) => m.type === "task").map((m) => m.type === "task" ? m.content : "")
+      await waitFor(() => received().length >= 3)
+      await new Promise((r) => setTimeout(r, 100))
+      assert(received().join("") === "一二三", `并发 1 + 排队 2：分发 3 个任务 (got ${received().join("")})`)
+      const load = wsServer.getAgentLoad("queue-agent")
+      assert(load.inFlight === 3 && load.capacity === 1 && load.queueDepth === 2 && load.queued === 1, "负载包含排队上限，第 4 个任务留在 Hub")
+
+      queueWs.send(serialize({ type: "task_result", taskId: tasks[0].taskId, result: "完成", status: "success" }))
+      await waitFor(() => received().length === 4)
+      assert(received()[3] === "四", "任务结束后补发 Hub 中的下一个任务")
+      for (const task of tasks.slice(1)) {
+        queueWs.send(serialize({ type: "task_result", taskId: task.taskId, result: "完成", status: "success" }))
+      }
+      await waitFor(() => tasks.every((t) => taskQueue.getTask(t.taskId)?.status === "completed"))
+      queueWs.close()
+      await waitFor(() => !registry.isOnline("queue-agent"))
+
+      const { ws: clampedWs } = await connectAgent(`ws://localhost:${PORT}`, {
+        agentName: "queue-agent",
+        token,
+        maxQueuedTasks: 1000,
+        capabilities: [],
+      })
+      assert(wsServer.getAgentLoad("queue-agent").queueDepth === 32, "排队上限被限制在 32 以内")
+      clampedWs.close()
+      await waitFor(() => !registry.isOnline("queue-agent"))
+    }
+
+    // ═══════════════════════════════════════
+    section("20. 优先级排序与队列调整")
+    // ═══════════════════════════════════════
+    {
+      const queue = createTaskQueue()
+      const add = (content: string, priority?: TaskPriority) =>
+        queue.createTask({ from: "user1", to: "prio-agent", content, chatId: 100, messageId: 0, priority })
+      const pendingOrder = () => queue.getPendingTasks("prio-agent").map((t) => t.content).join("")
+      add("a")
+      const low = add("b", "low")
+      add("c", "high")
+      add("d")
+      const urgent = add("e", "urgent")
+      assert(pendingOrder() === "ecadb", `按优先级排序，同优先级先到先得 (got ${pendingOrder()})`)
+
+      assert(queue.movePending("prio-agent", low.taskId, "up"), "movePending 上移成功")
+      assert(pendingOrder() === "ecabd", `上移后与前一个任务交换 (got ${pendingOrder()})`)
+      assert(!queue.movePending("prio-agent", urgent.taskId, "up"), "队首任务无法上移")
+      assert(!queue.movePending("prio-agent", "missing", "down"), "不在队列中的任务无法移动")
+
+      add("f")
+      assert(pendingOrder() === "ecafbd", `新任务插在第一个更低优先级的任务之前 (got ${pendingOrder()})`)
+      queue.stop()
+    }
+
+    // ═══════════════════════════════════════
+    section("21. cron 解析与下次执行时间")
+    // ═══════════════════════════════════════
+    {
+      const next = (expr: string, after: string, tz = "UTC"): string | undefined => {
+        const cron = parseCron(expr)
+        return cron ? nextCronTime(cron, new Date(after), tz)?.toISOString() : undefined
+      }
+      assert(parseCron("*/15 * * * *")?.minutes.size === 4, "*/15 展开为 4 个分钟值")
+      assert(parseCron("61 * * * *") === undefined, "超出范围的分钟值无效")
+      assert(parseCron("0 9 * *") === undefined, "字段数不为 5 时无效")
+      assert(parseCron("0 0 * * 7")?.daysOfWeek.has(0) === true, "星期 7 等同于周日")
+
+      // 2026-10-17 为周六
+      assert(next("30 9 * * 1-5", "2026-10-17T10:00:00Z") === "2026-10-19T09:30:00.000Z", "工作日规则跳过周末")
+      assert(next("0 9 * * *", "2026-10-19T02:00:00Z", "Asia/Shanghai") === "2026-10-20T01:00:00.000Z", "按时区计算：上海 9 点已过则顺延到次日")
+      assert(next("0 9 * * *", "2026-10-19T00:59:00Z", "Asia/Shanghai") === "2026-10-19T01:00:00.000Z", "当天未到的时刻在当天执行")
+      // 日和星期都有限制时满足其一即可
+      assert(next("0 0 1 * 1", "2026-10-20T00:00:00Z") === "2026-10-26T00:00:00.000Z", "日与星期都受限时按 OR 匹配（先到周一）")
+      // */n 开头的日字段视为不限制，与星期按 AND 匹配（奇数日且周一）
+      assert(next("0 0 */2 * 1", "2026-10-20T00:00:00Z") === "2026-11-09T00:00:00.000Z", "*/2 日字段与星期按 AND 匹配")
+
+      const now = new Date("2026-10-19T02:00:00Z")
+      const cronSpec = parseScheduleSpec("0 9 * * 1-5", "Asia/Shanghai", now)
+      assert(typeof cronSpec !== "string" && "cron" in cronSpec, "5 段表达式解析为 cron")
+      const relative = parseScheduleSpec("+30m", "Asia/Shanghai", now)
+      assert(typeof relative !== "string" && "runAt" in relative && relative.runAt === "2026-10-19T02:30:00.000Z", "+30m 解析为 30 分钟后")
+      const clock = parseScheduleSpec("09:00", "Asia/Shanghai", now)
+      assert(typeof clock !== "string" && "runAt" in clock && clock.runAt === "2026-10-20T01:00:00.000Z", "当天已过的时刻顺延到次日")
+      assert(parseScheduleSpec("2026-10-18 09:00", "Asia/Shanghai", now) === "执行时间已过", "过去的绝对时间被拒绝")
+      assert(computeNextRun({ runAt: "2026-10-19T01:00:00.000Z" }, "UTC", now) === undefined, "一次性任务执行时间已过时没有下次执行")
+    }
+
+    // ═══════════════════════════════════════
+    section("22. 流水线：依赖阻塞与上游结果注入")
+    // ═══════════════════════════════════════
+    {
+      const queue = createTaskQueue()
+      const base = { from: "user1", chatId: 100, messageId: 0, pipelineId: "pipe-1", requesterTelegramId: 42, requesterUsername: "alice" }
+      const api = queue.createTask({ ...base, to: "api-agent", content: "实现接口" })
+      const docs = queue.createTask({ ...base, to: "docs-agent", content: "整理文档" })
+      const review = queue.createTask({ ...base, to: "review-agent", content: "审查改动", dependsOn: [api.taskId, docs.taskId] })
+      assert(review.status === "blocked", "有依赖的任务以 blocked 状态创建")
+      assert(queue.getPendingTasks("review-agent").length === 0, "blocked 任务不进入待分发队列")
+      assert(queue.getTasksByPipeline("pipe-1").length === 3, "按流水线 ID 查到全部步骤")
+
+      queue.updateStatus(api.taskId, "completed", "接口已完成")
+      await new Promise((r) => setTimeout(r, 50))
+      assert(queue.getTask(review.taskId)?.status === "blocked", "部分上游完成时仍保持阻塞")
+
+      queue.updateStatus(docs.taskId, "completed", "文档已更新")
+      await waitFor(() => queue.getTask(review.taskId)?.status === "pending")
+      const unblocked = queue.getTask(review.taskId)
+      assert(unblocked?.status === "pending", "上游全部完成后解除阻塞")
+      assert(queue.getPendingTasks("review-agent").some((t) => t.taskId === review.taskId), "解除阻塞后进入待分发队列")
+      assert(unblocked?.content.startsWith(`审查改动${UPSTREAM_RESULTS_SEPARATOR}`) === true, "上游结果追加在原内容之后")
+      assert(unblocked?.content.includes("接口已完成") === true && unblocked.content.includes("文档已更新"), "注入全部上游任务的结果")
+      assert(unblocked?.requesterTelegramId === 42 && unblocked.requesterUsername === "alice", "解除阻塞的任务保留请求方身份（用于审批判定）")
+
+      const build = queue.createTask({ ...base, pipelineId: "pipe-2", to: "api-agent", content: "构建" })
+      const deploy = queue.createTask({ ...base, pipelineId: "pipe-2", to: "ops-agent", content: "部署", dependsOn: [build.taskId] })
+      const notify = queue.createTask({ ...base, pipelineId: "pipe-2", to: "ops-agent", content: "通知", dependsOn: [deploy.taskId] })
+      queue.updateStatus(build.taskId, "failed", "构建失败")
+      await waitFor(() => queue.getTask(notify.taskId)?.status === "cancelled")
+      assert(queue.getTask(deploy.taskId)?.status === "cancelled", "上游失败时下游被取消")
+      assert(queue.getTask(notify.taskId)?.status === "cancelled", "取消沿流水线级联")
+      queue.stop()
+    }
+
+    // ═══════════════════════════════════════
+    section("23. 扇出：子任务结果汇总")
+    // ═══════════════════════════════════════
+    {
+      const queue = createTaskQueue()
+      const { parent, children } = queue.createFanout(
+        { from: "user1", content: "检查依赖版本", chatId: 100, messageId: 0 },
+        "@ember @lily",
+        [{ agentName: "ember" }, { agentName: "lily", workspace: "web" }],
+      )
+      assert(parent.status === "running" && parent.to === "@ember @lily", "父任务创建后即为执行中，目标为标签")
+      assert(children.length === 2 && children.every((c) => c.fanoutParentId === parent.taskId), "每个目标一个子任务")
+      assert(queue.getPendingTasks("lily")[0]?.workspace === "web", "子任务保留各自的工作区")
+      assert(queue.getRunningTasks().every((t) => t.taskId !== parent.taskId), "父任务不计入运行中任务")
+
+      queue.updateStatus(children[0].taskId, "completed", "ember: 全部最新")
+      await new Promise((r) => setTimeout(r, 50))
+      assert(queue.getTask(parent.taskId)?.status === "running", "仍有子任务未结束时父任务保持执行中")
+
+      queue.updateStatus(children[1].taskId, "failed", "lily: 网络错误")
+      await waitFor(() => queue.getTask(parent.taskId)?.status !== "running")
+      const resolved = queue.getTask(parent.taskId)
+      assert(resolved?.status === "completed", "至少一个子任务完成时父任务为 completed")
+      assert(resolved?.result === "1/2 个 Agent 完成", `父任务结果为完成数汇总 (got ${resolved?.result})`)
+      const summary = await queue.getArtifact(parent.taskId)
+      assert(summary?.includes("### ember (completed)\nember: 全部最新") === true, "汇总包含完成子任务的结果")
+      assert(summary?.includes("### lily (failed)\nlily: 网络错误") === true, "汇总包含失败子任务的结果")
+
+      const { parent: failedParent, children: failedChildren } = queue.createFanout(
+        { from: "user1", content: "重启服务", chatId: 100, messageId: 0 },
+        "@ember @lily",
+        [{ agentName: "ember" }, { agentName: "lily" }],
+      )
+      queue.updateStatus(failedChildren[0].taskId, "rejected", "主人拒绝")
+      queue.updateStatus(failedChildren[1].taskId, "cancelled")
+      await waitFor(() => queue.getTask(failedParent.taskId)?.status !== "running")
+      assert(queue.getTask(failedParent.taskId)?.status === "failed", "没有子任务完成时父任务为 failed")
+      queue.stop()
+    }
+
+    // ═══════════════════════════════════════
+    section("24. 分组路由")
+    // ═══════════════════════════════════════
+    {
+      const groupRegistry = createRegistry()
+      for (const name of ["alpha", "beta", "gamma"]) groupRegistry.issueToken(name, 1)
+      const groupStore = createGroupStore({ registry: groupRegistry })
+      assert(typeof groupStore.create("alpha", "any", ["beta"], 1) === "string", "分组名不能与 Agent 同名")
+      groupStore.create("everyone", "broadcast", ["alpha", "beta", "gamma"], 1)
+      groupStore.create("pool", "any", ["alpha", "beta"], 1)
+      groupStore.create("rotation", "round_robin", ["alpha", "beta", "gamma"], 1)
+      groupStore.create("empty", "round_robin", [], 1)
+
+      assert(groupStore.route("everyone").join(",") === "alpha,beta,gamma", "broadcast 返回全部成员")
+      assert(groupStore.route("pool").join(",") === "alpha", "any 模式全部离线时排给第一个成员")
+      assert(groupStore.route("empty").length === 0, "空分组返回空数组")
+
+      assert(groupStore.route("rotation").join(",") === "alpha", "round_robin 从第一个成员开始")
+      assert(groupStore.route("rotation").join(",") === "alpha", "任务未交给成员时不推进轮转")
+      groupStore.markAssigned("rotation", "alpha")
+      assert(groupStore.route("rotation").join(",") === "beta", "分配成功后轮到下一个成员")
+      groupStore.markAssigned("rotation", "outsider")
+      assert(groupStore.route("rotation").join(",") === "beta", "非成员的分配记录被忽略")
+      groupStore.markAssigned("rotation", "gamma")
+      assert(groupStore.route("rotation").join(",") === "alpha", "最后一个成员之后回到开头")
+      groupStore.removeMembers("rotation", ["alpha"])
+      assert(groupStore.route("rotation").join(",") === "beta", "成员变化后仍在现有成员中轮流")
+    }
+
+    // ═══════════════════════════════════════
+    section("25. 失败重试：错误分类与退避")
+    // ═══════════════════════════════════════
+    {
+      assert(classifyTaskError("API Error: 429 Too Many Requests") === "retryable", "限流错误可重试")
+      assert(classifyTaskError("Overloaded, please retry") === "retryable", "过载错误可重试")
+      assert(classifyTaskError("connect ECONNRESET 10.0.0.1:443") === "retryable", "网络中断可重试")
+      assert(classifyTaskError("SyntaxError: Unexpected token") === "terminal", "普通执行错误不重试")
+      assert(classifyTaskError("处理了 4290 条记录后失败") === "terminal", "数字中包含 429 不误判为限流")
+
+      assert(retryDelay(1) === 30_000 && retryDelay(2) === 60_000 && retryDelay(3) === 120_000, "退避从 30 秒起按 2 的幂增长")
+      assert(retryDelay(10) === 10 * 60_000, "退避最长 10 分钟")
+
+      const queue = createTaskQueue()
+      const task = queue.createTask({ from: "user1", to: "retry-agent", content: "拉取数据", chatId: 100, messageId: 0, maxRetries: 1 })
+      queue.removePending("retry-agent", task.taskId)
+      queue.updateStatus(task.taskId, "running")
+      const attempted = queue.recordAttempt(task.taskId, "x".repeat(300), "retryable")
+      assert(attempted?.attempts?.length === 1 && attempted.attempts[0].attempt === 1, "recordAttempt 记录第 1 次失败")
+      assert((attempted?.attempts?.[0].error.length ?? 0) < 300, "执行记录中的错误信息被截断")
+
+      const before = Date.now()
+      const retried = queue.retryTask(task.taskId, retryDelay(1))
+      assert(retried?.status === "approved", "重试后任务回到 approved")
+      const retryAt = retried?.retryAt ? new Date(retried.retryAt).getTime() : 0
+      assert(retryAt >= before + 30_000 && retryAt <= Date.now() + 30_000, "retryAt 为退避结束时间")
+      assert(queue.getPendingTasks("retry-agent").some((t) => t.taskId === task.taskId), "重试的任务重新进入待分发队列")
+
+      queue.updateStatus(task.taskId, "failed", "仍然失败")
+      const manual = queue.retryTask(task.taskId)
+      assert(manual?.status === "approved" && manual.retryAt === undefined && manual.completedAt === undefined, "手动重试立即排队并清除结束时间")
+      assert(queue.getPendingTasks("retry-agent").filter((t) => t.taskId === task.taskId).length === 1, "重复重试不会重复入队")
+
+      queue.updateStatus(task.taskId, "completed", "成功")
+      assert(queue.retryTask(task.taskId) === undefined, "已完成的任务不能重试")
+      queue.stop()
+    }
+
+    // ═══════════════════════════════════════
+    section("26. 结果确认与日志重放去重")
+    // ═══════════════════════════════════════
+    {
+      const token = registry.issueToken("journal-agent", 222)
+      const { ws: journalWs, messages } = await connectAgent(`ws://localhost:${PORT}`, {
+        agentName: "journal-agent",
+        token,
+        capabilities: ["journal"],
+      })
+      const task = taskQueue.createTask({ from: "user1", to: "journal-agent", content: "生成报告", chatId: 100, messageId: 0 })
+      taskQueue.updateStatus(task.taskId, "approved")
+      wsServer.dispatchPending("journal-agent")
+      await waitFor(() => taskQueue.getTask(task.taskId)?.status === "running")
+
+      const acks = () => messages.filter((m) => m.type === "ack" && m.taskId === task.taskId).length
+      journalWs.send(serialize({ type: "task_result", taskId: task.taskId, result: "报告已生成", status: "success" }))
+      await waitFor(() => acks() === 1)
+      assert(taskQueue.getTask(task.taskId)?.status === "completed", "收到结果后任务完成")
+      assert(acks() === 1, "处理结果后向 daemon 发送 ack（daemon 据此清理日志）")
+
+      // daemon 重连后重放尚未收到 ack 的结果
+      events.length = 0
+      journalWs.send(serialize({ type: "task_result", taskId: task.taskId, result: "重放的结果", status: "error" }))
+      await waitFor(() => acks() === 2)
+      assert(acks() === 2, "重放的结果同样确认，避免 daemon 反复重发")
+      assert(taskQueue.getTask(task.taskId)?.result === "报告已生成", "已完成任务的结果不被重放覆盖")
+      assert(!events.includes(`result:${task.taskId}`), "重放的结果不再触发结果回调")
+
+      const other = taskQueue.createTask({ from: "user1", to: "test-agent", content: "别人的任务", chatId: 100, messageId: 0 })
+      taskQueue.updateStatus(other.taskId, "running")
+      journalWs.send(serialize({ type: "task_result", taskId: other.taskId, result: "冒充", status: "success" }))
+      await new Promise((r) => setTimeout(r, 100))
+      assert(taskQueue.getTask(other.taskId)?.status === "running", "不接受其他 Agent 任务的结果")
+      taskQueue.updateStatus(other.taskId, "cancelled")
+      journalWs.close()
+      await waitFor(() => !registry.isOnline("journal-agent"))
+    }
+
+    // ═══════════════════════════════════════
+    section("27. 投递确认与断线重投")
+    // ═══════════════════════════════════════
+    {
+      const token = registry.issueToken("ack-agent", 333)
+      const register = { agentName: "ack-agent", token, capabilities: ["task_ack"] }
+      const first = await connectAgent(`ws://localhost:${PORT}`, register)
+      const task = taskQueue.createTask({ from: "user1", to: "ack-agent", content: "整理日志", chatId: 100, messageId: 0 })
+      taskQueue.updateStatus(task.taskId, "approved")
+      wsServer.dispatchPending("ack-agent")
+      const deliveries = (messages: HubToAgentMessage[]) =>
+        messages.flatMap((m) => (m.type === "task" && m.taskId === task.taskId ? [m.seq ?? 0] : []))
+      await waitFor(() => deliveries(first.messages).length === 1)
+      const [firstSeq] = deliveries(first.messages)
+      assert(firstSeq > 0, "投递带有序号 seq")
+      assert(wsServer.isDispatched(task.taskId), "已发送、等待确认的任务视为已分发")
+      assert(taskQueue.getTask(task.taskId)?.status === "approved", "未确认前任务不标记为执行中")
+      wsServer.dispatchPending("ack-agent")
+      await new Promise((r) => setTimeout(r, 100))
+      assert(deliveries(first.messages).length === 1, "等待确认期间不重复发送")
+
+      // 断线：未确认的投递作废，重连后重新投递
+      first.ws.close()
+      await waitFor(() => !registry.isOnline("ack-agent"))
+      assert(taskQueue.getPendingTasks("ack-agent").some((t) => t.taskId === task.taskId), "未确认的任务仍留在待分发队列")
+      const second = await connectAgent(`ws://localhost:${PORT}`, { ...register, runningTaskIds: [] })
+      await waitFor(() => deliveries(second.messages).length === 1)
+      const [secondSeq] = deliveries(second.messages)
+      assert(secondSeq > firstSeq, `重连后以新序号重新投递 (${firstSeq} → ${secondSeq})`)
+
+      second.ws.send(serialize({ type: "task_ack", taskId: task.taskId, seq: firstSeq }))
+      await new Promise((r) => setTimeout(r, 100))
+      assert(taskQueue.getTask(task.taskId)?.status === "approved", "上一次投递的过期确认被忽略")
+      second.ws.send(serialize({ type: "task_ack", taskId: task.taskId, seq: secondSeq }))
+      await waitFor(() => taskQueue.getTask(task.taskId)?.status === "running")
+      assert(taskQueue.getTask(task.taskId)?.status === "running", "确认最新投递后标记为执行中")
+      assert(!taskQueue.getPendingTasks("ack-agent").some((t) => t.taskId === task.taskId), "确认后移出待分发队列")
+
+      second.ws.send(serialize({ type: "task_result", taskId: task.taskId, result: "完成", status: "success" }))
+      await waitFor(() => taskQueue.getTask(task.taskId)?.status === "completed")
+      second.ws.close()
+      await waitFor(() => !registry.isOnline("ack-agent"))
+    }
+
+    // ═══════════════════════════════════════
+    section("28. ACL 规则优先级与只读任务")
+    // ═══════════════════════════════════════
+    {
+      const aclStore = createAclStore()
+      const alice = { telegramId: 42, username: "Alice" }
+      assert(aclStore.evaluate("ember", alice, false).decision === "review", "没有规则时走正常审批")
+      assert(typeof aclStore.set("ember", "alice", "allow", 1) === "string", "无效主体被拒绝")
+
+      aclStore.set("ember", "@ALICE", "allow", 1)
+      assert(aclStore.evaluate("ember", alice, false).decision === "approve", "allow 免审批（@username 不区分大小写）")
+      assert(aclStore.evaluate("lily", alice, false).decision === "review", "规则只作用于设置它的 Agent")
+
+      aclStore.set("ember", "42", "readonly", 1)
+      assert(aclStore.evaluate("ember", alice, false).decision === "reject", "同时命中 allow 和 readonly 时 readonly 优先：非只读任务被拒绝")
+      assert(aclStore.evaluate("ember", alice, true).decision === "review", "readonly 用户的 !safe 任务仍需审批")
+      assert(aclStore.evaluate("ember", { username: "alice" }, false).decision === "approve", "只命中 allow 的身份不受 readonly 影响")
+
+      aclStore.set("ember", "@alice", "deny", 1)
+      const denied = aclStore.evaluate("ember", alice, true)
+      assert(denied.decision === "reject" && denied.rule?.kind === "deny", "deny 优先于另一身份上的 readonly")
+      assert(aclStore.list("ember").length === 2, "同一主体的新规则覆盖旧规则")
+
+      aclStore.set("ember", "agent:lily", "deny", 1)
+      assert(aclStore.evaluate("ember", { agentName: "lily" }, false).decision === "reject", "agent:<name> 规则作用于 API / MCP 调用方")
+
+      assert(aclStore.remove("ember", "@Alice"), "按主体删除规则")
+      assert(aclStore.evaluate("ember", alice, true).decision === "review", "删除 deny 后回到 readonly 判定")
+
+      // 只读任务不分发给不支持 safe_mode 的 daemon
+      const token = registry.issueToken("old-daemon", 444)
+      const legacy = await connectAgent(`ws://localhost:${PORT}`, { agentName: "old-daemon", token, capabilities: [] })
+      const safeTask = taskQueue.createTask({ from: "user1", to: "old-daemon", content: "查一下日志", chatId: 100, messageId: 0, safe: true })
+      taskQueue.updateStatus(safeTask.taskId, "approved")
+      wsServer.dispatchPending("old-daemon")
+      await waitFor(() => taskQueue.getTask(safeTask.taskId)?.status === "failed")
+      assert(taskQueue.getTask(safeTask.taskId)?.status === "failed", "只读任务遇到不支持 safe_mode 的 daemon 时标记失败")
+      assert(!legacy.messages.some((m) => m.type === "task"), "只读任务未发送给旧版 daemon")
+      assert(events.includes(`result:${safeTask.taskId}`), "失败原因通知请求方")
+      legacy.ws.close()
+      await waitFor(() => !registry.isOnline("old-daemon"))
+    }
+
+    // ═══════════════════════════════════════
+    section("29. 代理审批人与 N 人批准")
+    // ═══════════════════════════════════════
+    {
+      const approverStore = createApproverStore()
+      assert(approverStore.quorumOf("ember") === 1, "未设置时只需 1 人批准")
+      assert(typeof approverStore.setQuorum("ember", 2, 1) === "string", "没有代理审批人时所需人数不能超过 1")
+      assert(typeof approverStore.addApprovers("ember", ["agent:lily"], 1) === "string", "Agent 不能作为审批人")
+
+      approverStore.addApprovers("ember", ["@Bob", "555"], 1)
+      assert(approverStore.isDelegate("ember", { id: 1, username: "bob" }), "按 @username 识别代理审批人（不区分大小写）")
+      assert(approverStore.isDelegate("ember", { id: 555 }), "按 Telegram ID 识别代理审批人")
+      assert(!approverStore.isDelegate("ember", { id: 777, username: "mallory" }), "其他用户不是审批人")
+      assert(typeof approverStore.setQuorum("ember", 4, 1) === "string", "所需人数不能超过主人 + 代理审批人总数")
+      assert(typeof approverStore.setQuorum("ember", 3, 1) !== "string" && approverStore.quorumOf("ember") === 3, "设置 3 人批准")
+
+      approverStore.removeApprovers("ember", ["555"], 1)
+      assert(approverStore.quorumOf("ember") === 2, "移除审批人后所需人数随之下调")
+
+      const task = taskQueue.createTask({ from: "user1", to: "ember", content: "发布新版本", chatId: 100, messageId: 0 })
+      taskQueue.updateStatus(task.taskId, "awaiting_approval")
+      const approvedAt = new Date().toISOString()
+      taskQueue.addApproval(task.taskId, { userId: 1, name: "@bob", approvedAt })
+      const repeated = taskQueue.addApproval(task.taskId, { userId: 1, name: "@bob", approvedAt })
+      assert(repeated?.approvals?.length === 1, "同一人重复批准只算一次")
+      const reached = taskQueue.addApproval(task.taskId, { userId: 999, name: "owner", approvedAt })
+      assert((reached?.approvals?.length ?? 0) >= approverStore.quorumOf("ember"), "不同审批人的批准累计达到所需人数")
+      taskQueue.updateStatus(task.taskId, "cancelled")
+    }
+
+    // ═══════════════════════════════════════
+    section("30. 审批有效期与过期")
+    // ═══════════════════════════════════════
+    {
+      const approverStore = createApproverStore({ defaultApprovalTtlMs: 60 * 60_000 })
+      assert(approverStore.approvalTtlMs("ember") === 60 * 60_000, "未单独设置时使用 Hub 默认有效期")
+      approverStore.setApprovalTtl("ember", 30, 1)
+      assert(approverStore.approvalTtlMs("ember") === 30 * 60_000, "Agent 可覆盖有效期（分钟）")
+      approverStore.setApprovalTtl("ember", 0, 1)
+      assert(approverStore.approvalTtlMs("ember") === undefined, "设置为 0 表示审批不过期")
+
+      const queue = createTaskQueue({
+        approvalTtlMs: (agentName) => (agentName === "patient-agent" ? undefined : 150),
+        sweepIntervalMs: 50,
+      })
+      const task = queue.createTask({ from: "user1", to: "hasty-agent", content: "清理缓存", chatId: 100, messageId: 0 })
+      const patient = queue.createTask({ from: "user1", to: "patient-agent", content: "清理缓存", chatId: 100, messageId: 0 })
+      assert(queue.getTask(task.taskId)?.approvalExpiresAt === undefined, "进入审批前没有截止时间")
+      const awaiting = queue.updateStatus(task.taskId, "awaiting_approval")
+      queue.updateStatus(patient.taskId, "awaiting_approval")
+      assert(awaiting?.approvalExpiresAt !== undefined, "进入审批时按 Agent 有效期确定截止时间")
+      assert(queue.updateStatus(task.taskId, "awaiting_approval")?.approvalExpiresAt === awaiting?.approvalExpiresAt, "仍在等待审批时不刷新截止时间")
+      assert(queue.getTask(patient.taskId)?.approvalExpiresAt === undefined, "有效期为 undefined 的 Agent 不设截止时间")
+
+      await waitFor(() => queue.getTask(task.taskId)?.status === "expired", 1000)
+      const expired = queue.getTask(task.taskId)
+      assert(expired?.status === "expired" && expired.result === "审批超时，任务已过期", "超过截止时间后任务过期")
+      assert(queue.getTask(patient.taskId)?.status === "awaiting_approval", "不过期的任务保持等待审批")
+      queue.stop()
+    }
+
+    // ═══════════════════════════════════════
+    section("31. 自动审批规则匹配")
+    // ═══════════════════════════════════════
+    {
+      const ruleStore = createRuleStore()
+      const spec = (action: "approve" | "reject", text: string) => {
+        const parsed = parseRuleSpec(action, text.split(" "))
+        if (typeof parsed === "string") throw new Error(parsed)
+        return parsed
+      }
+      assert(typeof parseRuleSpec("approve", ["attach=maybe"]) === "string", "attach 只接受 yes / no")
+      assert(typeof ruleStore.add("ember", { action: "approve" }, 1) === "string", "规则至少需要一个条件")
+      assert(typeof ruleStore.add("ember", spec("approve", "time=25:00-08:00"), 1) === "string", "无效时段被拒绝")
+      assert(typeof ruleStore.add("ember", spec("approve", "(unclosed"), 1) === "string", "无效正则被拒绝")
+      for (const pattern of ["(a+)+$", "(\\w*)*x", "((ab)*c){2,}", "(?:x|y+){3}"]) {
+        assert(typeof ruleStore.add("ember", spec("approve", pattern), 1) === "string", `嵌套量词正则被拒绝: ${pattern}`)
+      }
+      for (const pattern of ["(deploy|release)+", "\\(a+\\)+", "[(a+)]+", "(ab)+c*"]) {
+        const rule = ruleStore.add("ember", spec("approve", pattern), 1)
+        assert(typeof rule !== "string", `不含嵌套量词的正则可以添加: ${pattern}`)
+        if (typeof rule !== "string") ruleStore.remove("ember", rule.ruleId)
+      }
+      assert(typeof ruleStore.add("ember", spec("approve", "tz=Mars/Base time=09:00-18:00"), 1) === "string", "无效时区被拒绝")
+
+      const review = ruleStore.add("ember", spec("approve", "from=@Alice ^review"), 1)
+      ruleStore.add("ember", spec("reject", "rm -rf|deploy prod"), 1)
+      ruleStore.add("ember", spec("reject", "attach=yes time=22:00-08:00 tz=UTC"), 1)
+      assert(typeof review !== "string" && describeRule(review) === "from=@alice /^review/", "describeRule 展示规则条件")
+
+      const at = (iso: string) => new Date(iso)
+      const alice = { username: "alice" }
+      const evaluate = (content: string, hasAttachments: boolean, now: Date, requester: AclRequester = alice) =>
+        ruleStore.evaluate("ember", { requester, content, hasAttachments, now })
+      const noon = at("2026-10-19T12:00:00Z")
+      assert(evaluate("Review the PR", false, noon)?.action === "approve", "请求方与正则都匹配时自动批准（正则不区分大小写）")
+      assert(evaluate("review the PR", false, noon, { username: "bob" }) === undefined, "请求方不匹配时不触发")
+      assert(evaluate("review 后 deploy prod", false, noon)?.action === "reject", "同时命中时 reject 规则优先")
+      assert(evaluate("看看日志", false, noon) === undefined, "没有匹配的规则时走正常审批")
+
+      // 22:00-08:00 为跨午夜时段
+      assert(evaluate("看看附件", true, at("2026-10-19T23:30:00Z"))?.action === "reject", "跨午夜时段：开始之后命中")
+      assert(evaluate("看看附件", true, at("2026-10-19T07:59:00Z"))?.action === "reject", "跨午夜时段：次日结束之前命中")
+      assert(evaluate("看看附件", true, at("2026-10-19T08:00:00Z")) === undefined, "时段不含结束时刻")
+      assert(evaluate("看看附件", true, noon) === undefined, "白天不在跨午夜时段内")
+      assert(evaluate("看看附件", false, at("2026-10-19T23:30:00Z")) === undefined, "附件条件不满足时不触发")
+
+      // 时段按规则的时区计算（默认 Asia/Shanghai，UTC+8）
+      ruleStore.add("lily", spec("approve", "time=09:00-18:00"), 1)
+      const lilyAt = (iso: string) => ruleStore.evaluate("lily", { requester: alice, content: "x", hasAttachments: false, now: at(iso) })
+      assert(lilyAt("2026-10-19T02:00:00Z")?.action === "approve", "上海 10:00 在工作时段内")
+      assert(lilyAt("2026-10-19T12:00:00Z") === undefined, "上海 20:00 不在工作时段内")
+
+      const [first] = ruleStore.list("ember")
+      assert(ruleStore.remove("ember", first.ruleId.slice(0, 8))?.ruleId === first.ruleId, "按 ID 前缀删除规则")
+      assert(evaluate("Review the PR", false, noon) === undefined, "删除后规则不再生效")
+    }
+
+    // ═══════════════════════════════════════
+    section("32. 修改后批准：清空旧内容的批准")
+    // ═══════════════════════════════════════
+    {
+      const task = taskQueue.createTask({ from: "user1", to: "test-agent", content: "修改所有文件", chatId: 100, messageId: 300 })
+      taskQueue.updateStatus(task.taskId, "awaiting_approval")
+      taskQueue.addApproval(task.taskId, { userId: 1, name: "@alice", approvedAt: new Date().toISOString() })
+      assert(taskQueue.getTask(task.taskId)?.approvals?.length === 1, "审批人 A 批准原内容")
+
+      const amended = taskQueue.amendContent(task.taskId, "只修改 tests 目录", "@bob")
+      assert(amended?.content === "只修改 tests 目录", "content 为修改后的内容")
+      assert(amended?.originalContent === "修改所有文件", "originalContent 保留原内容")
+      assert(amended?.amendedBy === "@bob", "amendedBy 记录修改人")
+      assert((amended?.approvals?.length ?? 0) === 0, "修改后清空此前针对旧内容的批准")
+
+      const afterB = taskQueue.addApproval(task.taskId, { userId: 2, name: "@bob", approvedAt: new Date().toISOString() })
+      assert(afterB?.approvals?.length === 1, "2 人审批时修改人的批准只算 1/2，仍需 A 重新批准")
+
+      taskQueue.amendContent(task.taskId, "只修改 tests/unit 目录", "@alice")
+      assert(taskQueue.getTask(task.taskId)?.originalContent === "修改所有文件", "再次修改仍保留最初的原内容")
+      taskQueue.updateStatus(task.taskId, "cancelled")
+    }
+
     // ═══════════════════════════════════════
     // 测试结果
     // ═══════════════════════════════════════
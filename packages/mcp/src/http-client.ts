@@ -12,6 +12,16 @@ interface SubmitTaskResponse {
   readonly taskId: string
   readonly status: string
   readonly message: string
+  /** 目标为分组时：实际分配的 Agent，或广播的分组标识 */
+  readonly to?: string
+  /** broadcast 分组的子任务 */
+  readonly children?: ReadonlyArray<{ readonly taskId: string; readonly to: string }>
+}
+
+export interface TaskFileInfo {
+  readonly filename: string
+  readonly mimeType: string
+  readonly size: number
 }
 
 interface TaskStatusResponse {
@@ -23,6 +33,34 @@ interface TaskStatusResponse {
   readonly result?: string
   readonly createdAt: string
   readonly completedAt?: string
+  readonly branch?: string
+  /** 审批截止时间（status 为 expired 时表示已在此时过期） */
+  readonly approvalExpiresAt?: string
+  /** 审批人修改内容后批准时的原始内容（content 为修改后的内容） */
+  readonly originalContent?: string
+  readonly amendedBy?: string
+}
+
+interface TaskOutputSnapshot {
+  readonly output: string
+  readonly done: boolean
+  readonly status?: string
+}
+
+/** 解析一个 SSE 事件块（"event: x\ndata: {...}"） */
+function parseSseEvent(block: string): { readonly event: string; readonly data: Record<string, unknown> } | undefined {
+  let event = "message"
+  let data = ""
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event: ")) event = line.slice(7)
+    else if (line.startsWith("data: ")) data += line.slice(6)
+  }
+  if (!data) return undefined
+  try {
+    return { event, data: JSON.parse(data) as Record<string, unknown> }
+  } catch {
+    return undefined
+  }
 }
 
 export class HubHttpClient {
@@ -33,14 +71,28 @@ export class HubHttpClient {
   }
 
   /** 提交任务（走 TG 审批流程） */
-  async submitTask(to: string, content: string): Promise<SubmitTaskResponse> {
+  async submitTask(
+    to: string,
+    content: string,
+    workspace?: string,
+    priority?: string,
+    maxRetries?: number,
+    safe?: boolean,
+  ): Promise<SubmitTaskResponse> {
     const resp = await fetch(`${this.config.hubApiUrl}/api/tasks`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${this.config.token}`,
       },
-      body: JSON.stringify({ to, content }),
+      body: JSON.stringify({
+        to,
+        content,
+        ...(workspace ? { workspace } : {}),
+        ...(priority ? { priority } : {}),
+        ...(maxRetries !== undefined ? { maxRetries } : {}),
+        ...(safe ? { safe } : {}),
+      }),
     })
 
     if (!resp.ok) {
@@ -67,6 +119,108 @@ export class HubHttpClient {
     return (await resp.json()) as TaskStatusResponse
   }
 
+  /** 获取任务完整结果（未截断） */
+  async getTaskResult(taskId: string): Promise<string> {
+    const resp = await fetch(`${this.config.hubApiUrl}/api/tasks/${taskId}/result`, {
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+      },
+    })
+
+    if (!resp.ok) {
+      const body = await resp.text()
+      throw new Error(`HTTP ${resp.status}: ${body}`)
+    }
+
+    const data = (await resp.json()) as { result: string }
+    return data.result
+  }
+
+  /** 列出任务输出文件 */
+  async listTaskFiles(taskId: string): Promise<ReadonlyArray<TaskFileInfo>> {
+    const resp = await fetch(`${this.config.hubApiUrl}/api/tasks/${taskId}/files`, {
+      headers: {
+        Authorization: `Bearer ${this.config.token}`,
+      },
+    })
+
+    if (!resp.ok) {
+      const body = await resp.text()
+      throw new Error(`HTTP ${resp.status}: ${body}`)
+    }
+
+    const data = (await resp.json()) as { files: TaskFileInfo[] }
+    return data.files
+  }
+
+  /** 下载单个任务输出文件 */
+  async downloadTaskFile(taskId: string, filename: string): Promise<Buffer> {
+    const resp = await fetch(
+      `${this.config.hubApiUrl}/api/tasks/${taskId}/files/${encodeURIComponent(filename)}`,
+      {
+        headers: {
+          Authorization: `Bearer ${this.config.token}`,
+        },
+      },
+    )
+
+    if (!resp.ok) {
+      const body = await resp.text()
+      throw new Error(`HTTP ${resp.status}: ${body}`)
+    }
+
+    return Buffer.from(await resp.arrayBuffer())
+  }
+
+  /** 跟随任务实时输出，最多等待 waitMs 毫秒 */
+  async streamTaskOutput(taskId: string, waitMs: number): Promise<TaskOutputSnapshot> {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), waitMs)
+    let output = ""
+    try {
+      const resp = await fetch(`${this.config.hubApiUrl}/api/tasks/${taskId}/stream`, {
+        headers: {
+          Authorization: `Bearer ${this.config.token}`,
+        },
+        signal: controller.signal,
+      })
+
+      if (!resp.ok || !resp.body) {
+        const body = await resp.text()
+        throw new Error(`HTTP ${resp.status}: ${body}`)
+      }
+
+      const reader = resp.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ""
+      for (;;) {
+        const { value, done } = await reader.read()
+        if (done) break
+        buffer += decoder.decode(value, { stream: true })
+        let sep = buffer.indexOf("\n\n")
+        while (sep >= 0) {
+          const parsed = parseSseEvent(buffer.slice(0, sep))
+          buffer = buffer.slice(sep + 2)
+          sep = buffer.indexOf("\n\n")
+          if (!parsed) continue
+          if (parsed.event === "chunk") {
+            output += String(parsed.data.text ?? "")
+          } else if (parsed.event === "done") {
+            await reader.cancel()
+            return { output, done: true, status: parsed.data.status as string | undefined }
+          }
+        }
+      }
+      return { output, done: false }
+    } catch (err) {
+      // 等待超时：返回目前收到的输出
+      if (controller.signal.aborted) return { output, done: false }
+      throw err
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
   /** 列出在线 Agent */
   async listAgents(): Promise<ReadonlyArray<{ readonly name: string; readonly status: string }>> {
     const resp = await fetch(`${this.config.hubApiUrl}/api/agents`, {
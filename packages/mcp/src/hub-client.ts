@@ -9,8 +9,10 @@ import type {
   ListAgentsResponse,
   TaskStatusResponse,
   RegisterAckMessage,
+  ChatMessage,
+  MessageReceiptMessage,
 } from "@ccchat/shared"
-import { serialize, parseHubMessage } from "@ccchat/shared"
+import { serialize, parseHubMessage, PROTOCOL_VERSION } from "@ccchat/shared"
 
 /** 配置项 */
 export interface HubClientConfig {
@@ -29,6 +31,9 @@ interface PendingRequest<T> {
 /** 请求超时（毫秒） */
 const REQUEST_TIMEOUT_MS = 15_000
 
+/** 本地最多缓存的未读消息数 */
+const MAX_UNREAD_MESSAGES = 200
+
 /** 生成唯一请求 ID */
 function createRequestId(): string {
   return `mcp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
@@ -39,6 +44,9 @@ export class HubClient {
   private readonly config: HubClientConfig
   private readonly pendingRequests: Map<string, PendingRequest<HubToAgentMessage>> = new Map()
   private connected = false
+  private unreadMessages: ReadonlyArray<ChatMessage> = []
+  /** 发出后被对方因未读上限丢弃的消息回执 */
+  private droppedReceipts: ReadonlyArray<MessageReceiptMessage> = []
 
   constructor(config: HubClientConfig) {
     this.config = config
@@ -57,6 +65,9 @@ export class HubClient {
           type: "register",
           agentName: this.config.agentName,
           token: this.config.token,
+          protocolVersion: PROTOCOL_VERSION,
+          // 只接收 Agent 消息，不执行任务
+          capabilities: ["messaging", "message_ack"],
         }
         ws.send(serialize(registerMsg))
       })
@@ -106,9 +117,27 @@ export class HubClient {
       return
     }
 
+    // 其他 Agent 发来的消息，缓存到本地等待读取（确认收到后 Hub 才标记送达）
+    if (msg.type === "chat_message") {
+      this.sendMessageAck(msg.messageId, "received")
+      if (this.unreadMessages.some((m) => m.messageId === msg.messageId)) return
+      const queued = [...this.unreadMessages, msg]
+      this.unreadMessages = queued.slice(-MAX_UNREAD_MESSAGES)
+      for (const dropped of queued.slice(0, -MAX_UNREAD_MESSAGES)) {
+        this.sendMessageAck(dropped.messageId, "dropped")
+      }
+      return
+    }
+
+    // 发出的消息被对方丢弃（不对应请求）
+    if (msg.type === "message_receipt" && msg.status === "dropped") {
+      this.droppedReceipts = [...this.droppedReceipts, msg].slice(-MAX_UNREAD_MESSAGES)
+      return
+    }
+
     // 带 requestId 的响应消息
-    if ("requestId" in msg) {
-      const requestId = (msg as ListAgentsResponse | TaskStatusResponse).requestId
+    if ("requestId" in msg && msg.requestId) {
+      const requestId = (msg as ListAgentsResponse | TaskStatusResponse | MessageReceiptMessage).requestId!
       const pending = this.pendingRequests.get(requestId)
       if (pending) {
         clearTimeout(pending.timer)
@@ -118,15 +147,39 @@ export class HubClient {
     }
   }
 
-  /** 发送聊天消息（fire-and-forget） */
-  sendMessage(targetAgent: string, content: string): void {
+  /** 发送聊天消息，等待 Hub 返回投递回执 */
+  async sendMessage(targetAgent: string, content: string): Promise<MessageReceiptMessage> {
     this.ensureConnected()
+    const requestId = createRequestId()
     const msg: AgentToHubMessage = {
       type: "send_message",
       targetAgent,
       content,
+      requestId,
     }
     this.ws!.send(serialize(msg))
+    const resp = await this.waitForResponse(requestId)
+    return resp as MessageReceiptMessage
+  }
+
+  /** 确认收到消息，或报告已收到的消息因本地缓存上限被丢弃 */
+  private sendMessageAck(messageId: string, status: "received" | "dropped"): void {
+    const ack: AgentToHubMessage = { type: "message_ack", messageId, status }
+    this.ws?.send(serialize(ack))
+  }
+
+  /** 取出所有未读消息（读取后清空） */
+  takeMessages(): ReadonlyArray<ChatMessage> {
+    const messages = this.unreadMessages
+    this.unreadMessages = []
+    return messages
+  }
+
+  /** 取出被对方丢弃的消息回执（读取后清空） */
+  takeDroppedReceipts(): ReadonlyArray<MessageReceiptMessage> {
+    const receipts = this.droppedReceipts
+    this.droppedReceipts = []
+    return receipts
   }
 
   /** 请求在线 Agent 列表 */
@@ -1,6 +1,8 @@
 /**
  * MCP 工具定义
  */
+import { writeFile } from "node:fs/promises"
+import { basename, resolve } from "node:path"
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
 import type { HubClient } from "./hub-client.js"
@@ -9,7 +11,10 @@ import type { AgentInfo, TaskInfo } from "@ccchat/shared"
 
 /** 格式化 Agent 信息为可读文本 */
 function formatAgent(agent: AgentInfo): string {
-  return `- ${agent.name} [${agent.status}] (上线: ${agent.connectedAt})`
+  const workspaces = agent.workspaces && agent.workspaces.length > 0
+    ? ` 工作区: ${agent.workspaces.join(", ")}`
+    : ""
+  return `- ${agent.name} [${agent.status}] (上线: ${agent.connectedAt})${workspaces}`
 }
 
 /** 格式化任务信息为可读文本 */
@@ -22,6 +27,9 @@ function formatTask(task: TaskInfo): string {
     `内容: ${task.content}`,
     `创建时间: ${task.createdAt}`,
     ...(task.result ? [`结果: ${task.result}`] : []),
+    ...(task.branch ? [`分支: ${task.branch}`] : []),
+    ...(task.priority && task.priority !== "normal" ? [`优先级: ${task.priority}`] : []),
+    ...(task.attempts?.length ? [`失败记录: ${task.attempts.map((a) => `#${a.attempt} ${a.errorKind}: ${a.error}`).join("; ")}`] : []),
     ...(task.completedAt ? [`完成时间: ${task.completedAt}`] : []),
   ]
   return lines.join("\n")
@@ -38,9 +46,18 @@ function registerSendTool(server: McpServer, client: HubClient): void {
     },
     async ({ to, message }) => {
       try {
-        client.sendMessage(to, message)
+        const receipt = await client.sendMessage(to, message)
+        if (receipt.status === "rejected") {
+          return {
+            content: [{ type: "text" as const, text: `发送失败: ${receipt.error ?? "消息被拒绝"}` }],
+            isError: true,
+          }
+        }
+        const text = receipt.status === "delivered"
+          ? `消息已送达 ${to}`
+          : `${to} 当前离线，消息已存入收件箱，上线后自动投递`
         return {
-          content: [{ type: "text" as const, text: `消息已发送给 ${to}` }],
+          content: [{ type: "text" as const, text }],
         }
       } catch (error) {
         const errMsg = error instanceof Error ? error.message : String(error)
@@ -53,6 +70,27 @@ function registerSendTool(server: McpServer, client: HubClient): void {
   )
 }
 
+/** 注册 ccchat_read_messages 工具 */
+function registerReadMessagesTool(server: McpServer, client: HubClient): void {
+  server.tool(
+    "ccchat_read_messages",
+    "读取其他 Agent 发给你的消息（读取后清空）",
+    async () => {
+      const messages = client.takeMessages()
+      const dropped = client.takeDroppedReceipts()
+      const lines = [
+        ...messages.map((m) => `- ${m.from} (${m.sentAt}): ${m.content}`),
+        ...(dropped.length > 0 ? ["", "以下发出的消息未被对方处理就被丢弃（对方未读消息过多）:"] : []),
+        ...dropped.map((r) => `- 发给 ${r.targetAgent} 的消息 ${r.messageId.slice(0, 8)}`),
+      ]
+      const text = lines.length > 0 ? lines.join("\n") : "没有新消息"
+      return {
+        content: [{ type: "text" as const, text }],
+      }
+    },
+  )
+}
+
 /** 注册 ccchat_list_agents 工具 */
 function registerListAgentsTool(server: McpServer, client: HubClient): void {
   server.tool(
@@ -112,18 +150,24 @@ function registerSubmitTaskTool(server: McpServer, httpClient: HubHttpClient): v
     "ccchat_submit_task",
     "提交任务给其他 Agent（通过 Telegram 审批流程）。用于请求其他同事的 Claude Code 帮你处理任务，比如修 bug、写代码等。任务会发送到 Telegram 群等待审批后执行。",
     {
-      to: z.string().describe("目标 Agent 名称（同事的 agent name）"),
+      to: z.string().describe("目标 Agent 名称（同事的 agent name），或 Agent 分组名（按分组的路由模式分配，broadcast 分组会发给所有成员并汇总结果）"),
       content: z.string().describe("任务内容（要求对方做什么）"),
+      workspace: z.string().optional().describe("目标 Agent 的命名工作区（ccchat_list_agents 可查看），不填使用默认目录"),
+      priority: z.enum(["low", "normal", "high", "urgent"]).optional().describe("任务优先级，决定在对方队列中的顺序，默认 normal"),
+      maxRetries: z.number().int().min(0).max(5).optional().describe("限流、网络抖动等可重试错误的自动重试次数，默认 2"),
+      safe: z.boolean().optional().describe("标记为只读任务（不修改文件）。对方 Agent 对你设置了只读权限时必须标记"),
     },
-    async ({ to, content }) => {
+    async ({ to, content, workspace, priority, maxRetries, safe }) => {
       try {
-        const result = await httpClient.submitTask(to, content)
+        const result = await httpClient.submitTask(to, content, workspace, priority, maxRetries, safe)
         return {
           content: [{
             type: "text" as const,
             text: [
               `任务已提交！`,
               `ID: ${result.taskId}`,
+              ...(result.to ? [`目标: ${result.to}`] : []),
+              ...(result.children ? [`子任务: ${result.children.map((c) => `${c.to} (${c.taskId})`).join(", ")}`] : []),
               `状态: ${result.message}`,
               ``,
               `用 ccchat_task_status 查看进度。`,
@@ -152,11 +196,27 @@ function registerCheckResultTool(server: McpServer, httpClient: HubHttpClient):
     async ({ taskId }) => {
       try {
         const task = await httpClient.getTaskStatus(taskId)
+        // 已结束的任务取完整结果（TaskInfo.result 只是预览）
+        const result = task.result
+          ? await httpClient.getTaskResult(taskId).catch(() => task.result)
+          : undefined
+        const files = task.result
+          ? await httpClient.listTaskFiles(taskId).catch(() => [])
+          : []
         const lines = [
           `任务ID: ${task.taskId}`,
           `状态: ${task.status}`,
           `执行方: ${task.to}`,
-          ...(task.result ? [``, `结果:`, task.result] : []),
+          ...(task.status === "awaiting_approval" && task.approvalExpiresAt ? [`审批截止: ${task.approvalExpiresAt}`] : []),
+          ...(task.status === "expired" ? [`审批已过期${task.approvalExpiresAt ? `: ${task.approvalExpiresAt}` : ""}（无人审批，需要时请重新提交）`] : []),
+          ...(task.originalContent !== undefined
+            ? [``, `任务内容已被 ${task.amendedBy ?? "审批人"} 修改后批准:`, task.content, ``, `原内容:`, task.originalContent, ``]
+            : []),
+          ...(task.branch ? [`分支: ${task.branch}`] : []),
+          ...(result ? [``, `结果:`, result] : []),
+          ...(files.length > 0
+            ? [``, `输出文件（可用 ccchat_download_file 下载）:`, ...files.map((f) => `- ${f.filename} (${f.size} 字节)`)]
+            : []),
           ...(task.completedAt ? [`完成时间: ${task.completedAt}`] : []),
         ]
         return {
@@ -173,6 +233,67 @@ function registerCheckResultTool(server: McpServer, httpClient: HubHttpClient):
   )
 }
 
+/** 注册 ccchat_download_file 工具（下载任务输出文件到当前目录） */
+function registerDownloadFileTool(server: McpServer, httpClient: HubHttpClient): void {
+  server.tool(
+    "ccchat_download_file",
+    "下载任务产生的输出文件，保存到当前工作目录。文件名可通过 ccchat_check_result 查看。",
+    {
+      taskId: z.string().describe("任务 ID"),
+      filename: z.string().describe("输出文件名"),
+    },
+    async ({ taskId, filename }) => {
+      try {
+        const data = await httpClient.downloadTaskFile(taskId, filename)
+        // 只取 basename，防止路径穿越
+        const target = resolve(process.cwd(), basename(filename))
+        await writeFile(target, data)
+        return {
+          content: [{ type: "text" as const, text: `已保存 ${target} (${data.length} 字节)` }],
+        }
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error)
+        return {
+          content: [{ type: "text" as const, text: `下载失败: ${errMsg}` }],
+          isError: true,
+        }
+      }
+    },
+  )
+}
+
+/** 注册 ccchat_task_output 工具（通过 SSE 跟随任务实时输出） */
+function registerTaskOutputTool(server: McpServer, httpClient: HubHttpClient): void {
+  server.tool(
+    "ccchat_task_output",
+    "查看任务执行中的实时输出。会等待一段时间收集新输出，任务结束时立即返回。",
+    {
+      taskId: z.string().describe("任务 ID"),
+      waitSeconds: z.number().min(1).max(60).optional().describe("最多等待秒数，默认 10"),
+    },
+    async ({ taskId, waitSeconds }) => {
+      try {
+        const snapshot = await httpClient.streamTaskOutput(taskId, (waitSeconds ?? 10) * 1000)
+        const lines = [
+          `任务ID: ${taskId}`,
+          snapshot.done ? `状态: ${snapshot.status ?? "已结束"}` : `状态: 执行中`,
+          ``,
+          snapshot.output || "(暂无输出)",
+        ]
+        return {
+          content: [{ type: "text" as const, text: lines.join("\n") }],
+        }
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error)
+        return {
+          content: [{ type: "text" as const, text: `查询失败: ${errMsg}` }],
+          isError: true,
+        }
+      }
+    },
+  )
+}
+
 /** 注册所有工具到 MCP Server */
 export function registerTools(
   server: McpServer,
@@ -180,10 +301,13 @@ export function registerTools(
   httpClient?: HubHttpClient,
 ): void {
   registerSendTool(server, client)
+  registerReadMessagesTool(server, client)
   registerListAgentsTool(server, client)
   registerTaskStatusTool(server, client)
   if (httpClient) {
     registerSubmitTaskTool(server, httpClient)
     registerCheckResultTool(server, httpClient)
+    registerTaskOutputTool(server, httpClient)
+    registerDownloadFileTool(server, httpClient)
   }
 }
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+// 导出协议的 JSON Schema（供其他语言实现 daemon），需先 tsc 编译
+import { writeFileSync } from "node:fs"
+import { protocolJsonSchema } from "../dist/index.js"
+
+const outFile = new URL("../protocol.schema.json", import.meta.url)
+writeFileSync(outFile, `${JSON.stringify(protocolJsonSchema(), null, 2)}\n`)
+process.stdout.write(`已写入 ${outFile.pathname}\n`)
@@ -1,21 +1,34 @@
 export type {
+  AgentCapability,
   AgentInfo,
   TaskInfo,
+  TaskPriority,
+  TaskErrorKind,
+  TaskAttempt,
+  TaskApproval,
+  TaskPolicyRule,
   TaskAttachment,
+  WorkspaceConfig,
   DaemonConfig,
   HubConfig,
 } from "./types.js"
 
 export type {
   RegisterMessage,
+  TaskAckMessage,
   PongMessage,
   TaskResultMessage,
+  TaskResultChunkMessage,
   SendChatMessage,
   ListAgentsRequest,
   TaskStatusRequest,
   TaskCancelledMessage,
   StatusReportMessage,
+  TaskQueuedMessage,
   TaskProgressMessage,
+  MessageAckMessage,
+  TaskOutputChunkMessage,
+  ChangesRevertedMessage,
   AgentToHubMessage,
   RegisterAckMessage,
   PingMessage,
@@ -23,11 +36,33 @@ export type {
   ListAgentsResponse,
   TaskStatusResponse,
   CancelTaskMessage,
+  RevertTaskChangesMessage,
+  AckMessage,
+  ChatMessage,
+  MessageReceiptMessage,
   HubToAgentMessage,
 } from "./protocol.js"
 
 export {
+  PROTOCOL_VERSION,
+  LEGACY_PROTOCOL_VERSION,
+  AGENT_CAPABILITIES,
+  LEGACY_AGENT_CAPABILITIES,
   serialize,
+  parseCapabilities,
+  classifyTaskError,
   parseAgentMessage,
   parseHubMessage,
 } from "./protocol.js"
+
+export {
+  AgentCapabilitySchema,
+  AgentInfoSchema,
+  TaskPrioritySchema,
+  TaskErrorKindSchema,
+  TaskInfoSchema,
+  TaskAttachmentSchema,
+  AgentToHubMessageSchema,
+  HubToAgentMessageSchema,
+  protocolJsonSchema,
+} from "./schema.js"
@@ -1,217 +1,133 @@
-import type { AgentInfo, TaskInfo } from "./types.js"
+import type { z } from "zod"
+import type { AgentCapability, TaskErrorKind } from "./types.js"
+import {
+  AgentCapabilitySchema,
+  AgentToHubMessageSchema,
+  HubToAgentMessageSchema,
+  type RegisterMessageSchema,
+  type TaskAckMessageSchema,
+  type MessageAckMessageSchema,
+  type PongMessageSchema,
+  type TaskResultMessageSchema,
+  type TaskResultChunkMessageSchema,
+  type SendChatMessageSchema,
+  type ListAgentsRequestSchema,
+  type TaskStatusRequestSchema,
+  type TaskCancelledMessageSchema,
+  type StatusReportMessageSchema,
+  type TaskQueuedMessageSchema,
+  type TaskProgressMessageSchema,
+  type TaskOutputChunkMessageSchema,
+  type ChangesRevertedMessageSchema,
+  type RegisterAckMessageSchema,
+  type PingMessageSchema,
+  type TaskMessageSchema,
+  type ListAgentsResponseSchema,
+  type TaskStatusResponseSchema,
+  type CancelTaskMessageSchema,
+  type RevertTaskChangesMessageSchema,
+  type AckMessageSchema,
+  type ChatMessageSchema,
+  type MessageReceiptMessageSchema,
+} from "./schema.js"
+
+/** 当前协议版本：新增消息类型或改变语义时递增 */
+export const PROTOCOL_VERSION = 2
+
+/** 未上报协议版本的旧版 daemon 视为版本 1 */
+export const LEGACY_PROTOCOL_VERSION = 1
+
+/** 协议中定义的全部功能（Hub 和 Agent 取交集） */
+export const AGENT_CAPABILITIES: ReadonlyArray<AgentCapability> = AgentCapabilitySchema.options
+
+/** 旧版 daemon（未上报功能列表）按此列表处理 */
+export const LEGACY_AGENT_CAPABILITIES: ReadonlyArray<AgentCapability> = ["attachments"]
+
+// 消息类型由 schema.ts 派生（字段说明见对应 schema）
 
 // ─── Agent -> Hub Messages ───
 
-export interface RegisterMessage {
-  readonly type: "register"
-  readonly agentName: string
-  readonly token: string
-}
-
-export interface PongMessage {
-  readonly type: "pong"
-}
-
-export interface TaskResultMessage {
-  readonly type: "task_result"
-  readonly taskId: string
-  readonly result: string
-  readonly status: "success" | "error"
-}
-
-export interface SendChatMessage {
-  readonly type: "send_message"
-  readonly targetAgent: string
-  readonly content: string
-}
-
-export interface ListAgentsRequest {
-  readonly type: "list_agents"
-  readonly requestId: string
-}
-
-export interface TaskStatusRequest {
-  readonly type: "task_status"
-  readonly requestId: string
-  readonly taskId: string
-}
-
-export interface TaskCancelledMessage {
-  readonly type: "task_cancelled"
-  readonly taskId: string
-}
-
-export interface StatusReportMessage {
-  readonly type: "status_report"
-  readonly runningTasks: number
-  readonly currentTaskId?: string
-  readonly idleSince?: string
-}
-
-export interface TaskProgressMessage {
-  readonly type: "task_progress"
-  readonly taskId: string
-  readonly status: string
-  readonly detail?: string
-  readonly elapsedMs: number
-}
-
-export type AgentToHubMessage =
-  | RegisterMessage
-  | PongMessage
-  | TaskResultMessage
-  | SendChatMessage
-  | ListAgentsRequest
-  | TaskStatusRequest
-  | TaskCancelledMessage
-  | StatusReportMessage
-  | TaskProgressMessage
+export type RegisterMessage = z.infer<typeof RegisterMessageSchema>
+export type PongMessage = z.infer<typeof PongMessageSchema>
+export type TaskResultMessage = z.infer<typeof TaskResultMessageSchema>
+export type TaskResultChunkMessage = z.infer<typeof TaskResultChunkMessageSchema>
+export type SendChatMessage = z.infer<typeof SendChatMessageSchema>
+export type ListAgentsRequest = z.infer<typeof ListAgentsRequestSchema>
+export type TaskStatusRequest = z.infer<typeof TaskStatusRequestSchema>
+export type TaskCancelledMessage = z.infer<typeof TaskCancelledMessageSchema>
+export type StatusReportMessage = z.infer<typeof StatusReportMessageSchema>
+export type TaskQueuedMessage = z.infer<typeof TaskQueuedMessageSchema>
+export type TaskProgressMessage = z.infer<typeof TaskProgressMessageSchema>
+export type TaskOutputChunkMessage = z.infer<typeof TaskOutputChunkMessageSchema>
+export type ChangesRevertedMessage = z.infer<typeof ChangesRevertedMessageSchema>
+/** 确认收到 task 消息（重复投递同样确认，daemon 按 taskId 去重不会重复执行） */
+export type TaskAckMessage = z.infer<typeof TaskAckMessageSchema>
+/** 确认收到 chat_message，或报告已收到的消息因未读上限被丢弃 */
+export type MessageAckMessage = z.infer<typeof MessageAckMessageSchema>
+
+export type AgentToHubMessage = z.infer<typeof AgentToHubMessageSchema>
 
 // ─── Hub -> Agent Messages ───
 
-export interface RegisterAckMessage {
-  readonly type: "register_ack"
-  readonly success: boolean
-  readonly error?: string
-}
+export type RegisterAckMessage = z.infer<typeof RegisterAckMessageSchema>
+export type PingMessage = z.infer<typeof PingMessageSchema>
+export type TaskMessage = z.infer<typeof TaskMessageSchema>
+export type ListAgentsResponse = z.infer<typeof ListAgentsResponseSchema>
+export type TaskStatusResponse = z.infer<typeof TaskStatusResponseSchema>
+export type CancelTaskMessage = z.infer<typeof CancelTaskMessageSchema>
+export type RevertTaskChangesMessage = z.infer<typeof RevertTaskChangesMessageSchema>
+/** Hub 已处理某任务的结果/取消通知，daemon 可从本地日志中移除 */
+export type AckMessage = z.infer<typeof AckMessageSchema>
+export type ChatMessage = z.infer<typeof ChatMessageSchema>
+export type MessageReceiptMessage = z.infer<typeof MessageReceiptMessageSchema>
 
-export interface PingMessage {
-  readonly type: "ping"
-}
+export type HubToAgentMessage = z.infer<typeof HubToAgentMessageSchema>
 
-export interface TaskMessage {
-  readonly type: "task"
-  readonly taskId: string
-  readonly from: string
-  readonly content: string
-  readonly chatId: number
-  readonly messageId: number
-  readonly conversationId?: string
-  readonly parentTaskId?: string
-  readonly attachments?: ReadonlyArray<import("./types.js").TaskAttachment>
-}
+// ─── Helpers ───
 
-export interface ListAgentsResponse {
-  readonly type: "list_agents_response"
-  readonly requestId: string
-  readonly agents: ReadonlyArray<AgentInfo>
+export function serialize(msg: AgentToHubMessage | HubToAgentMessage): string {
+  return JSON.stringify(msg)
 }
 
-export interface TaskStatusResponse {
-  readonly type: "task_status_response"
-  readonly requestId: string
-  readonly task: TaskInfo | null
-}
+// 可重试的错误特征：CLI 限流/过载、网络抖动
+const RETRYABLE_ERROR_PATTERNS: ReadonlyArray<RegExp> = [
+  /rate.?limit/i,
+  /too many requests/i,
+  /\b(429|529)\b/,
+  /overloaded/i,
+  /\bE(CONNRESET|CONNREFUSED|TIMEDOUT|PIPE|AI_AGAIN|NOTFOUND)\b/,
+  /socket hang up/i,
+  /network (error|is unreachable)/i,
+  /fetch failed/i,
+]
 
-export interface CancelTaskMessage {
-  readonly type: "cancel_task"
-  readonly taskId: string
+/** 过滤出协议中定义的功能（忽略更新版本才有的未知功能） */
+export function parseCapabilities(raw: ReadonlyArray<string>): ReadonlyArray<AgentCapability> {
+  return AGENT_CAPABILITIES.filter((c) => raw.includes(c))
 }
 
-export type HubToAgentMessage =
-  | RegisterAckMessage
-  | PingMessage
-  | TaskMessage
-  | ListAgentsResponse
-  | TaskStatusResponse
-  | CancelTaskMessage
-
-// ─── Helpers ───
-
-export function serialize(msg: AgentToHubMessage | HubToAgentMessage): string {
-  return JSON.stringify(msg)
+/** 按错误文本判断任务失败是否可重试 */
+export function classifyTaskError(error: string): TaskErrorKind {
+  return RETRYABLE_ERROR_PATTERNS.some((p) => p.test(error)) ? "retryable" : "terminal"
 }
 
-/** 合法的 Agent→Hub 消息类型 */
-const VALID_AGENT_MESSAGE_TYPES = new Set([
-  "register", "pong", "task_result", "send_message",
-  "list_agents", "task_status", "task_cancelled",
-  "status_report", "task_progress",
-])
-
-/** 验证并解析 Agent→Hub 消息，返回 undefined 表示无效消息 */
-export function parseAgentMessage(raw: string): AgentToHubMessage | undefined {
-  let parsed: unknown
+/** 解析 JSON，失败返回 undefined */
+function parseJson(raw: string): unknown {
   try {
-    parsed = JSON.parse(raw)
+    return JSON.parse(raw)
   } catch {
     return undefined
   }
-  if (typeof parsed !== "object" || parsed === null) return undefined
-  const msg = parsed as Record<string, unknown>
-  if (typeof msg.type !== "string" || !VALID_AGENT_MESSAGE_TYPES.has(msg.type)) return undefined
-
-  // 按类型校验必要字段
-  switch (msg.type) {
-    case "register":
-      if (typeof msg.agentName !== "string" || typeof msg.token !== "string") return undefined
-      break
-    case "task_result":
-      if (typeof msg.taskId !== "string" || typeof msg.result !== "string") return undefined
-      if (msg.status !== "success" && msg.status !== "error") return undefined
-      break
-    case "task_cancelled":
-      if (typeof msg.taskId !== "string") return undefined
-      break
-    case "list_agents":
-      if (typeof msg.requestId !== "string") return undefined
-      break
-    case "task_status":
-      if (typeof msg.requestId !== "string" || typeof msg.taskId !== "string") return undefined
-      break
-    case "task_progress":
-      if (typeof msg.taskId !== "string" || typeof msg.status !== "string") return undefined
-      if (typeof msg.elapsedMs !== "number") return undefined
-      break
-    case "status_report":
-      if (typeof msg.runningTasks !== "number") return undefined
-      break
-    case "send_message":
-      if (typeof msg.targetAgent !== "string" || typeof msg.content !== "string") return undefined
-      break
-    // pong 无额外字段
-  }
-
-  return parsed as AgentToHubMessage
 }
 
-/** 合法的 Hub→Agent 消息类型 */
-const VALID_HUB_MESSAGE_TYPES = new Set([
-  "register_ack", "ping", "task",
-  "list_agents_response", "task_status_response", "cancel_task",
-])
+/** 验证并解析 Agent→Hub 消息，返回 undefined 表示无效消息 */
+export function parseAgentMessage(raw: string): AgentToHubMessage | undefined {
+  const result = AgentToHubMessageSchema.safeParse(parseJson(raw))
+  return result.success ? result.data : undefined
+}
 
 /** 验证并解析 Hub→Agent 消息，返回 undefined 表示无效消息 */
 export function parseHubMessage(raw: string): HubToAgentMessage | undefined {
-  let parsed: unknown
-  try {
-    parsed = JSON.parse(raw)
-  } catch {
-    return undefined
-  }
-  if (typeof parsed !== "object" || parsed === null) return undefined
-  const msg = parsed as Record<string, unknown>
-  if (typeof msg.type !== "string" || !VALID_HUB_MESSAGE_TYPES.has(msg.type)) return undefined
-
-  switch (msg.type) {
-    case "register_ack":
-      if (typeof msg.success !== "boolean") return undefined
-      break
-    case "task":
-      if (typeof msg.taskId !== "string" || typeof msg.content !== "string") return undefined
-      if (typeof msg.from !== "string") return undefined
-      break
-    case "list_agents_response":
-      if (typeof msg.requestId !== "string" || !Array.isArray(msg.agents)) return undefined
-      break
-    case "task_status_response":
-      if (typeof msg.requestId !== "string") return undefined
-      break
-    case "cancel_task":
-      if (typeof msg.taskId !== "string") return undefined
-      break
-    // ping 无额外字段
-  }
-
-  return parsed as HubToAgentMessage
+  const result = HubToAgentMessageSchema.safeParse(parseJson(raw))
+  return result.success ? result.data : undefined
 }
@@ -0,0 +1,398 @@
+import { z } from "zod"
+
+// 协议的唯一定义：TS 类型（types.ts / protocol.ts）、运行时校验和 JSON Schema 均由这里的 schema 派生。
+// 对象默认丢弃未知字段，新版本增加的可选字段不影响旧版解析。
+
+// ─── 公共类型 ───
+
+/**
+ * Agent 在注册时声明支持的功能，Hub 只向 Agent 发送其支持的消息类型
+ * - attachments: 接收任务附件
+ * - streaming: 发送 task_output_chunk 流式输出
+ * - workspaces: 命名工作区（task.workspace）
+ * - worktrees: 每个任务独立 git worktree
+ * - git_patch: 处理 revert_task_changes
+ * - messaging: 接收 chat_message / message_receipt
+ * - journal: 结果持久化，处理 Hub 的 ack
+ * - task_ack: 收到 task 后回复 task_ack
+ * - safe_mode: 执行 safe 任务时禁用修改文件和执行命令的工具
+ * - message_ack: 收到 chat_message 后回复 message_ack，因未读上限丢弃时同样报告
+ */
+export const AgentCapabilitySchema = z.enum([
+  "attachments", "streaming", "workspaces", "worktrees", "git_patch", "messaging", "journal", "task_ack", "safe_mode",
+  "message_ack",
+])
+
+export const AgentInfoSchema = z.object({
+  name: z.string(),
+  status: z.enum(["online", "offline", "busy"]),
+  connectedAt: z.string(),
+  lastSeen: z.string(),
+  telegramUserId: z.number().int().optional(),
+  /** Agent 配置的命名工作区 */
+  workspaces: z.array(z.string()).readonly().optional(),
+  /** Agent 的并发上限，Hub 据此控制分发 */
+  maxConcurrentTasks: z.number().int().optional(),
+  /** Agent 本地排队上限，Hub 在并发之外最多再分发这么多任务 */
+  maxQueuedTasks: z.number().int().optional(),
+  /** 注册时上报的协议版本（未上报的旧版 daemon 为 1） */
+  protocolVersion: z.number().int().optional(),
+  daemonVersion: z.string().optional(),
+  /** Hub 与 Agent 协商后的功能列表 */
+  capabilities: z.array(AgentCapabilitySchema).readonly().optional(),
+}).readonly().meta({ id: "AgentInfo" })
+
+/** 任务优先级：同一 Agent 的待分发任务按优先级排序 */
+export const TaskPrioritySchema = z.enum(["low", "normal", "high", "urgent"])
+
+/** 任务失败的类型：retryable 为限流、网络抖动、daemon 重启等可自动重试的错误 */
+export const TaskErrorKindSchema = z.enum(["retryable", "terminal"])
+
+/** 一次失败的执行记录 */
+export const TaskAttemptSchema = z.object({
+  /** 从 1 开始 */
+  attempt: z.number().int(),
+  /** 错误信息预览 */
+  error: z.string(),
+  errorKind: TaskErrorKindSchema,
+  endedAt: z.string(),
+}).readonly()
+
+/** 一位审批人的批准记录（需要多人批准时逐条累计） */
+export const TaskApprovalSchema = z.object({
+  /** 审批人的 Telegram ID */
+  userId: z.number().int(),
+  /** 展示用的 @username 或昵称 */
+  name: z.string(),
+  approvedAt: z.string(),
+}).readonly()
+
+/** 自动批准或拒绝任务的规则（记录在任务上以便追溯） */
+export const TaskPolicyRuleSchema = z.object({
+  ruleId: z.string(),
+  action: z.enum(["approve", "reject"]),
+  /** 规则条件的可读描述 */
+  description: z.string(),
+}).readonly()
+
+export const TaskInfoSchema = z.object({
+  taskId: z.string(),
+  from: z.string(),
+  to: z.string(),
+  content: z.string(),
+  /** blocked: 等待 dependsOn 中的上游任务完成；expired: 审批超时无人处理 */
+  status: z.enum(["pending", "blocked", "awaiting_approval", "approved", "running", "completed", "failed", "rejected", "cancelled", "expired"]),
+  result: z.string().optional(),
+  createdAt: z.string(),
+  completedAt: z.string().optional(),
+  chatId: z.number().int(),
+  messageId: z.number().int(),
+  conversationId: z.string().optional(),
+  parentTaskId: z.string().optional(),
+  resultMessageId: z.number().int().optional(),
+  /** worktree 模式下任务改动所在的分支 */
+  branch: z.string().optional(),
+  /** 任务指定的命名工作区（@agent#workspace） */
+  workspace: z.string().optional(),
+  /** 未设置时视为 normal */
+  priority: TaskPrioritySchema.optional(),
+  /** 上游任务 ID，全部完成后才会进入审批/分发，其结果会注入任务内容 */
+  dependsOn: z.array(z.string()).readonly().optional(),
+  /** 所属流水线 */
+  pipelineId: z.string().optional(),
+  /** 扇出任务的父任务（父任务本身不分发，汇总所有子任务结果） */
+  fanoutParentId: z.string().optional(),
+  /** 扇出父任务的子任务 ID（按目标顺序） */
+  fanoutChildIds: z.array(z.string()).readonly().optional(),
+  /** 可重试错误的自动重试次数上限，未设置时使用 Hub 默认值 */
+  maxRetries: z.number().int().optional(),
+  /** 此前失败的执行记录（按时间顺序） */
+  attempts: z.array(TaskAttemptSchema).readonly().optional(),
+  /** 自动重试的退避截止时间，此前不会分发 */
+  retryAt: z.string().optional(),
+  /** 请求方标记为安全（!safe）的任务，只读用户只能提交此类任务 */
+  safe: z.boolean().optional(),
+  /** 已批准的审批人（Agent 要求多人批准时，达到法定人数前任务保持 awaiting_approval） */
+  approvals: z.array(TaskApprovalSchema).readonly().optional(),
+  /** 审批截止时间，到期仍未批准的任务变为 expired */
+  approvalExpiresAt: z.string().optional(),
+  /** 跳过人工审批直接批准或拒绝此任务的规则 */
+  policyRule: TaskPolicyRuleSchema.optional(),
+  /** 审批人修改内容后批准时的原始内容（content 为修改后实际分发的内容） */
+  originalContent: z.string().optional(),
+  /** 修改任务内容的审批人 */
+  amendedBy: z.string().optional(),
+  /** 群聊请求方的 Telegram ID 和用户名（流水线下游步骤解除阻塞后按此判定 ACL 和审批） */
+  requesterTelegramId: z.number().int().optional(),
+  requesterUsername: z.string().optional(),
+}).readonly().meta({ id: "TaskInfo" })
+
+export const TaskAttachmentSchema = z.object({
+  filename: z.string(),
+  mimeType: z.string(),
+  /** base64 */
+  data: z.string(),
+  size: z.number().int().nonnegative(),
+}).readonly().meta({ id: "TaskAttachment" })
+
+// ─── Agent -> Hub Messages ───
+
+export const RegisterMessageSchema = z.object({
+  type: z.literal("register"),
+  agentName: z.string(),
+  token: z.string(),
+  /** 可选：Agent 配置的命名工作区 */
+  workspaces: z.array(z.string()).readonly().optional(),
+  /** 可选：并发上限，Hub 只在有空闲槽位时分发任务 */
+  maxConcurrentTasks: z.number().optional(),
+  /** 可选：本地排队上限，上报后 Hub 会在并发之外继续分发，由 daemon 排队执行 */
+  maxQueuedTasks: z.number().optional(),
+  /** 可选：正在执行（含本地排队、结果待重发）的任务，Hub 据此清理断线期间丢失的任务 */
+  runningTaskIds: z.array(z.string()).readonly().optional(),
+  /** 可选：协议版本，未上报时视为 LEGACY_PROTOCOL_VERSION */
+  protocolVersion: z.number().int().optional(),
+  /** 可选：daemon 版本号（仅用于展示） */
+  daemonVersion: z.string().optional(),
+  /** 可选：支持的功能，未上报时视为 LEGACY_AGENT_CAPABILITIES（未知功能由 Hub 忽略） */
+  capabilities: z.array(z.string()).readonly().optional(),
+}).readonly().meta({ id: "RegisterMessage" })
+
+export const PongMessageSchema = z.object({
+  type: z.literal("pong"),
+}).readonly().meta({ id: "PongMessage" })
+
+export const TaskResultMessageSchema = z.object({
+  type: z.literal("task_result"),
+  taskId: z.string(),
+  result: z.string(),
+  status: z.enum(["success", "error"]),
+  /** 结果过长时分片发送：此前已发送的 task_result_chunk 数量（此时 result 为空） */
+  totalChunks: z.number().int().optional(),
+  /** Agent 生成的输出文件（来自 .ccchat-outputs/<taskId>/） */
+  attachments: z.array(TaskAttachmentSchema).readonly().optional(),
+  /** git patch 模式：任务对工作目录的改动（git diff） */
+  diff: z.string().optional(),
+  /** diff 超出大小限制被截断（回滚仍使用 daemon 本地保存的完整补丁） */
+  diffTruncated: z.boolean().optional(),
+  /** worktree 模式：任务执行所在的分支 */
+  branch: z.string().optional(),
+  /** status 为 error 时的错误类型，未设置时 Hub 按结果文本判断 */
+  errorKind: TaskErrorKindSchema.optional(),
+}).readonly().meta({ id: "TaskResultMessage" })
+
+export const TaskResultChunkMessageSchema = z.object({
+  type: z.literal("task_result_chunk"),
+  taskId: z.string(),
+  index: z.number().int(),
+  total: z.number().int(),
+  text: z.string(),
+}).readonly().meta({ id: "TaskResultChunkMessage" })
+
+export const SendChatMessageSchema = z.object({
+  type: z.literal("send_message"),
+  targetAgent: z.string(),
+  content: z.string(),
+  /** 可选：用于关联 Hub 返回的 message_receipt */
+  requestId: z.string().optional(),
+}).readonly().meta({ id: "SendChatMessage" })
+
+export const ListAgentsRequestSchema = z.object({
+  type: z.literal("list_agents"),
+  requestId: z.string(),
+}).readonly().meta({ id: "ListAgentsRequest" })
+
+export const TaskStatusRequestSchema = z.object({
+  type: z.literal("task_status"),
+  requestId: z.string(),
+  taskId: z.string(),
+}).readonly().meta({ id: "TaskStatusRequest" })
+
+export const TaskCancelledMessageSchema = z.object({
+  type: z.literal("task_cancelled"),
+  taskId: z.string(),
+}).readonly().meta({ id: "TaskCancelledMessage" })
+
+export const StatusReportMessageSchema = z.object({
+  type: z.literal("status_report"),
+  runningTasks: z.number().int(),
+  currentTaskId: z.string().optional(),
+  idleSince: z.string().optional(),
+  /** 本地队列中等待执行的任务数 */
+  queuedTasks: z.number().int().optional(),
+  /** 本地队列已满，Hub 应暂停分发 */
+  queueFull: z.boolean().optional(),
+}).readonly().meta({ id: "StatusReportMessage" })
+
+export const TaskQueuedMessageSchema = z.object({
+  type: z.literal("task_queued"),
+  taskId: z.string(),
+  /** 在本地队列中的位置（从 1 开始） */
+  position: z.number().int(),
+}).readonly().meta({ id: "TaskQueuedMessage" })
+
+export const TaskProgressMessageSchema = z.object({
+  type: z.literal("task_progress"),
+  taskId: z.string(),
+  status: z.string(),
+  detail: z.string().optional(),
+  elapsedMs: z.number(),
+}).readonly().meta({ id: "TaskProgressMessage" })
+
+export const TaskOutputChunkMessageSchema = z.object({
+  type: z.literal("task_output_chunk"),
+  taskId: z.string(),
+  /** 从 0 开始递增，Hub 据此丢弃重复/乱序的分片 */
+  seq: z.number().int(),
+  text: z.string(),
+}).readonly().meta({ id: "TaskOutputChunkMessage" })
+
+export const ChangesRevertedMessageSchema = z.object({
+  type: z.literal("changes_reverted"),
+  taskId: z.string(),
+  success: z.boolean(),
+  error: z.string().optional(),
+}).readonly().meta({ id: "ChangesRevertedMessage" })
+
+/** 确认收到 task 消息（重复投递同样确认，daemon 按 taskId 去重不会重复执行） */
+export const TaskAckMessageSchema = z.object({
+  type: z.literal("task_ack"),
+  taskId: z.string(),
+  /** 对应 TaskMessage.seq */
+  seq: z.number().int(),
+}).readonly().meta({ id: "TaskAckMessage" })
+
+export const MessageAckMessageSchema = z.object({
+  type: z.literal("message_ack"),
+  messageId: z.string(),
+  /** received: 已收到（Hub 据此标记送达）；dropped: 未读消息超出上限，已收到的消息未被处理即丢弃 */
+  status: z.enum(["received", "dropped"]),
+}).readonly().meta({ id: "MessageAckMessage" })
+
+export const AgentToHubMessageSchema = z.discriminatedUnion("type", [
+  RegisterMessageSchema,
+  TaskAckMessageSchema,
+  MessageAckMessageSchema,
+  PongMessageSchema,
+  TaskResultMessageSchema,
+  TaskResultChunkMessageSchema,
+  SendChatMessageSchema,
+  ListAgentsRequestSchema,
+  TaskStatusRequestSchema,
+  TaskCancelledMessageSchema,
+  StatusReportMessageSchema,
+  TaskQueuedMessageSchema,
+  TaskProgressMessageSchema,
+  TaskOutputChunkMessageSchema,
+  ChangesRevertedMessageSchema,
+]).meta({ id: "AgentToHubMessage" })
+
+// ─── Hub -> Agent Messages ───
+
+export const RegisterAckMessageSchema = z.object({
+  type: z.literal("register_ack"),
+  success: z.boolean(),
+  error: z.string().optional(),
+  /** Hub 的协议版本（旧版 Hub 不发送） */
+  protocolVersion: z.number().int().optional(),
+  /** 协商后的功能（Agent 声明且 Hub 支持的），Agent 据此决定是否依赖 ack 等新消息 */
+  capabilities: z.array(z.string()).readonly().optional(),
+}).readonly().meta({ id: "RegisterAckMessage" })
+
+export const PingMessageSchema = z.object({
+  type: z.literal("ping"),
+}).readonly().meta({ id: "PingMessage" })
+
+export const TaskMessageSchema = z.object({
+  type: z.literal("task"),
+  taskId: z.string(),
+  from: z.string(),
+  content: z.string(),
+  chatId: z.number().int(),
+  messageId: z.number().int(),
+  conversationId: z.string().optional(),
+  parentTaskId: z.string().optional(),
+  attachments: z.array(TaskAttachmentSchema).readonly().optional(),
+  /** 指定的命名工作区，未指定时使用 workDir */
+  workspace: z.string().optional(),
+  /** Hub 分配的投递序号（每次发送递增，含重新投递），daemon 以 task_ack 回传 */
+  seq: z.number().int().optional(),
+  /** 只读任务（!safe），支持 safe_mode 的 daemon 禁用修改文件和执行命令的工具 */
+  safe: z.boolean().optional(),
+}).readonly().meta({ id: "TaskMessage" })
+
+export const ListAgentsResponseSchema = z.object({
+  type: z.literal("list_agents_response"),
+  requestId: z.string(),
+  agents: z.array(AgentInfoSchema).readonly(),
+}).readonly().meta({ id: "ListAgentsResponse" })
+
+export const TaskStatusResponseSchema = z.object({
+  type: z.literal("task_status_response"),
+  requestId: z.string(),
+  task: TaskInfoSchema.nullable(),
+}).readonly().meta({ id: "TaskStatusResponse" })
+
+export const CancelTaskMessageSchema = z.object({
+  type: z.literal("cancel_task"),
+  taskId: z.string(),
+}).readonly().meta({ id: "CancelTaskMessage" })
+
+export const RevertTaskChangesMessageSchema = z.object({
+  type: z.literal("revert_task_changes"),
+  taskId: z.string(),
+}).readonly().meta({ id: "RevertTaskChangesMessage" })
+
+/** Hub 已处理某任务的结果/取消通知，daemon 可从本地日志中移除 */
+export const AckMessageSchema = z.object({
+  type: z.literal("ack"),
+  taskId: z.string(),
+}).readonly().meta({ id: "AckMessage" })
+
+export const ChatMessageSchema = z.object({
+  type: z.literal("chat_message"),
+  messageId: z.string(),
+  from: z.string(),
+  content: z.string(),
+  sentAt: z.string(),
+}).readonly().meta({ id: "ChatMessage" })
+
+export const MessageReceiptMessageSchema = z.object({
+  type: z.literal("message_receipt"),
+  messageId: z.string(),
+  requestId: z.string().optional(),
+  targetAgent: z.string(),
+  /**
+   * delivered: 已送达在线 Agent（支持 message_ack 的 Agent 确认收到后才发送）；queued: 对方离线或未确认，已存入收件箱；
+   * rejected: 无法投递；dropped: 对方未读消息超出上限，消息未被处理即丢弃（只发给支持 message_ack 的发送方）
+   */
+  status: z.enum(["delivered", "queued", "rejected", "dropped"]),
+  error: z.string().optional(),
+}).readonly().meta({ id: "MessageReceiptMessage" })
+
+export const HubToAgentMessageSchema = z.discriminatedUnion("type", [
+  RegisterAckMessageSchema,
+  PingMessageSchema,
+  TaskMessageSchema,
+  ListAgentsResponseSchema,
+  TaskStatusResponseSchema,
+  CancelTaskMessageSchema,
+  RevertTaskChangesMessageSchema,
+  AckMessageSchema,
+  ChatMessageSchema,
+  MessageReceiptMessageSchema,
+]).meta({ id: "HubToAgentMessage" })
+
+// ─── JSON Schema ───
+
+/** 协议的 JSON Schema（draft 2020-12），供其他语言实现 daemon；消息定义位于 $defs */
+export function protocolJsonSchema(): Record<string, unknown> {
+  const protocol = z.object({
+    agentToHub: AgentToHubMessageSchema,
+    hubToAgent: HubToAgentMessageSchema,
+  }).meta({
+    title: "CCChat WebSocket protocol",
+    description: "agentToHub: daemon 发送给 Hub 的消息；hubToAgent: Hub 发送给 daemon 的消息。每条 WebSocket 消息是其中一条的 JSON 序列化",
+  })
+  // input 模式：不生成 additionalProperties: false，允许新版本增加字段
+  return z.toJSONSchema(protocol, { target: "draft-2020-12", io: "input" }) as Record<string, unknown>
+}
@@ -1,32 +1,48 @@
-export interface AgentInfo {
-  readonly name: string
-  readonly status: "online" | "offline" | "busy"
-  readonly connectedAt: string
-  readonly lastSeen: string
-  readonly telegramUserId?: number
-}
+import type { z } from "zod"
+import type {
+  AgentCapabilitySchema,
+  AgentInfoSchema,
+  TaskPrioritySchema,
+  TaskErrorKindSchema,
+  TaskAttemptSchema,
+  TaskApprovalSchema,
+  TaskPolicyRuleSchema,
+  TaskInfoSchema,
+  TaskAttachmentSchema,
+} from "./schema.js"
 
-export interface TaskInfo {
-  readonly taskId: string
-  readonly from: string
-  readonly to: string
-  readonly content: string
-  readonly status: "pending" | "awaiting_approval" | "approved" | "running" | "completed" | "failed" | "rejected" | "cancelled"
-  readonly result?: string
-  readonly createdAt: string
-  readonly completedAt?: string
-  readonly chatId: number
-  readonly messageId: number
-  readonly conversationId?: string
-  readonly parentTaskId?: string
-  readonly resultMessageId?: number
-}
+// 协议中传输的数据类型由 schema.ts 派生（字段说明见对应 schema）
+
+/** Agent 在注册时声明支持的功能，Hub 只向 Agent 发送其支持的消息类型 */
+export type AgentCapability = z.infer<typeof AgentCapabilitySchema>
+
+export type AgentInfo = z.infer<typeof AgentInfoSchema>
+
+/** 任务优先级：同一 Agent 的待分发任务按优先级排序 */
+export type TaskPriority = z.infer<typeof TaskPrioritySchema>
+
+/** 任务失败的类型：retryable 为限流、网络抖动、daemon 重启等可自动重试的错误 */
+export type TaskErrorKind = z.infer<typeof TaskErrorKindSchema>
+
+/** 一次失败的执行记录 */
+export type TaskAttempt = z.infer<typeof TaskAttemptSchema>
 
-export interface TaskAttachment {
-  readonly filename: string
-  readonly mimeType: string
-  readonly data: string  // base64
-  readonly size: number
+/** 一位审批人的批准记录 */
+export type TaskApproval = z.infer<typeof TaskApprovalSchema>
+
+/** 触发的自动审批规则 */
+export type TaskPolicyRule = z.infer<typeof TaskPolicyRuleSchema>
+
+export type TaskInfo = z.infer<typeof TaskInfoSchema>
+
+export type TaskAttachment = z.infer<typeof TaskAttachmentSchema>
+
+export interface WorkspaceConfig {
+  readonly path: string
+  /** 覆盖全局 systemPrompt */
+  readonly systemPrompt?: string
+  /** 覆盖全局 taskTimeout */
+  readonly taskTimeout?: number
 }
 
 export interface DaemonConfig {
@@ -36,7 +52,17 @@ export interface DaemonConfig {
   readonly workDir: string
   readonly systemPrompt?: string
   readonly maxConcurrentTasks?: number
+  /** 达到并发上限后本地排队的任务数上限，超出时任务失败 */
+  readonly maxQueuedTasks?: number
   readonly taskTimeout?: number
+  /** 收到其他 Agent 消息时的处理方式：log 仅打印日志，prompt 附加到下一个任务的提示词中 */
+  readonly messageMode?: "log" | "prompt"
+  /** git patch 模式：任务结束后把工作目录的改动以 diff 形式返回，并支持回滚 */
+  readonly gitPatchMode?: boolean
+  /** shared: 所有任务共用 workDir；worktree: 每个任务在独立的 git worktree（ccchat/<taskId> 分支）中执行 */
+  readonly workspaceMode?: "shared" | "worktree"
+  /** 命名工作区（名称 → 配置），任务可通过 @agent#名称 选择，未指定时使用 workDir */
+  readonly workspaces?: Readonly<Record<string, WorkspaceConfig>>
 }
 
 export interface HubConfig {